@@ -0,0 +1,336 @@
+/**
+ * Crystal API - the local JSON API behind the crystal browser UI
+ *
+ * Served next to the MCP transport by the same process (--ui) and backed by
+ * the same CrystalService, so the browser never reads files from public/.
+ * Bodies use the tool result convention: { ok: true, ... } or
+ * { ok: false, error: { code, message } } with a matching HTTP status.
+ *
+ * GET   /api/crystals              ?tag=&sort=&order=&collapse=&trash= (plus unreadable crystals)
+ * GET   /api/crystals/:id          crystal with its parsed layers
+ * PATCH /api/crystals/:id/tags     { tags } | { add, remove }
+ * GET   /api/search                ?q=&spec=&after=&before=&tag=&limit=
+ * GET   /api/specs                 ?kind=protocol|codex
+ * GET   /api/specs/:kind/:filename file content with its ⟨SYMBOL_SEMANTICS⟩ legend
+ *
+ * /api/crystals and /api/search also take the provenance filters
+ * ?client=&session_id=&cwd=&git_head=&server_version=.
+ *
+ * Anything else is served from the built UI (dist/) when it exists.
+ * Requests must name the server by a loopback host and its port, so a page
+ * whose domain was rebound to 127.0.0.1 cannot read or change crystals.
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server } from "node:http";
+import { readFile, stat } from "fs/promises";
+import { extname, resolve, sep } from "path";
+import type { CrystalService } from "./crystal-service.js";
+import { parseCrystal, symbolLegend } from "./crystal-parser.js";
+import type { ProvenanceFilters } from "./crystal-provenance.js";
+import { ToolError, ToolErrorCode, errorResult, crystalSummary, integrityData } from "./tool-results.js";
+import { LOOPBACK_HOSTS, isLoopbackHostHeader } from "./loopback.js";
+
+export interface CrystalApiOptions {
+  host: string;
+  port: number;
+  // Built UI to serve for non-API paths; skipped when the directory is missing
+  staticDir?: string;
+}
+
+export interface CrystalApiHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const STATUS_BY_CODE: Partial<Record<ToolErrorCode, number>> = {
+  NOT_FOUND: 404,
+  NO_MATCH: 404,
+  INVALID_ARGUMENT: 400,
+  INVALID_FORMAT: 400,
+  UNKNOWN_SPEC_VERSION: 400,
+  NO_MIGRATION_PATH: 400,
+  CONFLICT: 409,
+  LOCKED: 423,
+  INTEGRITY_FAILED: 422,
+  UNTRUSTED: 403
+};
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".woff2": "font/woff2",
+  ".json": "application/json"
+};
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' }).end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: unknown, action: string): void {
+  const { structuredContent } = errorResult(error, action);
+  const code = (structuredContent as { error: { code: ToolErrorCode } }).error.code;
+  sendJson(res, STATUS_BY_CODE[code] ?? 500, structuredContent);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  // Only JSON bodies: a plain HTML form cannot forge a request from another site
+  if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+    throw new ToolError("INVALID_ARGUMENT", "Expected an application/json body");
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ToolError("INVALID_ARGUMENT", "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  const body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ToolError("INVALID_ARGUMENT", "Expected a JSON object");
+  }
+  return body;
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new ToolError("INVALID_ARGUMENT", `${field} must be an array of strings`);
+  }
+  return value;
+}
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[], param: string): T | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid ${param}: ${value} (expected ${allowed.join(', ')})`);
+  }
+  return value as T;
+}
+
+function provenanceParams(url: URL): ProvenanceFilters {
+  const param = (name: string) => url.searchParams.get(name) || undefined;
+  return {
+    client: param("client"),
+    session_id: param("session_id"),
+    cwd: param("cwd"),
+    git_head: param("git_head"),
+    server_version: param("server_version")
+  };
+}
+
+// Percent-decoded path text; a malformed escape such as "%E0%A4%A" is the client's error
+function decodePath(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    throw new ToolError("INVALID_ARGUMENT", `Malformed percent-encoding in path: ${text}`);
+  }
+}
+
+async function serveStatic(res: ServerResponse, staticDir: string, pathname: string): Promise<boolean> {
+  const root = resolve(staticDir);
+  let file = resolve(root, `.${decodePath(pathname)}`);
+  if (file !== root && !file.startsWith(root + sep)) {
+    return false;
+  }
+  const info = await stat(file).catch(() => null);
+  if (!info?.isFile()) {
+    // Unknown paths fall back to the UI's entry page
+    file = resolve(root, "index.html");
+  }
+  const content = await readFile(file).catch(() => null);
+  if (!content) {
+    return false;
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] ?? 'application/octet-stream' }).end(content);
+  return true;
+}
+
+export async function startCrystalApi(core: CrystalService, options: CrystalApiOptions): Promise<CrystalApiHandle> {
+  if (!LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error(`Refusing to serve the crystal UI on ${options.host}: it has no authentication and only listens on loopback addresses`);
+  }
+
+  const routes: { method: string; pattern: RegExp; action: string; handle: (match: string[], url: URL, req: IncomingMessage) => Promise<Record<string, unknown>> }[] = [
+    {
+      method: "GET",
+      pattern: /^\/api\/crystals$/,
+      action: "listing crystals",
+      handle: async (_match, url) => {
+        const trashed = url.searchParams.get("trash") === "true";
+        const { crystals, errors } = await core.listCrystals({
+          tags: url.searchParams.getAll("tag").filter(Boolean),
+          sort_by: oneOf(url.searchParams.get("sort"), ["created_at", "title", "tags"] as const, "sort"),
+          order: oneOf(url.searchParams.get("order"), ["asc", "desc"] as const, "order"),
+          collapse_superseded: url.searchParams.get("collapse") === "true",
+          trashed,
+          ...provenanceParams(url)
+        });
+        return { trashed, crystals, errors };
+      }
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/crystals\/([A-Za-z0-9_-]+)$/,
+      action: "reading crystal",
+      handle: async ([crystalId]) => {
+        const { crystal, integrity, content } = await core.importCrystal({ crystal_id: crystalId });
+        const parsed = parseCrystal(content, (await core.loadRegistry()).layerModel(crystal.spec_version));
+        return {
+          crystal: crystalSummary(crystal),
+          notes: crystal.notes ?? null,
+          integrity: integrityData(integrity),
+          content,
+          parsed: {
+            header: parsed.header,
+            omega: parsed.coreTransform.omega,
+            delta: parsed.coreTransform.delta,
+            format: parsed.format,
+            layers: parsed.layers.map(({ raw: _raw, ...layer }) => layer)
+          }
+        };
+      }
+    },
+    {
+      method: "PATCH",
+      pattern: /^\/api\/crystals\/([A-Za-z0-9_-]+)\/tags$/,
+      action: "tagging crystal",
+      handle: async ([crystalId], _url, req) => {
+        const body = await readJsonBody(req);
+        const { crystal, changes } = await core.updateCrystal({
+          crystal_id: crystalId,
+          tags: stringList(body.tags, "tags"),
+          add_tags: stringList(body.add, "add"),
+          remove_tags: stringList(body.remove, "remove"),
+          validation: "off"
+        });
+        return { crystal: crystalSummary(crystal!), changes };
+      }
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/search$/,
+      action: "searching crystals",
+      handle: async (_match, url) => {
+        const limit = Number(url.searchParams.get("limit") || 20);
+        if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+          throw new ToolError("INVALID_ARGUMENT", `Invalid limit: ${url.searchParams.get("limit")} (expected 1-100)`);
+        }
+        const query = url.searchParams.get("q") ?? '';
+        const { hits, indexed } = await core.searchCrystals({
+          query,
+          spec_version: url.searchParams.get("spec") || undefined,
+          created_after: url.searchParams.get("after") || undefined,
+          created_before: url.searchParams.get("before") || undefined,
+          tags: url.searchParams.getAll("tag").filter(Boolean),
+          ...provenanceParams(url),
+          limit
+        });
+        return { query, indexed, hits: hits.map(({ fieldScores, ...hit }) => ({ ...hit, field_scores: fieldScores })) };
+      }
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/specs$/,
+      action: "listing protocols",
+      handle: async (_match, url) => {
+        const registry = await core.loadRegistry();
+        const kind = oneOf(url.searchParams.get("kind"), ["protocol", "codex"] as const, "kind");
+        return { entries: registry.list(kind).map(({ content: _content, ...entry }) => entry), versions: registry.versions() };
+      }
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/specs\/(protocol|codex)\/([^/]+)$/,
+      action: "reading protocol",
+      handle: async ([kind, filename]) => {
+        const name = decodePath(filename);
+        const entry = (await core.loadRegistry()).get(kind as "protocol" | "codex", name);
+        if (!entry) {
+          throw new ToolError("NOT_FOUND", `No ${kind} file named ${name}`);
+        }
+        const { content, ...header } = entry;
+        return { entry: header, content, legend: symbolLegend(content) };
+      }
+    }
+  ];
+
+  // Known once the server listens (options.port may be 0)
+  let port = options.port;
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    if (!isLoopbackHostHeader(req.headers.host, port)) {
+      sendJson(res, 403, { ok: false, error: { code: "INVALID_ARGUMENT", message: `Host not allowed: ${req.headers.host ?? '(none)'}` } });
+      return;
+    }
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    if (!url.pathname.startsWith("/api/")) {
+      try {
+        if (req.method === "GET" && options.staticDir && await serveStatic(res, options.staticDir, url.pathname)) {
+          return;
+        }
+      } catch (error) {
+        sendError(res, error, "serving UI");
+        return;
+      }
+      sendError(res, new ToolError("NOT_FOUND", `Not found: ${url.pathname}`), "serving UI");
+      return;
+    }
+
+    const matching = routes.filter(route => route.pattern.test(url.pathname));
+    const route = matching.find(candidate => candidate.method === req.method);
+    if (!route) {
+      if (matching.length > 0) {
+        res.setHeader('Allow', matching.map(candidate => candidate.method).join(', '));
+        sendJson(res, 405, { ok: false, error: { code: "INVALID_ARGUMENT", message: `Method not allowed: ${req.method}` } });
+      } else {
+        sendError(res, new ToolError("NOT_FOUND", `Not found: ${url.pathname}`), "routing request");
+      }
+      return;
+    }
+
+    try {
+      const data = await route.handle(url.pathname.match(route.pattern)!.slice(1), url, req);
+      sendJson(res, 200, { ok: true, ...data });
+    } catch (error) {
+      sendError(res, error, route.action);
+    }
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error("Crystal API error:", error);
+      if (!res.headersSent) {
+        sendError(res, error, "handling request");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address();
+  port = address && typeof address === 'object' ? address.port : options.port;
+
+  return {
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}/`,
+    close: () => new Promise<void>(resolvePromise => httpServer.close(() => resolvePromise()))
+  };
+}
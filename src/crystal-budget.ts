@@ -0,0 +1,172 @@
+/**
+ * Crystal Budget - token estimates, layer selection and paged retrieval
+ *
+ * Lets import_crystal hand over only part of a crystal: the layers an agent
+ * asked for, cut to a token budget, with an opaque cursor for the rest. The
+ * "summary" strategy answers an oversized request with an outline of the
+ * layers instead, so the agent can pick what to read in full.
+ *
+ * Token counts are estimates (no tokenizer is bundled): about four ASCII
+ * characters per token, and one token per other character, which covers the
+ * protocol's ⟨⟩, Ω, ∂ and subscript symbols.
+ */
+
+import { contentHash } from "./crystal-integrity.js";
+import { parseCrystal, renderCrystal, resolveLayerIndex, layerSymbol, layerKey, LayerDefinition } from "./crystal-parser.js";
+import { ToolError } from "./tool-results.js";
+
+export type BudgetStrategy = "truncate" | "summary";
+
+// Where the next page starts, and what it pages through
+export interface PageCursor {
+  // Crystal the pages come from, and the id that was asked for (differs with `latest`)
+  id: string;
+  requested: string;
+  namespace: string;
+  spec: string;
+  layers: number[] | null;
+  offset: number;
+  // Detects a crystal that changed between pages
+  fingerprint: string;
+}
+
+export interface ContentPage {
+  text: string;
+  // Estimated tokens of `text`, and of everything from offset 0
+  tokens: number;
+  totalTokens: number;
+  offset: number;
+  // Offset of the next page, or null when `text` reaches the end
+  nextOffset: number | null;
+}
+
+const OUTLINE_PREVIEW_CHARS = 160;
+const OUTLINE_MAX_KEYS = 8;
+
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+export function contentFingerprint(text: string): string {
+  return contentHash(text).slice(0, 16);
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+export function decodeCursor(value: string): PageCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8')) as PageCursor;
+    if (typeof cursor.id === 'string' && typeof cursor.requested === 'string' && typeof cursor.namespace === 'string'
+      && typeof cursor.spec === 'string' && Number.isInteger(cursor.offset) && cursor.offset >= 0
+      && typeof cursor.fingerprint === 'string' && (cursor.layers === null || Array.isArray(cursor.layers))) {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ToolError("INVALID_ARGUMENT", "Invalid cursor: pass next_cursor from a previous import_crystal response unchanged");
+}
+
+// Resolve layer references ("L₉", "9", "RECONSTRUCTION_PROTOCOL") to indices in model order
+export function resolveLayerRefs(refs: string[], model: LayerDefinition[]): number[] {
+  const indices = new Set<number>();
+  for (const ref of refs) {
+    const index = resolveLayerIndex(ref, model);
+    if (index === null) {
+      throw new ToolError("INVALID_ARGUMENT", `Unknown layer: ${ref} (expected one of ${model.map(layer => `${layerSymbol(layer.index)} ${layer.name}`).join(', ')})`, { layer: ref });
+    }
+    indices.add(index);
+  }
+  return model.map(layer => layer.index).filter(index => indices.has(index));
+}
+
+/**
+ * Crystal content cut down to the header, Ω, ∂ and the given layers, as
+ * canonical JSON. Requested layers the crystal does not have are returned
+ * in `missing`.
+ */
+export function selectLayers(content: string, model: LayerDefinition[], indices: number[]): { content: string; missing: LayerDefinition[] } {
+  const crystal = parseCrystal(content, model);
+  const wanted = model.filter(layer => indices.includes(layer.index));
+  const { content: selected } = renderCrystal({
+    header: crystal.header ?? "CRYSTAL",
+    omega: crystal.coreTransform.omega,
+    delta: crystal.coreTransform.delta,
+    layers: crystal.layers.filter(layer => layer.present && indices.includes(layer.index))
+  }, wanted);
+  const present = new Set(crystal.layers.filter(layer => layer.present).map(layer => layer.index));
+  return { content: selected, missing: wanted.filter(layer => !present.has(layer.index)) };
+}
+
+// One line per layer with its size and entry keys, for choosing what to read in full
+export function outlineCrystal(content: string, model: LayerDefinition[]): string {
+  const crystal = parseCrystal(content, model);
+  const preview = (text: string) => text.length > OUTLINE_PREVIEW_CHARS ? `${text.slice(0, OUTLINE_PREVIEW_CHARS)}…` : text;
+  const lines = [`⟨⟨${crystal.header ?? 'CRYSTAL'}⟩⟩ (~${estimateTokens(content)} tokens)`];
+  if (crystal.coreTransform.omega !== null) {
+    lines.push(`Ω: ${preview(crystal.coreTransform.omega)}`);
+  }
+  if (crystal.coreTransform.delta !== null) {
+    lines.push(`∂: ${preview(crystal.coreTransform.delta)}`);
+  }
+  for (const layer of crystal.layers) {
+    const label = layerKey(model.find(definition => definition.index === layer.index) ?? layer);
+    if (!layer.present) {
+      lines.push(`${label}: absent`);
+      continue;
+    }
+    const keys = layer.entries.map(entry => entry.key).filter((key): key is string => Boolean(key));
+    const keyList = keys.length > 0
+      ? `: ${keys.slice(0, OUTLINE_MAX_KEYS).join(', ')}${keys.length > OUTLINE_MAX_KEYS ? ', …' : ''}`
+      : layer.entries.length > 0 ? `: ${preview(layer.entries[0].text)}` : '';
+    lines.push(`${label}: ${layer.entries.length} entr${layer.entries.length === 1 ? 'y' : 'ies'}, ~${estimateTokens(layer.raw)} tokens${keyList}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The part of `text` from `offset` that fits in `maxTokens`, cut at line
+ * ends. A single line longer than the budget is cut mid-line so every page
+ * makes progress.
+ */
+export function pageText(text: string, offset: number, maxTokens: number): ContentPage {
+  if (offset > text.length) {
+    throw new ToolError("INVALID_ARGUMENT", `Cursor offset ${offset} is past the end of the content`);
+  }
+  const totalTokens = estimateTokens(text);
+  let end = offset;
+  let tokens = 0;
+  while (end < text.length) {
+    const lineEnd = text.indexOf('\n', end);
+    const next = lineEnd === -1 ? text.length : lineEnd + 1;
+    const lineTokens = estimateTokens(text.slice(end, next));
+    if (tokens + lineTokens > maxTokens) {
+      if (end === offset) {
+        // Nothing fits whole: take as many characters of this line as the budget allows
+        for (const char of text.slice(end, next)) {
+          const charTokens = estimateTokens(char);
+          if (end > offset && tokens + charTokens > maxTokens) {
+            break;
+          }
+          tokens += charTokens;
+          end += char.length;
+        }
+      }
+      break;
+    }
+    tokens += lineTokens;
+    end = next;
+  }
+  return { text: text.slice(offset, end), tokens, totalTokens, offset, nextOffset: end < text.length ? end : null };
+}
@@ -0,0 +1,180 @@
+/**
+ * Crystal Bundles - portable archives of crystals and their dependencies
+ *
+ * A bundle is a gzipped tar archive:
+ * - manifest.json: bundle metadata, per-crystal dependencies, SHA-256 per file
+ * - crystals/<id>.crystal
+ * - protocols/<name>.cp and codex/<name>.cx the crystals depend on
+ */
+
+import { createHash } from "crypto";
+import { createTarGz, readTarGz, TarEntry } from "./tar.js";
+import { parseCrystalJson } from "./crystal-store.js";
+import type { CrystalData } from "./crystal-types.js";
+
+export const BUNDLE_FORMAT = "crystal-bundle";
+export const BUNDLE_FORMAT_VERSION = 1;
+export const BUNDLE_EXTENSION = ".crystalbundle.tar.gz";
+
+export interface BundleFileEntry {
+  path: string;
+  kind: "crystal" | "protocol" | "codex";
+  sha256: string;
+  size: number;
+}
+
+export interface BundleCrystalEntry {
+  id: string;
+  title: string;
+  spec_version: string;
+  path: string;
+  protocol: string | null;
+  codex: string[];
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  format_version: number;
+  created_at: string;
+  crystals: BundleCrystalEntry[];
+  files: BundleFileEntry[];
+}
+
+export interface CrystalDependencies {
+  protocol: { filename: string; content: string } | null;
+  codex: { filename: string; content: string }[];
+}
+
+export interface OpenedBundle {
+  manifest: BundleManifest;
+  crystals: CrystalData[];
+  protocols: Map<string, string>;
+  codex: Map<string, string>;
+}
+
+export class InvalidBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBundleError";
+  }
+}
+
+export function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export function createBundle(crystals: { crystal: CrystalData; dependencies: CrystalDependencies }[]): { archive: Buffer; manifest: BundleManifest } {
+  const entries = new Map<string, { kind: BundleFileEntry["kind"]; data: Buffer }>();
+  const crystalEntries: BundleCrystalEntry[] = [];
+
+  for (const { crystal, dependencies } of crystals) {
+    const path = `crystals/${crystal.id}.crystal`;
+    entries.set(path, { kind: "crystal", data: Buffer.from(JSON.stringify(crystal, null, 2), 'utf-8') });
+
+    const protocolPath = dependencies.protocol ? `protocols/${dependencies.protocol.filename}` : null;
+    if (dependencies.protocol && protocolPath) {
+      entries.set(protocolPath, { kind: "protocol", data: Buffer.from(dependencies.protocol.content, 'utf-8') });
+    }
+    const codexPaths = dependencies.codex.map(codex => {
+      const codexPath = `codex/${codex.filename}`;
+      entries.set(codexPath, { kind: "codex", data: Buffer.from(codex.content, 'utf-8') });
+      return codexPath;
+    });
+
+    crystalEntries.push({
+      id: crystal.id,
+      title: crystal.title,
+      spec_version: crystal.spec_version,
+      path,
+      protocol: protocolPath,
+      codex: codexPaths
+    });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    format_version: BUNDLE_FORMAT_VERSION,
+    created_at: new Date().toISOString(),
+    crystals: crystalEntries,
+    files: [...entries].map(([path, { kind, data }]) => ({ path, kind, sha256: sha256(data), size: data.length }))
+  };
+
+  const tarEntries: TarEntry[] = [
+    { path: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8') },
+    ...[...entries].map(([path, { data }]) => ({ path, data }))
+  ];
+  return { archive: createTarGz(tarEntries), manifest };
+}
+
+// Read a bundle and verify every file against the manifest checksums
+export function openBundle(archive: Buffer): OpenedBundle {
+  let entries: Map<string, Buffer>;
+  let manifest: BundleManifest;
+  try {
+    entries = new Map(readTarGz(archive).map(entry => [entry.path, entry.data]));
+    const manifestData = entries.get("manifest.json");
+    if (!manifestData) {
+      throw new InvalidBundleError("Invalid bundle: missing manifest.json");
+    }
+    manifest = JSON.parse(manifestData.toString('utf-8')) as BundleManifest;
+  } catch (error) {
+    throw error instanceof InvalidBundleError ? error : new InvalidBundleError(`Invalid bundle: ${error instanceof Error ? error.message : 'unreadable archive'}`);
+  }
+  if (manifest.format !== BUNDLE_FORMAT || manifest.format_version !== BUNDLE_FORMAT_VERSION) {
+    throw new InvalidBundleError(`Unsupported bundle format: ${manifest.format} v${manifest.format_version}`);
+  }
+
+  const crystals: CrystalData[] = [];
+  const protocols = new Map<string, string>();
+  const codex = new Map<string, string>();
+
+  for (const file of manifest.files) {
+    const data = entries.get(file.path);
+    if (!data) {
+      throw new InvalidBundleError(`Invalid bundle: ${file.path} is listed in the manifest but missing`);
+    }
+    if (sha256(data) !== file.sha256) {
+      throw new InvalidBundleError(`Checksum mismatch for ${file.path}: bundle is corrupt or was modified`);
+    }
+
+    const filename = file.path.slice(file.path.indexOf('/') + 1);
+    const text = data.toString('utf-8');
+    switch (file.kind) {
+      case "crystal":
+        crystals.push(parseCrystalJson(text));
+        break;
+      case "protocol":
+        protocols.set(filename, text);
+        break;
+      case "codex":
+        codex.set(filename, text);
+        break;
+      default:
+        throw new InvalidBundleError(`Invalid bundle: unknown file kind for ${file.path}`);
+    }
+  }
+
+  return { manifest, crystals, protocols, codex };
+}
+
+// Give colliding crystals new ids and repoint lineage links inside the bundle
+export function reidCrystals(crystals: CrystalData[], collidingIds: Set<string>, generateId: () => string): { crystals: CrystalData[]; idMap: Map<string, string> } {
+  const idMap = new Map<string, string>();
+  for (const crystal of crystals) {
+    if (collidingIds.has(crystal.id)) {
+      idMap.set(crystal.id, generateId());
+    }
+  }
+
+  const remap = (id: string | undefined) => (id && idMap.get(id)) || id;
+  return {
+    idMap,
+    crystals: crystals.map(crystal => ({
+      ...crystal,
+      id: remap(crystal.id)!,
+      root_id: remap(crystal.root_id),
+      parent_id: remap(crystal.parent_id),
+      supersedes: remap(crystal.supersedes)
+    }))
+  };
+}
@@ -0,0 +1,290 @@
+/**
+ * Crystal Catalogue - in-memory index of protocols, codex files and crystal metadata
+ *
+ * Built once per process and then kept current instead of re-reading every
+ * file per request: writes through CrystalService refresh the crystals they
+ * touched and `watch()` picks up files changed by other processes or by
+ * hand. Only the first read, and watcher events that cannot name a crystal,
+ * read the whole store. Crystals that cannot be read are reported in
+ * `errors()` rather than listed. Every refresh that changes something is
+ * announced to `onChange` subscribers.
+ */
+
+import { watch, FSWatcher } from "fs";
+import { basename, dirname } from "path";
+import type { CrystalMetadata } from "./crystal-types.js";
+import { CrystalStore, StoredCrystal, isCrystalId } from "./crystal-store.js";
+import { ProtocolRegistry, ProtocolKind } from "./protocol-registry.js";
+import { estimateTokens } from "./crystal-budget.js";
+
+export type CatalogueKind = "crystal" | ProtocolKind;
+
+export interface CatalogueCrystal {
+  id: string;
+  size: number;
+  // Estimated tokens of the content; null while it is encrypted with a key we do not have
+  tokens: number | null;
+  metadata: CrystalMetadata;
+  encryption?: StoredCrystal["encryption"];
+}
+
+export interface CatalogueError {
+  kind: CatalogueKind;
+  // Crystal id, or filename for protocol and codex files
+  name: string;
+  message: string;
+}
+
+export interface CatalogueChange {
+  kind: CatalogueKind;
+  // Crystal ids or filenames that were added or changed, and those that disappeared
+  changed: string[];
+  removed: string[];
+}
+
+// Editors and atomic writes produce bursts of events for one change
+const WATCH_DEBOUNCE_MS = 100;
+
+type RefreshScope = "crystals" | "specs";
+
+// Split a store listing into metadata entries and the crystals that could not be read
+export function catalogueCrystals(stored: StoredCrystal[]): { entries: CatalogueCrystal[]; errors: CatalogueError[] } {
+  const entries: CatalogueCrystal[] = [];
+  const errors: CatalogueError[] = [];
+  for (const crystal of stored) {
+    if (!crystal.data) {
+      errors.push({ kind: "crystal", name: crystal.id, message: crystal.error || 'Failed to parse crystal file' });
+      continue;
+    }
+    const { content: _content, ...metadata } = crystal.data;
+    entries.push({
+      id: crystal.id,
+      size: crystal.size,
+      tokens: crystal.encryption?.locked ? null : estimateTokens(crystal.data.content),
+      metadata,
+      ...(crystal.encryption ? { encryption: crystal.encryption } : {})
+    });
+  }
+  return { entries, errors };
+}
+
+export class CrystalCatalogue {
+  private crystalEntries = new Map<string, CatalogueCrystal>();
+  private crystalErrors = new Map<string, CatalogueError>();
+  private protocolRegistry = new ProtocolRegistry([]);
+  private built: Promise<void> | null = null;
+  // The first read of each scope builds the catalogue and announces nothing
+  private hasLoaded: Record<RefreshScope, boolean> = { crystals: false, specs: false };
+  private refreshes: Record<RefreshScope, Promise<void>> = { crystals: Promise.resolve(), specs: Promise.resolve() };
+  private listeners = new Set<(change: CatalogueChange) => void>();
+  private watchers: FSWatcher[] = [];
+  private timers = new Map<RefreshScope, NodeJS.Timeout>();
+  // Crystal ids seen by the watcher since the last refresh, or "all" for a full re-read
+  private pendingCrystals: Set<string> | "all" = new Set();
+
+  constructor(
+    private readonly store: CrystalStore,
+    private readonly directories: Record<ProtocolKind, string>
+  ) {}
+
+  onChange(listener: (change: CatalogueChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Resolves once the first full read is done and no refresh is in flight
+  async ready(): Promise<void> {
+    this.built ??= Promise.all([this.refreshCrystals(), this.refreshSpecs()]).then(() => undefined);
+    this.built.catch(() => {
+      this.built = null;
+    });
+    await this.built;
+    await Promise.all([this.refreshes.crystals, this.refreshes.specs]);
+  }
+
+  async crystals(): Promise<CatalogueCrystal[]> {
+    await this.ready();
+    return [...this.crystalEntries.values()];
+  }
+
+  async errors(): Promise<CatalogueError[]> {
+    await this.ready();
+    return [...this.crystalErrors.values()];
+  }
+
+  async registry(): Promise<ProtocolRegistry> {
+    await this.ready();
+    return this.protocolRegistry;
+  }
+
+  // Re-read the given crystals, or the whole store; queued behind any refresh already running
+  refreshCrystals(ids?: string[]): Promise<void> {
+    return this.enqueue("crystals", () => ids && this.hasLoaded.crystals ? this.updateCrystals(ids) : this.reloadCrystals());
+  }
+
+  refreshSpecs(): Promise<void> {
+    return this.enqueue("specs", () => this.reloadSpecs());
+  }
+
+  /**
+   * Watch the protocol and codex directories and the store's files. A
+   * directory that does not exist yet is skipped; the watchers never keep
+   * the process alive on their own.
+   */
+  watch(): void {
+    if (this.watchers.length > 0) {
+      return;
+    }
+    this.watchDirectory(this.directories.protocol, "specs");
+    this.watchDirectory(this.directories.codex, "specs");
+    if (this.store.kind === "file") {
+      // "<id>.crystal" appearing, changing or disappearing only concerns that crystal
+      this.watchDirectory(this.store.location, "crystals", filename => filename.endsWith(".crystal"), filename => {
+        const id = filename.replace(/\.crystal$/, '');
+        return isCrystalId(id) ? id : undefined;
+      });
+    } else if (this.store.kind === "sqlite") {
+      const database = basename(this.store.location);
+      this.watchDirectory(dirname(this.store.location), "crystals", filename => filename === database);
+    }
+  }
+
+  close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private enqueue(scope: RefreshScope, reload: () => Promise<void>): Promise<void> {
+    const run = this.refreshes[scope].catch(() => undefined).then(reload);
+    this.refreshes[scope] = run;
+    return run;
+  }
+
+  private async reloadCrystals(): Promise<void> {
+    const catalogued = catalogueCrystals(await this.store.list());
+    const entries = new Map(catalogued.entries.map(entry => [entry.id, entry]));
+    const errors = new Map(catalogued.errors.map(error => [error.name, error]));
+
+    const before = this.crystalSnapshot();
+    const initial = !this.hasLoaded.crystals;
+    this.crystalEntries = entries;
+    this.crystalErrors = errors;
+    this.hasLoaded.crystals = true;
+    if (!initial) {
+      this.emitDiff("crystal", before, this.crystalSnapshot());
+    }
+  }
+
+  // Read back only these crystals, e.g. the ones a write just touched
+  private async updateCrystals(ids: string[]): Promise<void> {
+    const unique = [...new Set(ids)];
+    const stored = await Promise.all(unique.map(id => this.store.entry(id)));
+    const before = this.crystalSnapshot(unique);
+    for (const id of unique) {
+      this.crystalEntries.delete(id);
+      this.crystalErrors.delete(id);
+    }
+    const catalogued = catalogueCrystals(stored.filter(crystal => crystal !== null));
+    for (const entry of catalogued.entries) {
+      this.crystalEntries.set(entry.id, entry);
+    }
+    for (const error of catalogued.errors) {
+      this.crystalErrors.set(error.name, error);
+    }
+    this.emitDiff("crystal", before, this.crystalSnapshot(unique));
+  }
+
+  // Serialized entries and errors by id, for all crystals or only the given ids
+  private crystalSnapshot(ids?: string[]): Map<string, string> {
+    const include = (id: string) => !ids || ids.includes(id);
+    return new Map<string, string>([
+      ...[...this.crystalEntries].filter(([id]) => include(id)).map(([id, entry]) => [id, JSON.stringify(entry)] as const),
+      ...[...this.crystalErrors].filter(([id]) => include(id)).map(([id, error]) => [id, JSON.stringify(error)] as const)
+    ]);
+  }
+
+  private async reloadSpecs(): Promise<void> {
+    const registry = await ProtocolRegistry.load(this.directories);
+    const previous = this.protocolRegistry;
+    const initial = !this.hasLoaded.specs;
+    this.protocolRegistry = registry;
+    this.hasLoaded.specs = true;
+    if (initial) {
+      return;
+    }
+    for (const kind of ["protocol", "codex"] as const) {
+      const snapshot = (source: ProtocolRegistry) => new Map(source.list(kind).map(entry => [entry.filename, entry.content]));
+      this.emitDiff(kind, snapshot(previous), snapshot(registry));
+    }
+  }
+
+  private emitDiff(kind: CatalogueKind, before: Map<string, string>, after: Map<string, string>): void {
+    const changed = [...after].filter(([name, value]) => before.get(name) !== value).map(([name]) => name);
+    const removed = [...before.keys()].filter(name => !after.has(name));
+    if (changed.length === 0 && removed.length === 0) {
+      return;
+    }
+    for (const listener of this.listeners) {
+      listener({ kind, changed, removed });
+    }
+  }
+
+  /**
+   * `crystalId` names the crystal a changed file holds. Events without a
+   * filename (some platforms report renames that way) and files that do not
+   * name one, such as the sqlite database, re-read the whole scope.
+   */
+  private watchDirectory(directory: string, scope: RefreshScope, accept?: (filename: string) => boolean, crystalId?: (filename: string) => string | undefined): void {
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(directory, { persistent: false }, (_event, filename) => {
+        if (!filename) {
+          this.schedule(scope);
+        } else if (!accept || accept(filename.toString())) {
+          this.schedule(scope, crystalId?.(filename.toString()));
+        }
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    watcher.on('error', (error) => {
+      console.error(`Stopped watching ${directory}:`, error);
+      watcher.close();
+    });
+    this.watchers.push(watcher);
+  }
+
+  private schedule(scope: RefreshScope, crystalId?: string): void {
+    if (scope === "crystals") {
+      if (crystalId === undefined) {
+        this.pendingCrystals = "all";
+      } else if (this.pendingCrystals !== "all") {
+        this.pendingCrystals.add(crystalId);
+      }
+    }
+    clearTimeout(this.timers.get(scope));
+    const timer = setTimeout(() => {
+      this.timers.delete(scope);
+      let refresh: Promise<void>;
+      if (scope === "crystals") {
+        const pending = this.pendingCrystals;
+        this.pendingCrystals = new Set();
+        refresh = this.refreshCrystals(pending === "all" ? undefined : [...pending]);
+      } else {
+        refresh = this.refreshSpecs();
+      }
+      refresh.catch(error => console.error(`Failed to refresh the ${scope} catalogue:`, error));
+    }, WATCH_DEBOUNCE_MS);
+    timer.unref();
+    this.timers.set(scope, timer);
+  }
+}
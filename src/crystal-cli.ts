@@ -0,0 +1,384 @@
+#!/usr/bin/env node
+
+/**
+ * Crystal CLI - list, inspect, export and import crystals from a terminal
+ *
+ * The subcommands mirror the MCP tools and run on the same CrystalService, so
+ * they read and write the store selected by the same CRYSTAL_* environment,
+ * config file and data root flags.
+ * With --json every command prints the structured result of its tool
+ * counterpart ({ ok, ... } or { ok: false, error }) instead of text.
+ */
+
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { CrystalService, ValidationMode, projectRoot } from "./crystal-service.js";
+import { CONFIG_ARG_OPTIONS, configOverridesFrom, loadCrystalConfig } from "./crystal-config.js";
+import { lineageOf } from "./crystal-lineage.js";
+import { formatCandidates } from "./matching.js";
+import { formatIntegrityReport } from "./crystal-integrity.js";
+import { formatMigrationReport } from "./crystal-migration.js";
+import { ProvenanceFilters, SERVER_VERSION, formatProvenance } from "./crystal-provenance.js";
+import { ToolError, toolResult, toolFailure, errorResult, crystalSummary, validationData, integrityData } from "./tool-results.js";
+
+const USAGE = `Usage: crystal <command> [options]
+
+Commands:
+  list                      List stored crystals
+    --tag <tag>             Only crystals carrying this tag (repeatable)
+    --sort <field>          created_at, title or tags
+    --desc                  Sort descending
+    --collapse              Hide crystals that a newer version supersedes
+    --trash                 List the trash instead
+    --all-namespaces        List every namespace, not just the selected one
+    (and the provenance filters below)
+  show <id>                 Print a crystal for reconstruction
+    --spec <version>        Migrate the content to this spec version
+    --latest                Resolve to the newest crystal in the lineage
+    --layer <layer>         Only this layer, e.g. L9 or RECONSTRUCTION_PROTOCOL (repeatable)
+    --max-tokens <n>        Estimated token budget; prints a cursor for the rest
+    --summary               Print an outline instead when over the budget
+    --cursor <cursor>       Continue from a previous page
+  export                    Store a new crystal
+    --file <path|->         Crystal content from a file, or stdin with -
+    --transcript <path>     Detect the latest crystal in a conversation transcript
+    --title <title>         Crystal title
+    --spec <version>        Spec version (latest registered when omitted)
+    --tag <tag>             Tag (repeatable)
+    --parent <id>           Parent crystal in the lineage
+    --supersedes <id>       Crystal this one replaces
+    --validation <mode>     off, warn (default) or strict
+    --cwd <dir>             Working directory to record as provenance (default: the current one)
+    --git-head <hash>       Commit checked out there, recorded as provenance
+  spec <query>              Print the best-matching protocol specification
+  codex <query>             Print the best-matching codex file
+  search <query>            Full-text search over stored crystals
+    --spec <version>        Only crystals of this spec version
+    --after <date>          Only crystals created on or after this date
+    --before <date>         Only crystals created on or before this date
+    --tag <tag>             Only crystals carrying this tag (repeatable)
+    --limit <n>             Maximum number of hits (default 10)
+    (and the provenance filters below)
+
+Provenance filters (list, search):
+  --client <name[@version]> Only crystals exported by this MCP client (crystal-cli for this CLI)
+  --session <id>            Only crystals exported in this session
+  --cwd <dir>               Only crystals exported from this directory or below it
+  --git-head <hash>         Only crystals exported at this commit (or hash prefix)
+  --server-version <v>      Only crystals exported by this server version
+
+Global options:
+  --namespace <name>        Work in this namespace (default: "default")
+  --config <path>           Config file (default: crystal.config.json in the server directory)
+  --data-root <dir>         Directory that relative data paths resolve against
+  --protocols-dir <dir>     Protocol (.cp) files
+  --codex-dir <dir>         Codex (.cx) files
+  --crystals-dir <dir>      File store directory
+  --db-path <path>          SQLite store database
+  --store <kind>            file or sqlite
+  --json                    Print structured JSON instead of text
+  -h, --help                Show this help
+
+Flags override the same environment as the MCP server (CRYSTAL_NAMESPACE,
+CRYSTAL_DATA_ROOT, CRYSTAL_STORE, CRYSTAL_DB_PATH, CRYSTAL_ENCRYPTION_KEY_FILE,
+...), which overrides the config file.`;
+
+// Client name recorded on crystals exported from the command line
+const CLI_NAME = "crystal-cli";
+
+const SORT_FIELDS = ["created_at", "title", "tags"] as const;
+const VALIDATION_MODES: readonly ValidationMode[] = ["off", "warn", "strict"];
+
+type CliValues = ReturnType<typeof parseCliArgs>["values"];
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        ...CONFIG_ARG_OPTIONS,
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        tag: { type: "string", multiple: true },
+        sort: { type: "string" },
+        desc: { type: "boolean" },
+        collapse: { type: "boolean" },
+        trash: { type: "boolean" },
+        "all-namespaces": { type: "boolean" },
+        spec: { type: "string" },
+        latest: { type: "boolean" },
+        layer: { type: "string", multiple: true },
+        "max-tokens": { type: "string" },
+        summary: { type: "boolean" },
+        cursor: { type: "string" },
+        file: { type: "string" },
+        transcript: { type: "string" },
+        title: { type: "string" },
+        parent: { type: "string" },
+        supersedes: { type: "string" },
+        validation: { type: "string" },
+        after: { type: "string" },
+        before: { type: "string" },
+        limit: { type: "string" },
+        client: { type: "string" },
+        session: { type: "string" },
+        cwd: { type: "string" },
+        "git-head": { type: "string" },
+        "server-version": { type: "string" }
+      }
+    });
+  } catch (error) {
+    // parseArgs reports unknown options and missing values as TypeErrors
+    throw new ToolError("INVALID_ARGUMENT", error instanceof Error ? error.message : String(error));
+  }
+}
+
+function requireArgument(value: string | undefined, description: string): string {
+  if (!value) {
+    throw new ToolError("INVALID_ARGUMENT", `Missing ${description}`);
+  }
+  return value;
+}
+
+function oneOf<T extends string>(value: string | undefined, allowed: readonly T[], option: string): T | undefined {
+  if (value !== undefined && !allowed.includes(value as T)) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid ${option}: ${value} (expected ${allowed.join(', ')})`);
+  }
+  return value as T | undefined;
+}
+
+function provenanceFilters(values: CliValues): ProvenanceFilters {
+  return {
+    client: values.client,
+    session_id: values.session,
+    cwd: values.cwd === undefined ? undefined : resolve(values.cwd),
+    git_head: values["git-head"],
+    server_version: values["server-version"]
+  };
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function listCommand(core: CrystalService, values: CliValues): Promise<CallToolResult> {
+  const trashed = values.trash === true;
+  const everyNamespace = values["all-namespaces"] === true;
+  const { crystals, errors } = await core.listCrystals({
+    collapse_superseded: values.collapse,
+    tags: values.tag,
+    sort_by: oneOf(values.sort, SORT_FIELDS, "--sort"),
+    order: values.desc ? "desc" : "asc",
+    trashed,
+    namespace: everyNamespace ? "*" : core.namespace,
+    ...provenanceFilters(values)
+  });
+  const namespaces = everyNamespace ? await core.listNamespaces() : [core.namespace];
+
+  const lines = crystals.map(crystal => `${everyNamespace ? `${crystal.namespace}/` : ''}${crystal.id}  ${crystal.created_at}  spec ${crystal.spec_version}  v${crystal.version ?? 1}  ~${crystal.tokens ?? '?'} tokens  ${crystal.title}${crystal.tags.length > 0 ? `  [${crystal.tags.join(', ')}]` : ''}${crystal.locked ? '  🔒 locked' : ''}`);
+  const errorLines = errors.map(error => `${everyNamespace ? `${error.namespace}/` : ''}${error.name}  ⚠️ ${error.message}`);
+  return toolResult(
+    `${trashed ? 'Crystals in Trash' : 'Available Crystals'} in ${namespaces.join(', ')} (${crystals.length})${lines.length > 0 ? `\n\n${lines.join('\n')}` : ''}${errorLines.length > 0 ? `\n\nUnreadable (${errors.length}):\n${errorLines.join('\n')}` : ''}`,
+    { trashed, namespaces, crystals, errors }
+  );
+}
+
+async function showCommand(core: CrystalService, crystalId: string, values: CliValues): Promise<CallToolResult> {
+  const maxTokens = values["max-tokens"] === undefined ? undefined : Number(values["max-tokens"]);
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid --max-tokens: ${values["max-tokens"]} (expected a positive integer)`);
+  }
+  const imported = await core.importCrystal({
+    crystal_id: crystalId,
+    spec_version: values.spec,
+    latest: values.latest,
+    layers: values.layer,
+    max_tokens: maxTokens,
+    strategy: values.summary ? "summary" : "truncate",
+    cursor: values.cursor
+  });
+  const { crystal, integrity, migration, page } = imported;
+  const lineage = lineageOf(crystal);
+
+  const header = [
+    `Crystal ID: ${crystal.id}`,
+    `Namespace: ${imported.namespace}`,
+    ...(imported.resolvedFrom ? [`Resolved latest in lineage: ${imported.resolvedFrom} → ${crystal.id}`] : []),
+    `Title: ${crystal.title || 'Untitled'}`,
+    `Spec: ${crystal.spec_version || 'Unknown'}${migration ? ` (shown as ${imported.spec_version})` : ''}`,
+    `Created: ${crystal.created_at || 'Unknown'}`,
+    `Lineage: v${lineage.version} of ${lineage.root_id}`,
+    ...(crystal.provenance ? [`Provenance: ${formatProvenance(crystal.provenance)}`] : []),
+    `Tags: ${(crystal.tags ?? []).join(', ') || 'none'}`,
+    `Integrity: ${formatIntegrityReport(integrity)}`,
+    ...(imported.layers ? [`Layers: ${imported.layers.join(', ')}${imported.missingLayers.length > 0 ? ` (not in this crystal: ${imported.missingLayers.join(', ')})` : ''}`] : []),
+    ...(page ? [`${page.strategy === "summary" ? 'Outline of' : `Page: ~${page.tokens} of`} ~${page.totalTokens} tokens${page.nextCursor ? `, continue with --cursor ${page.nextCursor}` : ''}`] : [])
+  ];
+  const migrationNote = migration && migration.report.path.length > 0 ? `\n\n${formatMigrationReport(migration.report)}` : '';
+
+  return toolResult(`${header.join('\n')}${migrationNote}\n\n${imported.content}`, {
+    crystal: crystalSummary(crystal),
+    namespace: imported.namespace,
+    requested_id: crystalId,
+    spec_version: imported.spec_version,
+    integrity: integrityData(integrity),
+    migration: migration ? migration.report : null,
+    layers: imported.layers,
+    missing_layers: imported.missingLayers,
+    page: page ? { strategy: page.strategy, offset: page.offset, tokens: page.tokens, total_tokens: page.totalTokens, next_cursor: page.nextCursor } : null,
+    content: imported.content
+  });
+}
+
+async function exportCommand(core: CrystalService, values: CliValues): Promise<CallToolResult> {
+  if (values.file === undefined && values.transcript === undefined) {
+    throw new ToolError("INVALID_ARGUMENT", "export needs --file <path|-> or --transcript <path>");
+  }
+  if (values.file !== undefined && values.transcript !== undefined) {
+    throw new ToolError("INVALID_ARGUMENT", "--file and --transcript cannot be combined");
+  }
+
+  // Paths are the user's own, relative to the working directory
+  const manualContent = values.file === undefined ? undefined
+    : values.file === '-' ? await readStdin() : await readFile(resolve(values.file), 'utf-8');
+  const transcript = values.transcript === undefined ? undefined
+    : values.transcript === '-' ? await readStdin() : await readFile(resolve(values.transcript), 'utf-8');
+  if (manualContent !== undefined && !manualContent.trim()) {
+    throw new ToolError("INVALID_ARGUMENT", "Crystal content is empty");
+  }
+
+  const exported = await core.exportCrystal({
+    title: values.title,
+    spec_version: values.spec,
+    manual_content: manualContent,
+    transcript,
+    validation: oneOf(values.validation, VALIDATION_MODES, "--validation") ?? "warn",
+    parent_id: values.parent,
+    supersedes: values.supersedes,
+    tags: values.tag,
+    provenance: { client: { name: CLI_NAME, version: SERVER_VERSION }, cwd: resolve(values.cwd ?? '.'), git_head: values["git-head"] }
+  });
+
+  if (!exported.crystal) {
+    return toolFailure("INVALID_FORMAT", "Crystal export refused: content is malformed", {
+      text: `Crystal export refused: content is malformed.\n\n${exported.validationNote}`,
+      details: { validation: validationData(exported.validation!) }
+    });
+  }
+
+  const crystal = exported.crystal;
+  const lineage = lineageOf(crystal);
+  return toolResult(
+    `✅ Crystal exported: ${crystal.id}\nTitle: ${crystal.title}\nSpec: ${crystal.spec_version}\nNamespace: ${exported.namespace}\nStore: ${exported.store.kind} (${exported.store.location})\nLineage: v${lineage.version} of ${lineage.root_id}${crystal.provenance ? `\nProvenance: ${formatProvenance(crystal.provenance)}` : ''}${exported.source.location ? `\nDetected: ${exported.source.location}` : ''}${exported.validationNote ? `\n\n⚠️ Validation report:\n${exported.validationNote}` : ''}`,
+    {
+      crystal: crystalSummary(crystal),
+      namespace: exported.namespace,
+      store: exported.store,
+      auto_detected: crystal.auto_detected,
+      source: exported.source,
+      protection: core.protectionOf(crystal),
+      validation: exported.validation ? validationData(exported.validation) : null
+    }
+  );
+}
+
+async function specCommand(core: CrystalService, kind: "protocol" | "codex", query: string): Promise<CallToolResult> {
+  const lookup = await core.resolveSpec(kind, query);
+  const directory = `${core.describePath(kind === "protocol" ? core.config.paths.protocols : core.config.paths.codex)}/`;
+  if (lookup.files.length === 0) {
+    return toolFailure("NOT_FOUND", `No ${kind} files found in ${directory}`);
+  }
+  if (!lookup.match || lookup.content === null) {
+    return toolFailure("NO_MATCH", `No matching ${kind} found for query: "${query}"`, {
+      text: `No matching ${kind} found for query: "${query}"\n\nClosest candidates:\n${formatCandidates(lookup.candidates)}\n\nSuggestions:\n${lookup.suggestions.map(s => `- ${s}`).join('\n')}`,
+      details: { query, available: lookup.files, candidates: lookup.candidates, suggestions: lookup.suggestions }
+    });
+  }
+  return toolResult(lookup.content, { file: lookup.match, query, score: lookup.score, candidates: lookup.candidates, content: lookup.content });
+}
+
+async function searchCommand(core: CrystalService, query: string, values: CliValues): Promise<CallToolResult> {
+  const limit = values.limit === undefined ? 10 : Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid --limit: ${values.limit} (expected 1-100)`);
+  }
+
+  const { hits, indexed } = await core.searchCrystals({
+    query,
+    spec_version: values.spec,
+    created_after: values.after,
+    created_before: values.before,
+    tags: values.tag,
+    ...provenanceFilters(values),
+    limit
+  });
+  const lines = hits.map((hit, i) => `${i + 1}. ${hit.title} (${hit.id}) score ${hit.score.toFixed(2)}\n   ${hit.snippet}`);
+  return toolResult(
+    hits.length === 0 ? `No crystals found for query: "${query}" (${indexed} crystals indexed)` : `${hits.length} of ${indexed} crystals:\n\n${lines.join('\n')}`,
+    { query, indexed, hits: hits.map(({ fieldScores, ...hit }) => ({ ...hit, field_scores: fieldScores })) }
+  );
+}
+
+async function runCommand(core: CrystalService, command: string | undefined, args: string[], values: CliValues): Promise<CallToolResult> {
+  switch (command) {
+    case "list":
+      return listCommand(core, values);
+    case "show":
+      return showCommand(core, requireArgument(args[0], "crystal id"), values);
+    case "export":
+      return exportCommand(core, values);
+    case "spec":
+      return specCommand(core, "protocol", requireArgument(args.join(' '), "spec query"));
+    case "codex":
+      return specCommand(core, "codex", requireArgument(args.join(' '), "codex query"));
+    case "search":
+      return searchCommand(core, requireArgument(args.join(' '), "search query"), values);
+    default:
+      throw new ToolError("INVALID_ARGUMENT", command ? `Unknown command: ${command}` : 'No command given');
+  }
+}
+
+export async function main(argv: string[]): Promise<number> {
+  let json = argv.includes("--json");
+  let command: string | undefined;
+  let result: CallToolResult;
+  try {
+    const { values, positionals } = parseCliArgs(argv);
+    json = values.json === true;
+    if (values.help) {
+      console.log(USAGE);
+      return 0;
+    }
+    [command] = positionals;
+    const core = new CrystalService(undefined, loadCrystalConfig(projectRoot, configOverridesFrom(values)));
+    result = await runCommand(core, command, positionals.slice(1), values);
+  } catch (error) {
+    result = errorResult(error, command ? `running ${command}` : "running crystal");
+  }
+
+  const text = result.content.map(part => part.type === "text" ? part.text : '').join('\n');
+  if (json) {
+    console.log(JSON.stringify(result.structuredContent, null, 2));
+  } else if (result.isError) {
+    const structured = result.structuredContent as { error?: { code?: string } } | undefined;
+    console.error(structured?.error?.code === "INVALID_ARGUMENT" ? `${text}\nRun 'crystal --help' for usage.` : text);
+  } else {
+    console.log(text);
+  }
+  return result.isError ? 1 : 0;
+}
+
+const isMainModule = import.meta.url === pathToFileURL(process.argv[1]).href;
+if (isMainModule) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Crystal Config - where protocols, codex files and crystals live
+ *
+ * Every data root can be set with a command-line flag, an environment
+ * variable or a JSON config file, in that order of precedence. Crystals
+ * default to their usual place under the data root; protocols, codex files
+ * and migrations ship with the server and stay in this repository unless
+ * set. Relative paths in the config file resolve against the data root (the
+ * root itself against the file's directory), environment paths against the
+ * data root and flag paths against the working directory.
+ *
+ * Crystals are grouped into namespaces, e.g. one per repository. The
+ * "default" namespace is the crystal store itself; any other namespace is a
+ * store of its own, placed explicitly under `namespaces` in the config file
+ * or derived from its name next to the default store.
+ */
+
+import { readFileSync } from "fs";
+import { basename, dirname, extname, join, relative, resolve, sep } from "path";
+import { ToolError } from "./tool-results.js";
+
+export type StoreKind = "file" | "sqlite";
+
+export const DEFAULT_NAMESPACE = "default";
+export const CONFIG_FILENAME = "crystal.config.json";
+
+// Letters, digits, dots, dashes and underscores; never a path
+const NAMESPACE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export interface CrystalPaths {
+  // Paths supplied by tools (transcripts, bundles, backups) must stay inside this directory
+  root: string;
+  protocols: string;
+  codex: string;
+  migrations: string;
+  // Directory of the file store
+  crystals: string;
+  // Database of the SQLite store
+  database: string;
+  // Originals kept by migrate_crystals, one subdirectory per run
+  backups: string;
+}
+
+export interface CrystalConfig {
+  paths: CrystalPaths;
+  store: StoreKind;
+  // Namespace served by default; tools can still address the others
+  namespace: string;
+  // Namespaces with an explicit location: a directory (file store) or database file (SQLite store)
+  namespaces: Record<string, string>;
+  // Config file that was read, if any
+  source: string | null;
+}
+
+// Config file layout; every field is optional
+interface ConfigFile {
+  root?: string;
+  protocols?: string;
+  codex?: string;
+  migrations?: string;
+  crystals?: string;
+  database?: string;
+  backups?: string;
+  store?: string;
+  namespace?: string;
+  namespaces?: Record<string, string>;
+}
+
+export interface ConfigOverrides {
+  config?: string;
+  dataRoot?: string;
+  protocolsDir?: string;
+  codexDir?: string;
+  crystalsDir?: string;
+  dbPath?: string;
+  store?: string;
+  namespace?: string;
+}
+
+// parseArgs options shared by the MCP server and the CLI
+export const CONFIG_ARG_OPTIONS = {
+  config: { type: "string" },
+  "data-root": { type: "string" },
+  "protocols-dir": { type: "string" },
+  "codex-dir": { type: "string" },
+  "crystals-dir": { type: "string" },
+  "db-path": { type: "string" },
+  store: { type: "string" },
+  namespace: { type: "string" }
+} as const;
+
+export function configOverridesFrom(values: Record<string, unknown>): ConfigOverrides {
+  const flag = (name: keyof typeof CONFIG_ARG_OPTIONS) => typeof values[name] === "string" ? values[name] as string : undefined;
+  return {
+    config: flag("config"),
+    dataRoot: flag("data-root"),
+    protocolsDir: flag("protocols-dir"),
+    codexDir: flag("codex-dir"),
+    crystalsDir: flag("crystals-dir"),
+    dbPath: flag("db-path"),
+    store: flag("store"),
+    namespace: flag("namespace")
+  };
+}
+
+// Resolve inputPath against root and refuse anything that escapes it
+export function resolveWithin(root: string, inputPath: string): string {
+  const resolvedPath = resolve(root, inputPath);
+  if (resolvedPath !== root && !resolvedPath.startsWith(root + sep)) {
+    throw new ToolError("INVALID_ARGUMENT", `Path is outside the data root: ${inputPath}`);
+  }
+  return resolvedPath;
+}
+
+export function assertNamespaceName(name: string): string {
+  if (!NAMESPACE_PATTERN.test(name)) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid namespace: ${name} (use letters, digits, '.', '-' and '_', starting with a letter or digit)`);
+  }
+  return name;
+}
+
+function readConfigFile(path: string, required: boolean): ConfigFile | null {
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object");
+    }
+    return parsed as ConfigFile;
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw new Error(`Invalid crystal config ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Resolve the data roots from flags, environment (CRYSTAL_CONFIG,
+ * CRYSTAL_DATA_ROOT, CRYSTAL_PROTOCOLS_DIR, CRYSTAL_CODEX_DIR,
+ * CRYSTAL_CRYSTALS_DIR, CRYSTAL_DB_PATH, CRYSTAL_BACKUPS_DIR, CRYSTAL_STORE,
+ * CRYSTAL_NAMESPACE) and the config file, which defaults to
+ * crystal.config.json in projectRoot.
+ */
+export function loadCrystalConfig(projectRoot: string, overrides: ConfigOverrides = {}, env: NodeJS.ProcessEnv = process.env): CrystalConfig {
+  const explicitFile = overrides.config ? resolve(overrides.config) : env.CRYSTAL_CONFIG ? resolve(projectRoot, env.CRYSTAL_CONFIG) : null;
+  const source = explicitFile ?? join(projectRoot, CONFIG_FILENAME);
+  const file = readConfigFile(source, explicitFile !== null);
+  const fileDir = dirname(source);
+
+  const root = overrides.dataRoot ? resolve(overrides.dataRoot)
+    : env.CRYSTAL_DATA_ROOT ? resolve(env.CRYSTAL_DATA_ROOT)
+    : file?.root ? resolve(fileDir, file.root)
+    : projectRoot;
+  // Flags resolve against the working directory, environment and config file values against the data root
+  const pick = (flag: string | undefined, configured: string | undefined, fallback: string) =>
+    flag ? resolve(flag) : configured ? resolve(root, configured) : fallback;
+
+  const store = overrides.store || env.CRYSTAL_STORE || file?.store || "file";
+  if (store !== "file" && store !== "sqlite") {
+    throw new Error(`Unknown CRYSTAL_STORE: ${store} (expected "file" or "sqlite")`);
+  }
+
+  const namespaces: Record<string, string> = {};
+  for (const [name, location] of Object.entries(file?.namespaces ?? {})) {
+    if (typeof location !== 'string') {
+      throw new Error(`Invalid crystal config ${source}: namespace ${name} needs a path`);
+    }
+    namespaces[assertNamespaceName(name)] = resolve(root, location);
+  }
+
+  return {
+    paths: {
+      root,
+      protocols: pick(overrides.protocolsDir, env.CRYSTAL_PROTOCOLS_DIR || file?.protocols, join(projectRoot, "public/protocols")),
+      codex: pick(overrides.codexDir, env.CRYSTAL_CODEX_DIR || file?.codex, join(projectRoot, "public/codex")),
+      migrations: pick(undefined, file?.migrations, join(projectRoot, "public/migrations")),
+      crystals: pick(overrides.crystalsDir, env.CRYSTAL_CRYSTALS_DIR || file?.crystals, join(root, "public/crystals")),
+      database: pick(overrides.dbPath, env.CRYSTAL_DB_PATH || file?.database, join(root, "data/crystals.sqlite")),
+      backups: pick(undefined, env.CRYSTAL_BACKUPS_DIR || file?.backups, join(root, "data/migration-backups"))
+    },
+    store,
+    namespace: assertNamespaceName(overrides.namespace || env.CRYSTAL_NAMESPACE || file?.namespace || DEFAULT_NAMESPACE),
+    namespaces,
+    source: file ? source : null
+  };
+}
+
+/**
+ * Where a namespace's store lives: its configured location, or next to the
+ * default store - a subdirectory of the crystals directory for the file
+ * store, "<database>.<namespace>.sqlite" for SQLite.
+ */
+export function namespaceLocation(config: CrystalConfig, name: string): string {
+  if (name === DEFAULT_NAMESPACE) {
+    return config.store === "file" ? config.paths.crystals : config.paths.database;
+  }
+  assertNamespaceName(name);
+  if (config.namespaces[name]) {
+    return config.namespaces[name];
+  }
+  if (config.store === "file") {
+    return resolveWithin(config.paths.crystals, name);
+  }
+  const database = config.paths.database;
+  return resolveWithin(dirname(database), `${basename(database, extname(database))}.${name}${extname(database) || '.sqlite'}`);
+}
+
+// Namespace named by a derived store location, or null when the entry is something else
+export function namespaceFromLocation(config: CrystalConfig, entry: string, isDirectory: boolean): string | null {
+  let name: string | null = null;
+  if (config.store === "file") {
+    name = isDirectory ? entry : null;
+  } else {
+    const database = config.paths.database;
+    const prefix = `${basename(database, extname(database))}.`;
+    const suffix = extname(database) || '.sqlite';
+    if (!isDirectory && entry.startsWith(prefix) && entry.endsWith(suffix)) {
+      name = entry.slice(prefix.length, entry.length - suffix.length);
+    }
+  }
+  return name && name !== DEFAULT_NAMESPACE && NAMESPACE_PATTERN.test(name) ? name : null;
+}
+
+// A path for messages: relative to the data root when inside it
+export function displayPath(config: CrystalConfig, path: string): string {
+  const fromRoot = relative(config.paths.root, path);
+  return fromRoot && !fromRoot.startsWith('..') && !fromRoot.startsWith(sep) ? fromRoot : path;
+}
@@ -0,0 +1,183 @@
+/**
+ * Crystal Diff - layer-by-layer comparison of two crystals
+ *
+ * Both crystals are parsed into the ⟨CRYSTAL_STRUCTURE⟩ model and compared
+ * entry by entry within each layer. Keyed entries (P₁, T₂, file, ...) are
+ * matched by key, so an edited problem shows up as changed rather than as one
+ * removed and one added; unkeyed entries are matched by their text.
+ */
+
+import { parseCrystal, layerSymbol, fromSubscript, LayerDefinition, CrystalEntry } from "./crystal-parser.js";
+import type { CrystalData } from "./crystal-types.js";
+
+export interface EntryChange {
+  key: string;
+  before: string;
+  after: string;
+}
+
+export interface LayerDiff {
+  index: number;
+  symbol: string;
+  name: string;
+  // Present in neither, only one, or both crystals
+  status: "absent" | "added" | "removed" | "changed" | "unchanged";
+  added: CrystalEntry[];
+  removed: CrystalEntry[];
+  changed: EntryChange[];
+  unchanged: number;
+}
+
+export interface CrystalDiff {
+  from: { id: string; title: string; spec_version: string; created_at: string };
+  to: { id: string; title: string; spec_version: string; created_at: string };
+  header: { before: string | null; after: string | null } | null;
+  omega: { before: string | null; after: string | null } | null;
+  delta: { before: string | null; after: string | null } | null;
+  layers: LayerDiff[];
+  totals: { added: number; removed: number; changed: number };
+}
+
+// How each layer's entries read in a summary; removed problems are resolved ones
+const LAYER_VOCABULARY: Record<string, { noun: string; added: string; removed: string; changed: string }> = {
+  PROBLEM_MANIFOLD: { noun: "problem", added: "new", removed: "resolved", changed: "restated" },
+  RESOLUTION_TRAJECTORY: { noun: "trajectory step", added: "new", removed: "dropped", changed: "revised" },
+  MODIFIED_ARTIFACTS: { noun: "modified artifact", added: "new", removed: "no longer listed", changed: "changed" },
+  BEHAVIORAL_TESTS: { noun: "invariant", added: "new", removed: "removed", changed: "changed" },
+  ENHANCEMENT_VECTORS: { noun: "enhancement vector", added: "new", removed: "dropped", changed: "revised" },
+  RECONSTRUCTION_PROTOCOL: { noun: "reconstruction step", added: "new", removed: "removed", changed: "revised" }
+};
+const DEFAULT_VOCABULARY = { noun: "entry", added: "new", removed: "removed", changed: "changed" };
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// "P₁" and "P1" name the same entry
+function normalizeKey(key: string): string {
+  return fromSubscript(key).trim().toLowerCase();
+}
+
+function diffEntries(before: CrystalEntry[], after: CrystalEntry[]): Pick<LayerDiff, "added" | "removed" | "changed" | "unchanged"> {
+  const result = { added: [] as CrystalEntry[], removed: [] as CrystalEntry[], changed: [] as EntryChange[], unchanged: 0 };
+
+  const beforeKeyed = new Map(before.filter(e => e.key).map(e => [normalizeKey(e.key!), e]));
+  const afterKeyed = new Map(after.filter(e => e.key).map(e => [normalizeKey(e.key!), e]));
+  for (const [key, entry] of afterKeyed) {
+    const previous = beforeKeyed.get(key);
+    if (!previous) {
+      result.added.push(entry);
+    } else if (normalizeText(previous.text) !== normalizeText(entry.text)) {
+      result.changed.push({ key: entry.key!, before: previous.text, after: entry.text });
+    } else {
+      result.unchanged++;
+    }
+  }
+  for (const [key, entry] of beforeKeyed) {
+    if (!afterKeyed.has(key)) {
+      result.removed.push(entry);
+    }
+  }
+
+  // Unkeyed entries compare as a multiset of their text
+  const remaining = new Map<string, number>();
+  for (const entry of before.filter(e => !e.key)) {
+    const text = normalizeText(entry.text);
+    remaining.set(text, (remaining.get(text) ?? 0) + 1);
+  }
+  for (const entry of after.filter(e => !e.key)) {
+    const text = normalizeText(entry.text);
+    const count = remaining.get(text) ?? 0;
+    if (count > 0) {
+      remaining.set(text, count - 1);
+      result.unchanged++;
+    } else {
+      result.added.push(entry);
+    }
+  }
+  for (const entry of before.filter(e => !e.key)) {
+    const text = normalizeText(entry.text);
+    const count = remaining.get(text) ?? 0;
+    if (count > 0) {
+      remaining.set(text, count - 1);
+      result.removed.push(entry);
+    }
+  }
+  return result;
+}
+
+function valueChange(before: string | null, after: string | null): { before: string | null; after: string | null } | null {
+  return normalizeText(before ?? '') === normalizeText(after ?? '') ? null : { before, after };
+}
+
+function summaryOf(crystal: CrystalData): CrystalDiff["from"] {
+  return { id: crystal.id, title: crystal.title, spec_version: crystal.spec_version, created_at: crystal.created_at };
+}
+
+/**
+ * Compare `from` (the older crystal) with `to`, each parsed with the layer
+ * model of its own spec version. Layers are aligned by name.
+ */
+export function diffCrystals(from: CrystalData, to: CrystalData, fromModel: LayerDefinition[], toModel: LayerDefinition[]): CrystalDiff {
+  const before = parseCrystal(from.content, fromModel);
+  const after = parseCrystal(to.content, toModel);
+
+  const names = [...toModel.map(layer => layer.name), ...fromModel.map(layer => layer.name).filter(name => !toModel.some(layer => layer.name === name))];
+  const layers: LayerDiff[] = names.map(name => {
+    const previous = before.layers.find(layer => layer.name === name);
+    const next = after.layers.find(layer => layer.name === name);
+    const index = (next ?? previous)!.index;
+    const entries = diffEntries(previous?.present ? previous.entries : [], next?.present ? next.entries : []);
+    const status: LayerDiff["status"] = !previous?.present && !next?.present ? "absent"
+      : !previous?.present ? "added"
+      : !next?.present ? "removed"
+      : entries.added.length + entries.removed.length + entries.changed.length > 0 ? "changed" : "unchanged";
+    return { index, symbol: layerSymbol(index), name, status, ...entries };
+  });
+
+  return {
+    from: summaryOf(from),
+    to: summaryOf(to),
+    header: valueChange(before.header, after.header),
+    omega: valueChange(before.coreTransform.omega, after.coreTransform.omega),
+    delta: valueChange(before.coreTransform.delta, after.coreTransform.delta),
+    layers,
+    totals: {
+      added: layers.reduce((sum, layer) => sum + layer.added.length, 0),
+      removed: layers.reduce((sum, layer) => sum + layer.removed.length, 0),
+      changed: layers.reduce((sum, layer) => sum + layer.changed.length, 0)
+    }
+  };
+}
+
+function entryLabel(entry: CrystalEntry): string {
+  return entry.key ? `${entry.key}: ${entry.text}` : entry.text;
+}
+
+export function formatCrystalDiff(diff: CrystalDiff): string {
+  const lines = [
+    `From: ${diff.from.id} (${diff.from.title}, spec ${diff.from.spec_version}, ${diff.from.created_at})`,
+    `To:   ${diff.to.id} (${diff.to.title}, spec ${diff.to.spec_version}, ${diff.to.created_at})`,
+    `Totals: +${diff.totals.added} -${diff.totals.removed} ~${diff.totals.changed}`
+  ];
+
+  const transforms: [string, CrystalDiff["header"]][] = [["Header", diff.header], ["Ω", diff.omega], ["∂", diff.delta]];
+  for (const [label, change] of transforms) {
+    if (change) {
+      lines.push(`${label}: ${change.before ?? '(none)'} → ${change.after ?? '(none)'}`);
+    }
+  }
+
+  for (const layer of diff.layers) {
+    if (layer.status === "unchanged" || layer.status === "absent") {
+      lines.push(`\n${layer.symbol} ⟨${layer.name}⟩: ${layer.status}`);
+      continue;
+    }
+    const vocabulary = LAYER_VOCABULARY[layer.name] ?? DEFAULT_VOCABULARY;
+    lines.push(`\n${layer.symbol} ⟨${layer.name}⟩: ${layer.status === "changed" ? `${layer.unchanged} unchanged` : `layer ${layer.status}`}`);
+    lines.push(...layer.added.map(entry => `  + ${vocabulary.added} ${vocabulary.noun}: ${entryLabel(entry)}`));
+    lines.push(...layer.removed.map(entry => `  - ${vocabulary.removed} ${vocabulary.noun}: ${entryLabel(entry)}`));
+    lines.push(...layer.changed.map(change => `  ~ ${vocabulary.changed} ${vocabulary.noun} ${change.key}: ${change.before} → ${change.after}`));
+  }
+  return lines.join('\n');
+}
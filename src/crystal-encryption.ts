@@ -0,0 +1,241 @@
+/**
+ * Crystal Encryption - authenticated encryption of crystal content at rest
+ *
+ * An EncryptedCrystalStore wraps any CrystalStore. With an active key every
+ * crystal it writes has its content replaced by AES-256-GCM ciphertext and an
+ * `encryption` record. The integrity record goes into the ciphertext with the
+ * content, since a plaintext hash would let anyone confirm a guess at the
+ * content. Title, tags, lineage and the other metadata stay readable so
+ * crystals can be listed without the key, but they are bound to the
+ * ciphertext as associated data: editing any of them, or the `encryption`
+ * record, fails decryption. Crystals encrypted before that (no `aad` marker)
+ * only bind their id until they are rewritten. Reads decrypt transparently
+ * with the active key or any previous key.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { readFileSync } from "fs";
+import type { CrystalData, CrystalEncryption } from "./crystal-types.js";
+import type { CrystalStore, StoredCrystal } from "./crystal-store.js";
+
+export interface EncryptionKey {
+  keyId: string;
+  key: Buffer;
+}
+
+export class CrystalLockedError extends Error {
+  constructor(public readonly crystalId: string, public readonly keyId: string) {
+    super(`Crystal ${crystalId} is encrypted with key ${keyId}, which is not configured (set CRYSTAL_ENCRYPTION_KEY or CRYSTAL_ENCRYPTION_KEY_FILE)`);
+    this.name = "CrystalLockedError";
+  }
+}
+
+export class CrystalDecryptionError extends Error {
+  constructor(public readonly crystalId: string) {
+    super(`Crystal ${crystalId} failed authenticated decryption: the ciphertext or its metadata was modified`);
+    this.name = "CrystalDecryptionError";
+  }
+}
+
+// JSON with sorted keys and without undefined values, so the same record always gives the same bytes
+function canonicalJson(value: unknown): string {
+  const sort = (item: unknown): unknown => Array.isArray(item) ? item.map(sort)
+    : item && typeof item === 'object' ? Object.fromEntries(Object.keys(item).sort().map(key => [key, sort((item as Record<string, unknown>)[key])]))
+    : item;
+  return JSON.stringify(sort(JSON.parse(JSON.stringify(value))));
+}
+
+// Everything stored next to the ciphertext except the ciphertext, nonce and tag
+function associatedData(crystal: Partial<CrystalData>, encryption: Omit<CrystalEncryption, "iv" | "tag">): Buffer {
+  const { content: _content, ...stored } = crystal;
+  return Buffer.from(canonicalJson({ ...stored, encryption }), 'utf-8');
+}
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+// Derived so the id names the key without revealing anything about it
+function keyIdOf(key: Buffer): string {
+  return createHash('sha256').update('crystal-encryption-key:').update(key).digest('hex').slice(0, 16);
+}
+
+// 32 random bytes as base64 or hex, e.g. `openssl rand -base64 32`
+export function parseEncryptionKey(text: string, source: string): EncryptionKey {
+  const trimmed = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption key from ${source} must be ${KEY_BYTES} bytes encoded as base64 or hex`);
+  }
+  return { keyId: keyIdOf(key), key };
+}
+
+export function loadEncryptionKey(path: string): EncryptionKey {
+  return parseEncryptionKey(readFileSync(path, 'utf-8'), path);
+}
+
+/**
+ * The keys a server can encrypt and decrypt with. Shared by every
+ * EncryptedCrystalStore (store, trash, backups) so a rotation applies to all.
+ */
+export class CrystalCipher {
+  private previous: EncryptionKey[];
+
+  constructor(private current: EncryptionKey | null, previous: EncryptionKey[] = []) {
+    this.previous = previous.filter(key => key.keyId !== current?.keyId);
+  }
+
+  get activeKeyId(): string | null {
+    return this.current?.keyId ?? null;
+  }
+
+  // Make `key` the active key; the old one stays available for decryption
+  rotate(key: EncryptionKey): void {
+    if (this.current && this.current.keyId !== key.keyId) {
+      this.previous = [this.current, ...this.previous.filter(k => k.keyId !== key.keyId)];
+    }
+    this.current = key;
+  }
+
+  canDecrypt(crystal: CrystalData): boolean {
+    return !crystal.encryption || this.findKey(crystal.encryption.key_id) !== undefined;
+  }
+
+  encrypt(crystal: CrystalData): CrystalData {
+    if (!this.current) {
+      return crystal;
+    }
+    const { integrity, content, ...metadata } = crystal;
+    const plaintext = integrity ? JSON.stringify({ content, integrity }) : content;
+    const record: Omit<CrystalEncryption, "iv" | "tag"> = {
+      algorithm: "aes-256-gcm",
+      key_id: this.current.keyId,
+      ...(integrity ? { payload: "content+integrity" as const } : {}),
+      aad: "metadata"
+    };
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.current.key, iv);
+    cipher.setAAD(associatedData(metadata, record));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return {
+      ...metadata,
+      content: ciphertext.toString('base64'),
+      encryption: { ...record, iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64') }
+    };
+  }
+
+  decrypt(crystal: CrystalData): CrystalData {
+    const { encryption, ...plain } = crystal;
+    if (!encryption) {
+      return crystal;
+    }
+    const key = this.findKey(encryption.key_id);
+    if (!key) {
+      throw new CrystalLockedError(crystal.id, encryption.key_id);
+    }
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key.key, Buffer.from(encryption.iv, 'base64'));
+      const { iv: _iv, tag: _tag, ...record } = encryption;
+      decipher.setAAD(encryption.aad === "metadata" ? associatedData(plain, record) : Buffer.from(crystal.id, 'utf-8'));
+      decipher.setAuthTag(Buffer.from(encryption.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(crystal.content, 'base64')), decipher.final()]).toString('utf-8');
+      if (encryption.payload !== "content+integrity") {
+        return { ...plain, content: plaintext };
+      }
+      const { content, integrity } = JSON.parse(plaintext) as Pick<CrystalData, "content" | "integrity">;
+      return { ...plain, content, integrity };
+    } catch {
+      throw new CrystalDecryptionError(crystal.id);
+    }
+  }
+
+  private findKey(keyId: string): EncryptionKey | undefined {
+    return [this.current, ...this.previous].find(key => key?.keyId === keyId) ?? undefined;
+  }
+}
+
+export class EncryptedCrystalStore implements CrystalStore {
+  constructor(private readonly inner: CrystalStore, private readonly cipher: CrystalCipher) {}
+
+  get kind(): string {
+    return this.inner.kind;
+  }
+
+  get location(): string {
+    return this.inner.location;
+  }
+
+  // Crystals without a usable key keep their metadata and are marked locked
+  async list(): Promise<StoredCrystal[]> {
+    const crystals = await this.inner.list();
+    return crystals.map(crystal => this.decryptEntry(crystal));
+  }
+
+  async entry(id: string): Promise<StoredCrystal | null> {
+    const crystal = await this.inner.entry(id);
+    return crystal && this.decryptEntry(crystal);
+  }
+
+  async get(id: string): Promise<CrystalData> {
+    return this.cipher.decrypt(await this.inner.get(id));
+  }
+
+  has(id: string): Promise<boolean> {
+    return this.inner.has(id);
+  }
+
+  put(crystal: CrystalData): Promise<void> {
+    return this.inner.put(this.cipher.encrypt(crystal));
+  }
+
+  delete(id: string): Promise<void> {
+    return this.inner.delete(id);
+  }
+
+  trash(): EncryptedCrystalStore {
+    return new EncryptedCrystalStore(this.inner.trash(), this.cipher);
+  }
+
+  /**
+   * Rewrite every crystal that is not yet encrypted with the active key:
+   * crystals under a previous key, those encrypted in the older format (id-only
+   * associated data, integrity record outside the ciphertext) and, with
+   * `includePlaintext`, plaintext ones.
+   */
+  async reencrypt(includePlaintext: boolean): Promise<{ rewritten: string[]; current: number; plaintext: string[]; locked: string[] }> {
+    const result = { rewritten: [] as string[], current: 0, plaintext: [] as string[], locked: [] as string[] };
+    for (const stored of await this.inner.list()) {
+      const crystal = this.decryptEntry(stored);
+      if (!crystal.data) {
+        continue;
+      }
+      // Encrypted before metadata was bound and the integrity record moved inside the ciphertext
+      const legacy = Boolean(stored.data?.encryption && stored.data.encryption.aad !== "metadata");
+      if (crystal.encryption?.locked) {
+        result.locked.push(crystal.id);
+      } else if (crystal.encryption?.keyId === this.cipher.activeKeyId && !legacy) {
+        result.current++;
+      } else if (!crystal.encryption && !includePlaintext) {
+        result.plaintext.push(crystal.id);
+      } else {
+        await this.put(crystal.data);
+        result.rewritten.push(crystal.id);
+      }
+    }
+    return result;
+  }
+
+  private decryptEntry(crystal: StoredCrystal): StoredCrystal {
+    const encryption = crystal.data?.encryption;
+    if (!crystal.data || !encryption) {
+      return crystal;
+    }
+    if (!this.cipher.canDecrypt(crystal.data)) {
+      return { ...crystal, encryption: { keyId: encryption.key_id, locked: true } };
+    }
+    try {
+      return { ...crystal, data: this.cipher.decrypt(crystal.data), encryption: { keyId: encryption.key_id, locked: false } };
+    } catch (error) {
+      return { id: crystal.id, data: null, size: crystal.size, error: error instanceof Error ? error.message : 'Failed to decrypt crystal' };
+    }
+  }
+}
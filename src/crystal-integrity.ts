@@ -0,0 +1,161 @@
+/**
+ * Crystal Integrity - content hashes and Ed25519 signatures
+ *
+ * Every exported crystal records the SHA-256 of its content. When a signing
+ * key is configured the crystal is also signed; the signature covers the
+ * content hash, spec_version and created_at (not the id, which import_bundle
+ * may reassign). Verification checks the hash, the signature, and whether the
+ * signing key is the local key or one of the trusted keys.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, sign, verify, KeyObject } from "crypto";
+import { readFile } from "fs/promises";
+import type { CrystalData, CrystalIntegrity } from "./crystal-types.js";
+import { isNotFound } from "./crystal-store.js";
+
+export interface SigningKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  keyId: string;
+}
+
+export interface TrustedKey {
+  name: string;
+  keyId: string;
+  publicKey: KeyObject;
+}
+
+export interface IntegrityReport {
+  content: "verified" | "mismatch" | "missing";
+  signature: "trusted" | "untrusted" | "invalid" | "unsigned";
+  keyId?: string;
+  signer?: string;
+  // Content intact and any signature valid; trust is reported separately
+  ok: boolean;
+}
+
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+function publicKeyDer(publicKey: KeyObject): Buffer {
+  return publicKey.export({ format: 'der', type: 'spki' });
+}
+
+// Short fingerprint of the public key, used to name keys in reports and trust lists
+export function keyIdOf(publicKey: KeyObject): string {
+  return createHash('sha256').update(publicKeyDer(publicKey)).digest('hex').slice(0, 16);
+}
+
+export function encodePublicKey(publicKey: KeyObject): string {
+  return publicKeyDer(publicKey).toString('base64');
+}
+
+// Accept a PEM block or the base64 SPKI form crystals carry
+function decodePublicKey(value: string): KeyObject {
+  const trimmed = value.trim();
+  return trimmed.startsWith('-----BEGIN')
+    ? createPublicKey(trimmed)
+    : createPublicKey({ key: Buffer.from(trimmed, 'base64'), format: 'der', type: 'spki' });
+}
+
+function signedPayload(crystal: CrystalData, hash: string): Buffer {
+  return Buffer.from(JSON.stringify({ content_sha256: hash, spec_version: crystal.spec_version, created_at: crystal.created_at }), 'utf-8');
+}
+
+export async function loadSigningKey(path: string): Promise<SigningKey> {
+  const privateKey = createPrivateKey(await readFile(path, 'utf-8'));
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Signing key ${path} is ${privateKey.asymmetricKeyType}, expected ed25519`);
+  }
+  const publicKey = createPublicKey(privateKey);
+  return { privateKey, publicKey, keyId: keyIdOf(publicKey) };
+}
+
+// { "keys": [{ "name": "alice", "public_key": "<PEM or base64 SPKI>" }] }; a missing file trusts no one
+export async function loadTrustedKeys(path: string): Promise<TrustedKey[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (error) {
+    if (isNotFound(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as { keys?: { name?: string; public_key?: string }[] };
+  return (parsed.keys ?? []).map((entry, i) => {
+    if (!entry.public_key) {
+      throw new Error(`Trusted key #${i + 1} in ${path} has no public_key`);
+    }
+    const publicKey = decodePublicKey(entry.public_key);
+    const keyId = keyIdOf(publicKey);
+    return { name: entry.name || keyId, keyId, publicKey };
+  });
+}
+
+// Record the content hash and, with a key, a signature; called whenever content changes
+export function sealCrystal(crystal: CrystalData, signingKey: SigningKey | null): CrystalData {
+  const hash = contentHash(crystal.content);
+  const integrity: CrystalIntegrity = { algorithm: "sha256", content_hash: hash };
+  if (signingKey) {
+    integrity.signature = {
+      algorithm: "ed25519",
+      key_id: signingKey.keyId,
+      public_key: encodePublicKey(signingKey.publicKey),
+      value: sign(null, signedPayload(crystal, hash), signingKey.privateKey).toString('base64')
+    };
+  }
+  return { ...crystal, integrity };
+}
+
+export function verifyCrystal(crystal: CrystalData, trustedKeys: TrustedKey[]): IntegrityReport {
+  const integrity = crystal.integrity;
+  if (!integrity) {
+    return { content: "missing", signature: "unsigned", ok: true };
+  }
+
+  const hash = contentHash(crystal.content);
+  const content = hash === integrity.content_hash ? "verified" : "mismatch";
+  const signature = integrity.signature;
+  if (!signature) {
+    return { content, signature: "unsigned", ok: content === "verified" };
+  }
+
+  let valid = false;
+  try {
+    const publicKey = decodePublicKey(signature.public_key);
+    valid = keyIdOf(publicKey) === signature.key_id
+      && verify(null, signedPayload(crystal, integrity.content_hash), publicKey, Buffer.from(signature.value, 'base64'));
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    return { content, signature: "invalid", keyId: signature.key_id, ok: false };
+  }
+
+  const trusted = trustedKeys.find(key => key.keyId === signature.key_id);
+  return {
+    content,
+    signature: trusted ? "trusted" : "untrusted",
+    keyId: signature.key_id,
+    signer: trusted?.name,
+    ok: content === "verified"
+  };
+}
+
+export function formatIntegrityReport(report: IntegrityReport): string {
+  const content = {
+    verified: "✓ content hash verified",
+    mismatch: "✗ content hash mismatch - the content was modified or truncated",
+    missing: "○ no content hash recorded"
+  }[report.content];
+  const signature = {
+    trusted: `✓ signed by trusted key ${report.signer} (${report.keyId})`,
+    untrusted: `⚠ valid signature from untrusted key ${report.keyId}`,
+    invalid: `✗ invalid signature${report.keyId ? ` claiming key ${report.keyId}` : ''}`,
+    unsigned: "○ unsigned"
+  }[report.signature];
+  return `${content}; ${signature}`;
+}
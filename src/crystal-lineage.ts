@@ -0,0 +1,104 @@
+/**
+ * Crystal Lineage - parent links and version history between crystals
+ *
+ * Every crystal belongs to a lineage identified by its root crystal's id.
+ * Exporting with `parent_id` continues that lineage with the next version;
+ * `supersedes` does the same and additionally marks the referenced crystal
+ * as replaced, so listings can collapse it.
+ */
+
+import type { CrystalMetadata } from "./crystal-types.js";
+
+export interface LineageInfo {
+  root_id: string;
+  parent_id?: string;
+  supersedes?: string;
+  version: number;
+}
+
+export interface LineageEntry extends LineageInfo {
+  id: string;
+  title: string;
+  created_at: string;
+  superseded: boolean;
+}
+
+export function lineageOf(crystal: CrystalMetadata): LineageInfo {
+  return {
+    root_id: crystal.root_id || crystal.id,
+    parent_id: crystal.parent_id,
+    supersedes: crystal.supersedes,
+    version: crystal.version || 1
+  };
+}
+
+// Lineage fields for a new crystal exported on top of `parent`
+export function childLineage(parent: CrystalMetadata, supersede: boolean): LineageInfo {
+  const parentLineage = lineageOf(parent);
+  return {
+    root_id: parentLineage.root_id,
+    parent_id: parent.id,
+    supersedes: supersede ? parent.id : undefined,
+    version: parentLineage.version + 1
+  };
+}
+
+export function supersededIds(crystals: CrystalMetadata[]): Set<string> {
+  return new Set(crystals.map(c => c.supersedes).filter((id): id is string => Boolean(id)));
+}
+
+function compareVersions(a: CrystalMetadata, b: CrystalMetadata): number {
+  const byVersion = lineageOf(a).version - lineageOf(b).version;
+  return byVersion !== 0 ? byVersion : a.created_at.localeCompare(b.created_at);
+}
+
+// All crystals in the lineage containing `crystalId`, oldest first
+export function lineageHistory(crystals: CrystalMetadata[], crystalId: string): LineageEntry[] {
+  const crystal = crystals.find(c => c.id === crystalId);
+  if (!crystal) {
+    return [];
+  }
+
+  const rootId = lineageOf(crystal).root_id;
+  const superseded = supersededIds(crystals);
+  return crystals
+    .filter(c => lineageOf(c).root_id === rootId)
+    .sort(compareVersions)
+    .map(c => ({
+      id: c.id,
+      title: c.title,
+      created_at: c.created_at,
+      superseded: superseded.has(c.id),
+      ...lineageOf(c)
+    }));
+}
+
+// Ancestors of `crystalId` from the root down to the crystal itself
+export function ancestorChain<T extends CrystalMetadata>(crystals: T[], crystalId: string): T[] {
+  const byId = new Map(crystals.map(c => [c.id, c]));
+  const chain: T[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(crystalId);
+
+  while (current && !seen.has(current.id)) {
+    chain.unshift(current);
+    seen.add(current.id);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return chain;
+}
+
+// Newest crystal in the lineage of `crystalId` that has not been superseded
+export function latestInLineage<T extends CrystalMetadata>(crystals: T[], crystalId: string): T | null {
+  const crystal = crystals.find(c => c.id === crystalId);
+  if (!crystal) {
+    return null;
+  }
+
+  const rootId = lineageOf(crystal).root_id;
+  const superseded = supersededIds(crystals);
+  const members = crystals.filter(c => lineageOf(c).root_id === rootId).sort(compareVersions);
+  const current = members.filter(c => !superseded.has(c.id));
+  const candidates = current.length > 0 ? current : members;
+  return candidates[candidates.length - 1] ?? null;
+}
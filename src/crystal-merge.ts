@@ -0,0 +1,214 @@
+/**
+ * Crystal Merge - ⊕ of several crystals into one composite crystal
+ *
+ * Sources are merged oldest first, each parsed with the target layer model:
+ * - L₁ ⟨PROBLEM_MANIFOLD⟩: union of problems, renumbered P₁…Pₙ (identical problems merge)
+ * - L₂ ⟨RESOLUTION_TRAJECTORY⟩: steps concatenated in time order, renumbered T₁…Tₘ,
+ *   with their problem references rewritten to the new numbering
+ * - L₃ ⟨MODIFIED_ARTIFACTS⟩: deduplicated; a later entry for the same key wins
+ * - L₆ ⟨BEHAVIORAL_TESTS⟩: union; the same invariant key with different text is a conflict
+ * - every other layer: union without duplicates
+ */
+
+import { parseCrystal, renderCrystal, toSubscript, fromSubscript, layerSymbol, LayerDefinition, CrystalEntry, ParsedCrystal } from "./crystal-parser.js";
+import type { CrystalData } from "./crystal-types.js";
+
+export interface MergeSource {
+  crystal: CrystalData;
+  // Content in the target spec (migrated when the crystal's own spec differs)
+  content: string;
+}
+
+export interface InvariantConflict {
+  key: string;
+  variants: { crystalId: string; text: string }[];
+}
+
+export interface MergeReport {
+  sources: string[];
+  problems: number;
+  steps: number;
+  artifacts: number;
+  duplicates: number;
+  conflicts: InvariantConflict[];
+  warnings: string[];
+}
+
+type MergedLayer = { name: string; entries: CrystalEntry[] };
+
+const PROBLEM_KEY = /^P([₀-₉]+|\d+)$/u;
+const STEP_KEY = /^T([₀-₉]+|\d+)$/u;
+const PROBLEM_REFERENCE = /P([₀-₉]+|\d+)(?![₀-₉\d])/gu;
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function distinct(values: (string | null)[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value): value is string => {
+    if (!value || seen.has(normalizeText(value))) {
+      return false;
+    }
+    seen.add(normalizeText(value));
+    return true;
+  });
+}
+
+function entriesOf(source: ParsedCrystal, name: string): CrystalEntry[] {
+  const layer = source.layers.find(l => l.name === name);
+  return layer?.present ? layer.entries : [];
+}
+
+export function mergeCrystals(sources: MergeSource[], model: LayerDefinition[]): { content: string; report: MergeReport } {
+  const ordered = [...sources].sort((a, b) => a.crystal.created_at.localeCompare(b.crystal.created_at));
+  const parsed = ordered.map(source => ({ id: source.crystal.id, ...parseCrystal(source.content, model) }));
+  const report: MergeReport = { sources: ordered.map(source => source.crystal.id), problems: 0, steps: 0, artifacts: 0, duplicates: 0, conflicts: [], warnings: [] };
+
+  // L₁: one numbering for all problems; each source maps its own Pᵢ onto it
+  const problems: CrystalEntry[] = [];
+  const problemIndexByText = new Map<string, number>();
+  const problemMaps = parsed.map(source => {
+    const map = new Map<string, number>();
+    for (const entry of entriesOf(source, "PROBLEM_MANIFOLD")) {
+      const text = normalizeText(entry.text);
+      let index = problemIndexByText.get(text);
+      if (index === undefined) {
+        index = problemIndexByText.size + 1;
+        problemIndexByText.set(text, index);
+        problems.push({ key: entry.key ? (PROBLEM_KEY.test(entry.key) ? `P${toSubscript(index)}` : entry.key) : null, text: entry.text });
+      } else {
+        report.duplicates++;
+      }
+      const oldIndex = entry.key?.match(PROBLEM_KEY)?.[1];
+      if (oldIndex) {
+        map.set(fromSubscript(oldIndex), index);
+      }
+    }
+    return map;
+  });
+  report.problems = problems.length;
+
+  // L₂: concatenate in time order; Tᵢ without an explicit reference solved the source's Pᵢ
+  const steps: CrystalEntry[] = [];
+  const seenSteps = new Set<string>();
+  parsed.forEach((source, sourceIdx) => {
+    const problemMap = problemMaps[sourceIdx];
+    for (const entry of entriesOf(source, "RESOLUTION_TRAJECTORY")) {
+      const remap = (match: string, index: string) => {
+        const mapped = problemMap.get(fromSubscript(index));
+        return mapped !== undefined ? `P${toSubscript(mapped)}` : match;
+      };
+      let text = entry.text.replace(PROBLEM_REFERENCE, remap);
+      const stepIndex = entry.key?.match(STEP_KEY)?.[1];
+      if (stepIndex && entry.text.search(PROBLEM_REFERENCE) < 0 && problemMap.has(fromSubscript(stepIndex))) {
+        text = `${text} (P${toSubscript(problemMap.get(fromSubscript(stepIndex))!)})`;
+      }
+      if (seenSteps.has(normalizeText(text))) {
+        report.duplicates++;
+        continue;
+      }
+      seenSteps.add(normalizeText(text));
+      steps.push({ key: stepIndex ? `T${toSubscript(steps.length + 1)}` : entry.key, text });
+    }
+  });
+  report.steps = steps.length;
+
+  const layers: MergedLayer[] = [];
+  const names = [...model.map(layer => layer.name)];
+  for (const source of parsed) {
+    for (const layer of source.layers.filter(l => l.present && !names.includes(l.name))) {
+      names.push(layer.name);
+    }
+  }
+
+  for (const name of names) {
+    let entries: CrystalEntry[];
+    if (name === "PROBLEM_MANIFOLD") {
+      entries = problems;
+    } else if (name === "RESOLUTION_TRAJECTORY") {
+      entries = steps;
+    } else if (name === "MODIFIED_ARTIFACTS") {
+      entries = mergeKeyed(parsed, name, report, "replace");
+      report.artifacts = entries.length;
+    } else if (name === "BEHAVIORAL_TESTS") {
+      entries = mergeKeyed(parsed, name, report, "conflict");
+    } else {
+      entries = mergeKeyed(parsed, name, report, "keep");
+    }
+
+    if (entries.length > 0 || parsed.some(source => source.layers.find(l => l.name === name)?.present)) {
+      layers.push({ name, entries });
+    }
+  }
+
+  const headers = distinct(parsed.map(source => source.header));
+  const rendered = renderCrystal({
+    header: headers.length === 1 ? headers[0] : 'COMPOSITE_CRYSTAL',
+    omega: distinct(parsed.map(source => source.coreTransform.omega)).join(' ⊕ ') || null,
+    delta: distinct(parsed.map(source => source.coreTransform.delta)).join(' ⊕ ') || null,
+    layers
+  }, model);
+  for (const definition of rendered.missing) {
+    report.warnings.push(`${layerSymbol(definition.index)} ⟨${definition.name}⟩ is missing from every source crystal`);
+  }
+  return { content: rendered.content, report };
+}
+
+/**
+ * Union of a layer across sources. Identical entries are kept once; for a key
+ * seen again with different text, "replace" keeps the later text, "conflict"
+ * does the same but records an invariant conflict, and "keep" keeps both.
+ */
+function mergeKeyed(
+  parsed: (ParsedCrystal & { id: string })[],
+  name: string,
+  report: MergeReport,
+  onKeyClash: "replace" | "conflict" | "keep"
+): CrystalEntry[] {
+  const merged: CrystalEntry[] = [];
+  const origins: string[] = [];
+  for (const source of parsed) {
+    for (const entry of entriesOf(source, name)) {
+      if (merged.some(existing => existing.key === entry.key && normalizeText(existing.text) === normalizeText(entry.text))) {
+        report.duplicates++;
+        continue;
+      }
+      const clash = entry.key && onKeyClash !== "keep" ? merged.findIndex(existing => existing.key === entry.key) : -1;
+      if (clash < 0) {
+        merged.push(entry);
+        origins.push(source.id);
+        continue;
+      }
+
+      if (onKeyClash === "conflict") {
+        let conflict = report.conflicts.find(c => c.key === entry.key);
+        if (!conflict) {
+          conflict = { key: entry.key!, variants: [{ crystalId: origins[clash], text: merged[clash].text }] };
+          report.conflicts.push(conflict);
+        }
+        conflict.variants.push({ crystalId: source.id, text: entry.text });
+      }
+      merged[clash] = entry;
+      origins[clash] = source.id;
+    }
+  }
+  return merged;
+}
+
+export function formatMergeReport(report: MergeReport): string {
+  const lines = [
+    `Sources (oldest first): ${report.sources.join(', ')}`,
+    `Problems: ${report.problems} | Trajectory steps: ${report.steps} | Modified artifacts: ${report.artifacts} | Duplicates dropped: ${report.duplicates}`
+  ];
+  if (report.conflicts.length > 0) {
+    lines.push(`⚠️ Conflicting invariants (the latest is kept):`);
+    for (const conflict of report.conflicts) {
+      lines.push(`- ${conflict.key}: ${conflict.variants.map(variant => `"${variant.text}" (${variant.crystalId})`).join(' vs ')}`);
+    }
+  }
+  if (report.warnings.length > 0) {
+    lines.push('Warnings:', ...report.warnings.map(warning => `- ${warning}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,267 @@
+/**
+ * Crystal Migration - converts crystals between protocol spec versions
+ *
+ * Migrations are declarative JSON rules in public/migrations/, one file per
+ * direction (a downgrade is its own rule):
+ *
+ *   { "from": "2.0", "to": "3.0", "steps": [
+ *       { "op": "rename_layer", "layer": "META_CONTEXT", "to": "SESSION_CONTEXT" },
+ *       { "op": "split_layer", "layer": "MODIFIED_ARTIFACTS", "into": [
+ *           { "name": "MODIFIED_FILES", "keys": ["file*"] }, { "name": "MODIFIED_METHODS" } ] },
+ *       { "op": "merge_layers", "layers": ["BEHAVIORAL_TESTS", "ENHANCEMENT_VECTORS"], "into": "VERIFICATION" },
+ *       { "op": "add_layer", "name": "RISKS", "default": "none recorded" },
+ *       { "op": "remove_layer", "layer": "ARCHAEOLOGICAL_CONTEXT" } ] }
+ *
+ * Steps refer to layers by name. A crystal is parsed with the source
+ * protocol's layer model, the steps of each rule on the path are applied in
+ * order, and the result is rendered in the target protocol's layer order.
+ */
+
+import { z } from "zod";
+import { readFile, readdir } from "fs/promises";
+import { join } from "path";
+import { parseCrystal, renderCrystal, layerSymbol, LayerDefinition, CrystalEntry, ParsedCrystal } from "./crystal-parser.js";
+import { normalizeVersion } from "./matching.js";
+
+const layerName = z.string().min(1).transform(name => name.replace(/[⟨⟩]/g, '').trim().toUpperCase());
+
+const migrationStepSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("rename_layer"), layer: layerName, to: layerName }),
+  z.object({
+    op: z.literal("split_layer"),
+    layer: layerName,
+    // Entries go to the first target whose keys match; unmatched entries go to the first target without keys
+    into: z.array(z.object({ name: layerName, keys: z.array(z.string()).default([]) })).min(2)
+  }),
+  z.object({ op: z.literal("merge_layers"), layers: z.array(layerName).min(2), into: layerName }),
+  z.object({ op: z.literal("add_layer"), name: layerName, default: z.string().optional() }),
+  z.object({ op: z.literal("remove_layer"), layer: layerName })
+]);
+
+const migrationRuleSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  description: z.string().optional(),
+  steps: z.array(migrationStepSchema)
+});
+
+export type MigrationStep = z.infer<typeof migrationStepSchema>;
+
+export interface MigrationRule extends z.infer<typeof migrationRuleSchema> {
+  file: string;
+}
+
+export interface MigrationReport {
+  from: string;
+  to: string;
+  path: string[];
+  changes: string[];
+  warnings: string[];
+}
+
+export interface MigrationResult {
+  content: string;
+  report: MigrationReport;
+}
+
+interface WorkingLayer {
+  name: string;
+  entries: CrystalEntry[];
+}
+
+export async function loadMigrationRules(dir: string): Promise<MigrationRule[]> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter(f => f.endsWith('.json')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const rules: MigrationRule[] = [];
+  for (const file of files) {
+    let json: unknown;
+    try {
+      json = JSON.parse(await readFile(join(dir, file), 'utf-8'));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`Invalid migration rule ${file}: ${error.message}`);
+      }
+      throw error;
+    }
+    const parsed = migrationRuleSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new Error(`Invalid migration rule ${file}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    rules.push({ ...parsed.data, file });
+  }
+  return rules;
+}
+
+// Shortest chain of rules from one spec version to another (empty when they are equal)
+export function findMigrationPath(rules: MigrationRule[], from: string, to: string): MigrationRule[] | null {
+  const start = normalizeVersion(from);
+  const goal = normalizeVersion(to);
+  const queue: { version: string; path: MigrationRule[] }[] = [{ version: start, path: [] }];
+  const seen = new Set([start]);
+
+  while (queue.length > 0) {
+    const { version, path } = queue.shift()!;
+    if (version === goal) {
+      return path;
+    }
+    for (const rule of rules.filter(r => normalizeVersion(r.from) === version)) {
+      const next = normalizeVersion(rule.to);
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push({ version: next, path: [...path, rule] });
+      }
+    }
+  }
+  return null;
+}
+
+function entryMatchesKey(entry: CrystalEntry, patterns: string[]): boolean {
+  if (!entry.key) {
+    return false;
+  }
+  const key = entry.key.toLowerCase();
+  return patterns.some(pattern => {
+    const p = pattern.toLowerCase();
+    return p.endsWith('*') ? key.startsWith(p.slice(0, -1)) : key === p;
+  });
+}
+
+function applyStep(layers: WorkingLayer[], step: MigrationStep, report: MigrationReport): WorkingLayer[] {
+  const find = (name: string) => layers.find(layer => layer.name === name);
+
+  switch (step.op) {
+    case "rename_layer": {
+      const layer = find(step.layer);
+      if (!layer) {
+        report.warnings.push(`rename_layer: ⟨${step.layer}⟩ is not in the crystal; skipped`);
+        return layers;
+      }
+      report.changes.push(`Renamed ⟨${step.layer}⟩ → ⟨${step.to}⟩`);
+      return layers.map(l => l === layer ? { ...l, name: step.to } : l);
+    }
+
+    case "split_layer": {
+      const layer = find(step.layer);
+      if (!layer) {
+        report.warnings.push(`split_layer: ⟨${step.layer}⟩ is not in the crystal; skipped`);
+        return layers;
+      }
+      const fallback = step.into.find(target => target.keys.length === 0) ?? step.into[0];
+      const parts = step.into.map(target => ({ name: target.name, entries: [] as CrystalEntry[] }));
+      for (const entry of layer.entries) {
+        const targetIdx = step.into.findIndex(target => entryMatchesKey(entry, target.keys));
+        parts[targetIdx >= 0 ? targetIdx : step.into.indexOf(fallback)].entries.push(entry);
+      }
+      report.changes.push(`Split ⟨${step.layer}⟩ into ${parts.map(p => `⟨${p.name}⟩ (${p.entries.length})`).join(', ')}`);
+      return layers.flatMap(l => l === layer ? parts : [l]);
+    }
+
+    case "merge_layers": {
+      const sources = step.layers.map(name => find(name)).filter((l): l is WorkingLayer => Boolean(l));
+      const missing = step.layers.filter(name => !find(name));
+      if (missing.length > 0) {
+        report.warnings.push(`merge_layers: ${missing.map(name => `⟨${name}⟩`).join(', ')} not in the crystal`);
+      }
+      if (sources.length === 0) {
+        return layers;
+      }
+      const merged: WorkingLayer = { name: step.into, entries: sources.flatMap(l => l.entries) };
+      report.changes.push(`Merged ${sources.map(l => `⟨${l.name}⟩`).join(' + ')} → ⟨${step.into}⟩`);
+      return layers.flatMap(l => l === sources[0] ? [merged] : sources.includes(l) ? [] : [l]);
+    }
+
+    case "add_layer": {
+      if (find(step.name)) {
+        report.warnings.push(`add_layer: ⟨${step.name}⟩ already exists; kept its content`);
+        return layers;
+      }
+      const entries = step.default ? [{ key: null, text: step.default }] : [];
+      report.changes.push(`Added ⟨${step.name}⟩${step.default ? ' with default content' : ''}`);
+      if (!step.default) {
+        report.warnings.push(`⟨${step.name}⟩ is new in this version and needs content`);
+      }
+      return [...layers, { name: step.name, entries }];
+    }
+
+    case "remove_layer": {
+      const layer = find(step.layer);
+      if (!layer) {
+        return layers;
+      }
+      report.changes.push(`Removed ⟨${step.layer}⟩`);
+      if (layer.entries.length > 0) {
+        report.warnings.push(`Removing ⟨${step.layer}⟩ dropped ${layer.entries.length} entr${layer.entries.length === 1 ? 'y' : 'ies'}`);
+      }
+      return layers.filter(l => l !== layer);
+    }
+  }
+}
+
+function renderMigrated(parsed: ParsedCrystal, layers: WorkingLayer[], model: LayerDefinition[], report: MigrationReport): string {
+  const rendered = renderCrystal({ header: parsed.header ?? 'MIGRATED_CRYSTAL', ...parsed.coreTransform, layers }, model);
+  for (const definition of rendered.missing) {
+    report.warnings.push(`${layerSymbol(definition.index)} ⟨${definition.name}⟩ is required by spec ${report.to} but has no content`);
+  }
+  for (const name of rendered.extra) {
+    report.warnings.push(`⟨${name}⟩ is not part of spec ${report.to}; kept as an extra section`);
+  }
+  return rendered.content;
+}
+
+/**
+ * Apply a migration path to crystal content. `layerModel` supplies each spec
+ * version's layer model (from the protocol registry).
+ */
+export function migrateCrystalContent(
+  content: string,
+  from: string,
+  to: string,
+  path: MigrationRule[],
+  layerModel: (version: string) => LayerDefinition[]
+): MigrationResult {
+  const report: MigrationReport = { from, to, path: path.map(rule => `${rule.from} → ${rule.to} (${rule.file})`), changes: [], warnings: [] };
+  if (path.length === 0) {
+    return { content, report };
+  }
+
+  const parsed = parseCrystal(content, layerModel(from));
+  let layers: WorkingLayer[] = parsed.layers
+    .filter(layer => layer.present)
+    .map(layer => ({ name: layer.name, entries: layer.entries }));
+  if (layers.length === 0) {
+    report.warnings.push(`No ⟨CRYSTAL_STRUCTURE⟩ layers found for spec ${from}; the content was left unchanged`);
+  }
+
+  for (const rule of path) {
+    for (const step of rule.steps) {
+      layers = applyStep(layers, step, report);
+    }
+  }
+
+  const migrated = layers.length > 0
+    ? renderMigrated(parsed, layers, layerModel(to), report)
+    : content;
+  return { content: migrated, report };
+}
+
+export function formatMigrationReport(report: MigrationReport): string {
+  if (report.path.length === 0) {
+    return `No migration needed: crystal is already at spec ${report.to}`;
+  }
+  const lines = [`Migrated spec ${report.from} → ${report.to}`, `Path: ${report.path.join(', ')}`];
+  if (report.changes.length > 0) {
+    lines.push('Changes:', ...report.changes.map(change => `- ${change}`));
+  }
+  if (report.warnings.length > 0) {
+    lines.push('Warnings:', ...report.warnings.map(warning => `- ${warning}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,512 @@
+/**
+ * Crystal Parser - reads crystal content into the ⟨CRYSTAL_STRUCTURE⟩ model
+ *
+ * The layer model follows CRYSTALLIZATION_PROTOCOL_2.0.cp:
+ * - HEADER: ⟨⟨DOMAIN_PURPOSE_CRYSTAL⟩⟩
+ * - CORE_TRANSFORM: Ω (convergence point) and ∂ (transformation arc)
+ * - LAYERS: L₁ ⟨PROBLEM_MANIFOLD⟩ … L₉ ⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩
+ *
+ * Crystals are written by agents, so the parser accepts both the JSON-like
+ * form used by the protocol itself and looser text/markdown layouts.
+ */
+
+export interface LayerDefinition {
+  index: number;
+  name: string;
+  // 2 when the protocol declares the layer as ⟨⟨NAME⟩⟩ (L₉ in v2.0); rendered the same way
+  brackets?: 1 | 2;
+}
+
+export interface CrystalEntry {
+  key: string | null;
+  text: string;
+}
+
+export interface CrystalLayer {
+  index: number;
+  symbol: string;
+  name: string;
+  present: boolean;
+  entries: CrystalEntry[];
+  raw: string;
+}
+
+export interface ParsedCrystal {
+  header: string | null;
+  coreTransform: {
+    omega: string | null;
+    delta: string | null;
+  };
+  layers: CrystalLayer[];
+  format: "json" | "text";
+}
+
+export interface ValidationIssue {
+  severity: "error" | "warning";
+  criterion: string;
+  message: string;
+  layer?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+  crystal: ParsedCrystal;
+}
+
+// Layer model from ⟨CRYSTAL_STRUCTURE⟩.LAYERS of protocol v2.0
+export const PROTOCOL_LAYERS: LayerDefinition[] = [
+  { index: 1, name: "PROBLEM_MANIFOLD" },
+  { index: 2, name: "RESOLUTION_TRAJECTORY" },
+  { index: 3, name: "MODIFIED_ARTIFACTS" },
+  { index: 4, name: "ARCHAEOLOGICAL_CONTEXT" },
+  { index: 5, name: "SOLUTION_ALGEBRA" },
+  { index: 6, name: "BEHAVIORAL_TESTS" },
+  { index: 7, name: "ENHANCEMENT_VECTORS" },
+  { index: 8, name: "META_CONTEXT" },
+  { index: 9, name: "RECONSTRUCTION_PROTOCOL", brackets: 2 }
+];
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+
+export function toSubscript(value: number): string {
+  return String(value).split('').map(d => SUBSCRIPT_DIGITS[Number(d)]).join('');
+}
+
+export function fromSubscript(value: string): string {
+  return value.replace(/[₀-₉]/g, d => String(SUBSCRIPT_DIGITS.indexOf(d)));
+}
+
+export function layerSymbol(index: number): string {
+  return `L${toSubscript(index)}`;
+}
+
+// Resolve a layer reference such as "L₃", "L3", "3" or "MODIFIED_ARTIFACTS"
+export function resolveLayerIndex(ref: string, model: LayerDefinition[] = PROTOCOL_LAYERS): number | null {
+  const normalized = fromSubscript(ref.trim()).replace(/[⟨⟩]/g, '').toUpperCase();
+  const numeric = normalized.match(/^L?(\d+)$/);
+  if (numeric) {
+    const index = Number(numeric[1]);
+    return model.some(l => l.index === index) ? index : null;
+  }
+  const byName = model.find(l => l.name === normalized);
+  return byName ? byName.index : null;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function layerIndexPattern(layer: LayerDefinition): string {
+  return `L(?:${toSubscript(layer.index)}|${layer.index})(?![0-9₀-₉])`;
+}
+
+function layerNamePattern(layer: LayerDefinition): string {
+  return `⟨{1,2}\\s*${escapeRegex(layer.name)}\\s*⟩{1,2}|${escapeRegex(layer.name)}`;
+}
+
+// Match a key like "L₁⟨PROBLEM_MANIFOLD⟩", "L1", "⟨PROBLEM_MANIFOLD⟩" or "PROBLEM_MANIFOLD"
+function matchesLayerKey(key: string, layer: LayerDefinition): boolean {
+  const pattern = new RegExp(
+    `^\\s*(?:${layerIndexPattern(layer)}[\\s:._-]*(?:${layerNamePattern(layer)})?|${layerNamePattern(layer)})\\s*$`,
+    'u'
+  );
+  return pattern.test(key);
+}
+
+function stringifyValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function entriesFromValue(value: unknown): CrystalEntry[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => ({ key: null, text: stringifyValue(item) }));
+  }
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>).map(([key, item]) => ({
+      key,
+      text: stringifyValue(item)
+    }));
+  }
+  const text = String(value).trim();
+  return text ? [{ key: null, text }] : [];
+}
+
+function extractHeader(content: string): { header: string | null; bodyStart: number } {
+  const match = content.match(/⟨⟨([^⟨⟩]+)⟩⟩/u);
+  if (!match || match.index === undefined) {
+    return { header: null, bodyStart: 0 };
+  }
+  return { header: match[1].trim(), bodyStart: match.index + match[0].length };
+}
+
+function emptyLayers(model: LayerDefinition[]): CrystalLayer[] {
+  return model.map(layer => ({
+    index: layer.index,
+    symbol: layerSymbol(layer.index),
+    name: layer.name,
+    present: false,
+    entries: [],
+    raw: ""
+  }));
+}
+
+function parseJsonCrystal(content: string, bodyStart: number, model: LayerDefinition[]): ParsedCrystal | null {
+  const body = content.slice(bodyStart).replace(/^\s*=\s*/, '').trim();
+  if (!body.startsWith('{')) {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return null;
+  }
+
+  const root = data as Record<string, unknown>;
+  const layers = emptyLayers(model);
+  let omega: string | null = null;
+  let delta: string | null = null;
+
+  const visit = (record: Record<string, unknown>) => {
+    for (const [key, value] of Object.entries(record)) {
+      const trimmedKey = key.trim();
+      if (trimmedKey === "Ω" && omega === null) {
+        omega = stringifyValue(value);
+        continue;
+      }
+      if (trimmedKey === "∂" && delta === null) {
+        delta = stringifyValue(value);
+        continue;
+      }
+      if (/^(CORE_TRANSFORM|LAYERS)$/i.test(trimmedKey.replace(/[⟨⟩]/g, '')) && value && typeof value === "object" && !Array.isArray(value)) {
+        visit(value as Record<string, unknown>);
+        continue;
+      }
+      if (/^CORE_TRANSFORM$/i.test(trimmedKey) && typeof value === "string") {
+        omega = omega ?? value.match(/Ω\s*:\s*([^,]+)/u)?.[1]?.trim() ?? null;
+        delta = delta ?? value.match(/∂\s*:\s*(.+)$/u)?.[1]?.trim() ?? null;
+        continue;
+      }
+      const layer = layers.find((l, i) => !l.present && matchesLayerKey(trimmedKey, model[i]));
+      if (layer) {
+        layer.present = true;
+        layer.entries = entriesFromValue(value);
+        layer.raw = stringifyValue(value);
+      }
+    }
+  };
+  visit(root);
+
+  const header = extractHeader(content).header;
+  return { header, coreTransform: { omega, delta }, layers, format: "json" };
+}
+
+function extractTextEntries(section: string): CrystalEntry[] {
+  const pairs: CrystalEntry[] = [];
+  const pairRegex = /"([^"\n]+)"\s*:\s*"((?:[^"\\]|\\.)*)"/gu;
+  let pair: RegExpExecArray | null;
+  while ((pair = pairRegex.exec(section)) !== null) {
+    pairs.push({ key: pair[1].trim(), text: pair[2].replace(/\\"/g, '"').trim() });
+  }
+  if (pairs.length > 0) {
+    return pairs;
+  }
+
+  return section
+    .split('\n')
+    .map(line => line.trim().replace(/^(?:[-*•]|\d+[.)])\s+/, '').replace(/[,{}[\]]+$/, '').trim())
+    .filter(line => line.length > 0 && !/^[{}[\]",]+$/.test(line))
+    .map(line => {
+      const keyed = line.match(/^([A-Za-zΑ-Ωα-ω∂∇λ][\w₀-₉]*)\s*[:=→]\s*(.+)$/u);
+      return keyed ? { key: keyed[1], text: keyed[2].trim() } : { key: null, text: line };
+    });
+}
+
+function parseTextCrystal(content: string, bodyStart: number, model: LayerDefinition[]): ParsedCrystal {
+  const layers = emptyLayers(model);
+  const body = content.slice(bodyStart);
+
+  // Locate each layer marker at the start of a line, falling back to a bracketed name anywhere
+  const markers: { layerIdx: number; start: number; end: number }[] = [];
+  model.forEach((layer, layerIdx) => {
+    const lineStart = new RegExp(
+      `^[\\s"'#*>-]*(?:${layerIndexPattern(layer)}[\\s:._-]*(?:${layerNamePattern(layer)})?|${layerNamePattern(layer)})[^\\n]*`,
+      'mu'
+    );
+    const bracketed = new RegExp(`⟨{1,2}\\s*${escapeRegex(layer.name)}\\s*⟩{1,2}[^\\n]*`, 'u');
+    const match = body.match(lineStart) ?? body.match(bracketed);
+    if (match && match.index !== undefined) {
+      markers.push({ layerIdx, start: match.index, end: match.index + match[0].length });
+    }
+  });
+  markers.sort((a, b) => a.start - b.start);
+
+  markers.forEach((marker, i) => {
+    const sectionEnd = i + 1 < markers.length ? markers[i + 1].start : body.length;
+    const markerLine = body.slice(marker.start, marker.end);
+    // Inline values such as `L₇ ⟨ENHANCEMENT_VECTORS⟩: caching, retries` count as section content
+    const separator = markerLine.search(/[:=]/);
+    const inline = separator >= 0 ? markerLine.slice(separator + 1) : '';
+    const section = `${inline}\n${body.slice(marker.end, sectionEnd)}`;
+    const layer = layers[marker.layerIdx];
+    layer.present = true;
+    layer.raw = section.trim();
+    layer.entries = extractTextEntries(section);
+  });
+
+  const firstMarker = markers.length > 0 ? markers[0].start : body.length;
+  const preamble = body.slice(0, firstMarker);
+  const omega = preamble.match(/"?Ω"?\s*[:=]\s*"?([^"\n,]+)/u)?.[1]?.trim() ?? null;
+  const delta = preamble.match(/"?∂"?\s*[:=]\s*"?([^"\n]+?)"?\s*,?\s*$/mu)?.[1]?.trim() ?? null;
+
+  return {
+    header: extractHeader(content).header,
+    coreTransform: { omega, delta },
+    layers,
+    format: "text"
+  };
+}
+
+export function parseCrystal(content: string, model: LayerDefinition[] = PROTOCOL_LAYERS): ParsedCrystal {
+  const { bodyStart } = extractHeader(content);
+  return parseJsonCrystal(content, bodyStart, model) ?? parseTextCrystal(content, bodyStart, model);
+}
+
+// Entries were flattened to text by the parser; restore nested JSON where it was JSON
+function entryValue(text: string): unknown {
+  if (/^[[{]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+function layerValue(entries: CrystalEntry[]): unknown {
+  if (entries.length > 0 && entries.every(entry => entry.key)) {
+    const record: Record<string, unknown> = {};
+    for (const entry of entries) {
+      let key = entry.key!;
+      for (let n = 2; key in record; n++) {
+        key = `${entry.key}_${n}`;
+      }
+      record[key] = entryValue(entry.text);
+    }
+    return record;
+  }
+  return entries.map(entry => entry.key ? `${entry.key}: ${entry.text}` : entryValue(entry.text));
+}
+
+// "L₁⟨PROBLEM_MANIFOLD⟩", "L₉⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩": a layer in the bracket form its protocol declares
+export function layerKey(definition: LayerDefinition): string {
+  const brackets = definition.brackets ?? 1;
+  return `${layerSymbol(definition.index)}${'⟨'.repeat(brackets)}${definition.name}${'⟩'.repeat(brackets)}`;
+}
+
+/**
+ * Write layers back out as canonical JSON crystal content, in the order of
+ * `model`. Layers the model has no place for are kept as extra ⟨NAME⟩ sections.
+ */
+export function renderCrystal(
+  crystal: { header: string; omega: string | null; delta: string | null; layers: { name: string; entries: CrystalEntry[] }[] },
+  model: LayerDefinition[]
+): { content: string; missing: LayerDefinition[]; extra: string[] } {
+  const body: Record<string, unknown> = {};
+  if (crystal.omega !== null) {
+    body["Ω"] = crystal.omega;
+  }
+  if (crystal.delta !== null) {
+    body["∂"] = crystal.delta;
+  }
+
+  const missing: LayerDefinition[] = [];
+  for (const definition of model) {
+    const layer = crystal.layers.find(l => l.name === definition.name);
+    if (layer) {
+      body[layerKey(definition)] = layerValue(layer.entries);
+    } else {
+      missing.push(definition);
+    }
+  }
+
+  const extra = crystal.layers.filter(l => !model.some(definition => definition.name === l.name));
+  for (const layer of extra) {
+    body[`⟨${layer.name}⟩`] = layerValue(layer.entries);
+  }
+
+  return { content: `⟨⟨${crystal.header}⟩⟩ = ${JSON.stringify(body, null, 2)}`, missing, extra: extra.map(layer => layer.name) };
+}
+
+// Collect the numeric suffix of keys/references such as "P₁", "P1", "T₂"
+function indexedKey(key: string | null, prefix: string): string | null {
+  if (!key) {
+    return null;
+  }
+  const match = fromSubscript(key).match(new RegExp(`^${prefix}(\\d+)`, 'i'));
+  return match ? match[1] : null;
+}
+
+function referencesProblem(text: string, problemIndex: string): boolean {
+  return new RegExp(`P${problemIndex}(?!\\d)`).test(fromSubscript(text));
+}
+
+// Check a parsed crystal against ⟨CRYSTAL_STRUCTURE⟩ and ⟨QUALITY_CRITERIA⟩
+export function validateCrystal(content: string, model: LayerDefinition[] = PROTOCOL_LAYERS): ValidationResult {
+  const crystal = parseCrystal(content, model);
+  const issues: ValidationIssue[] = [];
+  const layerAt = (index: number) => crystal.layers.find(l => l.index === index);
+
+  if (!crystal.header) {
+    issues.push({ severity: "error", criterion: "structure", message: "Missing HEADER ⟨⟨DOMAIN_PURPOSE_CRYSTAL⟩⟩" });
+  }
+  if (!crystal.coreTransform.omega) {
+    issues.push({ severity: "warning", criterion: "structure", message: "CORE_TRANSFORM is missing Ω (convergence point)" });
+  }
+  if (!crystal.coreTransform.delta) {
+    issues.push({ severity: "warning", criterion: "structure", message: "CORE_TRANSFORM is missing ∂ (transformation arc)" });
+  }
+  for (const layer of crystal.layers) {
+    if (!layer.present) {
+      issues.push({ severity: "error", criterion: "structure", message: `Missing layer ${layer.symbol} ⟨${layer.name}⟩`, layer: layer.symbol });
+    }
+  }
+
+  // completeness: ∀ problem ∃ solution ∈ trajectory
+  const problems = layerAt(1);
+  const trajectory = layerAt(2);
+  if (problems?.present && trajectory?.present) {
+    if (problems.entries.length === 0) {
+      issues.push({ severity: "error", criterion: "completeness", message: `${problems.symbol} ⟨${problems.name}⟩ lists no problems`, layer: problems.symbol });
+    }
+    const stepIndexes = new Set(trajectory.entries.map(e => indexedKey(e.key, 'T')).filter((i): i is string => i !== null));
+    const indexedProblems = problems.entries.filter(e => indexedKey(e.key, 'P') !== null);
+
+    if (indexedProblems.length > 0) {
+      for (const problem of indexedProblems) {
+        const problemIndex = indexedKey(problem.key, 'P')!;
+        const solved = stepIndexes.has(problemIndex) ||
+          trajectory.entries.some(e => referencesProblem(`${e.key ?? ''} ${e.text}`, problemIndex));
+        if (!solved) {
+          issues.push({
+            severity: "error",
+            criterion: "completeness",
+            message: `Problem ${problem.key} has no corresponding step in ${trajectory.symbol} ⟨${trajectory.name}⟩`,
+            layer: trajectory.symbol
+          });
+        }
+      }
+    } else if (trajectory.entries.length < problems.entries.length) {
+      issues.push({
+        severity: "warning",
+        criterion: "completeness",
+        message: `${problems.entries.length} problems but only ${trajectory.entries.length} trajectory steps`,
+        layer: trajectory.symbol
+      });
+    }
+  }
+
+  // actionability: ∀ Tᵢ: implementable_transformation
+  if (trajectory?.present && trajectory.entries.length === 0) {
+    issues.push({ severity: "error", criterion: "actionability", message: `${trajectory.symbol} ⟨${trajectory.name}⟩ has no transformation steps`, layer: trajectory.symbol });
+  }
+
+  // traceability: problem → solution → test → result
+  const tests = layerAt(6);
+  if (tests?.present && tests.entries.length === 0) {
+    issues.push({ severity: "warning", criterion: "traceability", message: `${tests.symbol} ⟨${tests.name}⟩ defines no validation invariants`, layer: tests.symbol });
+  }
+
+  // extensibility: enhancement_vectors.defined ∧ non_empty
+  const vectors = layerAt(7);
+  if (vectors?.present && vectors.entries.length === 0) {
+    issues.push({ severity: "error", criterion: "extensibility", message: `${vectors.symbol} ⟨${vectors.name}⟩ must not be empty`, layer: vectors.symbol });
+  }
+
+  // transferability: agent₂.reconstruct(crystal) ≡ᵦ original_context
+  const reconstruction = layerAt(9);
+  if (reconstruction?.present && reconstruction.entries.length === 0) {
+    issues.push({ severity: "error", criterion: "transferability", message: `${reconstruction.symbol} ⟨⟨${reconstruction.name}⟩⟩ has no restoration steps`, layer: reconstruction.symbol });
+  }
+
+  return {
+    valid: !issues.some(issue => issue.severity === "error"),
+    issues,
+    crystal
+  };
+}
+
+export function formatValidationReport(result: ValidationResult): string {
+  const { crystal, issues } = result;
+  const layerLines = crystal.layers.map(layer =>
+    `${layer.present ? '✓' : '✗'} ${layer.symbol} ⟨${layer.name}⟩${layer.present ? ` (${layer.entries.length} entries)` : ''}`
+  );
+  const issueLines = issues.length > 0
+    ? issues.map(issue => `${issue.severity === "error" ? '❌' : '⚠️'} [${issue.criterion}] ${issue.message}`)
+    : ['None'];
+
+  return `${result.valid ? '✅ Crystal is well-formed' : '❌ Crystal is malformed'}\n\nHeader: ${crystal.header ? `⟨⟨${crystal.header}⟩⟩` : 'missing'}\nΩ: ${crystal.coreTransform.omega ?? 'missing'}\n∂: ${crystal.coreTransform.delta ?? 'missing'}\n\nLayers:\n${layerLines.join('\n')}\n\nIssues:\n${issueLines.join('\n')}`;
+}
+
+// Pull a named section such as ⟨EXTRACTION_RULES⟩ out of a protocol or codex file
+export function extractProtocolSection(content: string, sectionName: string): string | null {
+  const marker = content.match(new RegExp(`"?⟨{1,2}${escapeRegex(sectionName)}⟩{1,2}"?\\s*:\\s*`, 'u'));
+  if (!marker || marker.index === undefined) {
+    return null;
+  }
+
+  const start = marker.index;
+  const valueStart = start + marker[0].length;
+  if (content[valueStart] !== '{') {
+    const lineEnd = content.indexOf('\n', valueStart);
+    return content.slice(start, lineEnd === -1 ? undefined : lineEnd).replace(/,\s*$/, '').trim();
+  }
+
+  // Walk to the matching closing brace, ignoring braces inside strings
+  let depth = 0;
+  let inString = false;
+  for (let i = valueStart; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return content.slice(start, i + 1);
+      }
+    }
+  }
+  return null;
+}
+
+// The ⟨SYMBOL_SEMANTICS⟩ legend of a protocol or codex file as symbol → meaning
+export function symbolLegend(content: string): Record<string, string> {
+  const section = extractProtocolSection(content, "SYMBOL_SEMANTICS");
+  const legend: Record<string, string> = {};
+  if (!section) {
+    return legend;
+  }
+  for (const match of section.matchAll(/"((?:[^"\\]|\\.)+)"\s*:\s*"((?:[^"\\]|\\.)*)"/gu)) {
+    legend[match[1]] = match[2];
+  }
+  return legend;
+}
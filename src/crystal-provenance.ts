@@ -0,0 +1,109 @@
+/**
+ * Crystal Provenance - which client, session and repository state a crystal came from
+ *
+ * export_crystal and merge_crystals record the MCP client named in the
+ * initialize handshake, the session id and this server's version on every
+ * new crystal, plus the working directory and git HEAD when the caller
+ * passes them (the server cannot see the caller's checkout). list_crystals
+ * and search_crystals filter on the same fields.
+ */
+
+import type { CrystalProvenance } from "./crystal-types.js";
+import { ToolError } from "./tool-results.js";
+
+export const SERVER_NAME = "crystal-mcp-server";
+export const SERVER_VERSION = "1.0.0";
+
+// A full or abbreviated commit hash (SHA-1 or SHA-256)
+const GIT_HEAD_PATTERN = /^[0-9a-f]{4,64}$/i;
+
+export type ProvenanceInput = Omit<CrystalProvenance, "server">;
+
+export interface ProvenanceFilters {
+  // Client name, or "name@version"
+  client?: string;
+  session_id?: string;
+  // This directory or any directory below it
+  cwd?: string;
+  // Full hash or a prefix of at least 4 characters
+  git_head?: string;
+  server_version?: string;
+}
+
+function assertGitHead(value: string, field: string): string {
+  if (!GIT_HEAD_PATTERN.test(value)) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid ${field}: ${value} (expected a commit hash of 4-64 hex digits)`);
+  }
+  return value.toLowerCase();
+}
+
+// The provenance stored on a new crystal: the caller's fields, checked, plus this server
+export function recordProvenance(input: ProvenanceInput = {}): CrystalProvenance {
+  const cwd = input.cwd?.trim();
+  const gitHead = input.git_head?.trim();
+  return {
+    ...(input.client ? { client: { name: input.client.name, version: input.client.version } } : {}),
+    ...(input.session_id ? { session_id: input.session_id } : {}),
+    ...(cwd ? { cwd } : {}),
+    ...(gitHead ? { git_head: assertGitHead(gitHead, "git_head") } : {}),
+    server: { name: SERVER_NAME, version: SERVER_VERSION }
+  };
+}
+
+export function hasProvenanceFilters(filters: ProvenanceFilters): boolean {
+  return Boolean(filters.client || filters.session_id || filters.cwd || filters.git_head || filters.server_version);
+}
+
+// Check filter values up front so a typo is an error rather than an empty result
+export function checkProvenanceFilters(filters: ProvenanceFilters): void {
+  if (filters.git_head) {
+    assertGitHead(filters.git_head, "git_head filter");
+  }
+}
+
+// Crystals without provenance match no provenance filter
+export function matchesProvenance(provenance: CrystalProvenance | undefined, filters: ProvenanceFilters): boolean {
+  if (!hasProvenanceFilters(filters)) {
+    return true;
+  }
+  if (!provenance) {
+    return false;
+  }
+  if (filters.client) {
+    // The last "@" separates the version, so scoped names such as "@acme/agent" still work
+    const at = filters.client.lastIndexOf('@');
+    const name = at > 0 ? filters.client.slice(0, at) : filters.client;
+    const version = at > 0 ? filters.client.slice(at + 1) : null;
+    if (provenance.client?.name.toLowerCase() !== name.trim().toLowerCase() || (version && provenance.client.version !== version.trim())) {
+      return false;
+    }
+  }
+  if (filters.session_id && provenance.session_id !== filters.session_id) {
+    return false;
+  }
+  if (filters.cwd) {
+    const base = filters.cwd.trim().replace(/[\\/]+$/, '');
+    const cwd = provenance.cwd ?? '';
+    if (cwd !== base && !cwd.startsWith(`${base}/`) && !cwd.startsWith(`${base}\\`)) {
+      return false;
+    }
+  }
+  if (filters.git_head && !provenance.git_head?.startsWith(filters.git_head.toLowerCase())) {
+    return false;
+  }
+  if (filters.server_version && provenance.server.version !== filters.server_version) {
+    return false;
+  }
+  return true;
+}
+
+// "claude-ai 0.1.0, session 3f2a…, /home/me/repo @ 1a2b3c4d, crystal-mcp-server 1.0.0"
+export function formatProvenance(provenance: CrystalProvenance): string {
+  const parts = [
+    provenance.client ? `${provenance.client.name} ${provenance.client.version}` : 'unknown client',
+    ...(provenance.session_id ? [`session ${provenance.session_id}`] : []),
+    ...(provenance.cwd || provenance.git_head ? [`${provenance.cwd ?? 'unknown directory'}${provenance.git_head ? ` @ ${provenance.git_head.slice(0, 12)}` : ''}`] : []),
+    `${provenance.server.name} ${provenance.server.version}`
+  ];
+  return parts.join(', ');
+}
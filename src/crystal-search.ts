@@ -0,0 +1,275 @@
+/**
+ * Crystal Search - ranked full-text index over stored crystals
+ *
+ * Each crystal is indexed as several fields: the title, every L₁–L₉ layer
+ * from the parsed ⟨CRYSTAL_STRUCTURE⟩, and any remaining content. Fields are
+ * scored separately with BM25 and combined with per-field weights, so a hit
+ * in L₁ problems or L₃ artifacts ranks above a passing mention elsewhere.
+ */
+
+import { parseCrystal, layerSymbol } from "./crystal-parser.js";
+import type { CrystalData, CrystalProvenance } from "./crystal-types.js";
+import { ProvenanceFilters, matchesProvenance } from "./crystal-provenance.js";
+
+export interface SearchFilters extends ProvenanceFilters {
+  spec_version?: string;
+  created_after?: string;
+  created_before?: string;
+  tags?: string[];
+}
+
+export interface SearchHit {
+  id: string;
+  title: string;
+  spec_version: string;
+  created_at: string;
+  tags: string[];
+  provenance?: CrystalProvenance;
+  score: number;
+  fieldScores: Record<string, number>;
+  snippet: string;
+}
+
+interface IndexedDocument {
+  crystal: CrystalData;
+  fieldLengths: Map<string, number>;
+  fieldText: Map<string, string>;
+  terms: Set<string>;
+}
+
+// Title and the layers agents search most (problems, artifacts, insights) weigh more
+const FIELD_WEIGHTS: Record<string, number> = {
+  title: 3.0,
+  [layerSymbol(1)]: 2.0,
+  [layerSymbol(3)]: 1.75,
+  [layerSymbol(8)]: 1.5,
+  [layerSymbol(2)]: 1.25,
+  [layerSymbol(4)]: 1.0,
+  [layerSymbol(5)]: 1.0,
+  [layerSymbol(6)]: 1.0,
+  [layerSymbol(7)]: 1.0,
+  [layerSymbol(9)]: 1.0,
+  content: 0.5
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PREFIX_MATCH_FACTOR = 0.5;
+
+const STOP_WORDS = new Set(["a", "an", "and", "the", "of", "to", "in", "on", "for", "is", "it", "with", "about"]);
+
+// Light suffix stripping so "caching", "cached" and "cache" share a term
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith("ing")) {
+    return token.slice(0, -3);
+  }
+  if (token.length > 4 && (token.endsWith("ed") || token.endsWith("es"))) {
+    return token.slice(0, -2);
+  }
+  if (token.length > 3 && (token.endsWith("e") || (token.endsWith("s") && !token.endsWith("ss")))) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+export class CrystalSearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term → document id → field → term frequency
+  private postings = new Map<string, Map<string, Map<string, number>>>();
+  private totalFieldLengths = new Map<string, number>();
+  private fieldDocumentCounts = new Map<string, number>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(crystal: CrystalData): void {
+    this.remove(crystal.id);
+
+    const fields = this.extractFields(crystal);
+    const fieldLengths = new Map<string, number>();
+    const terms = new Set<string>();
+
+    for (const [field, text] of fields) {
+      const tokens = tokenize(text);
+      fieldLengths.set(field, tokens.length);
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) ?? 0) + tokens.length);
+      this.fieldDocumentCounts.set(field, (this.fieldDocumentCounts.get(field) ?? 0) + 1);
+
+      for (const token of tokens) {
+        terms.add(token);
+        let docs = this.postings.get(token);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(token, docs);
+        }
+        let docFields = docs.get(crystal.id);
+        if (!docFields) {
+          docFields = new Map();
+          docs.set(crystal.id, docFields);
+        }
+        docFields.set(field, (docFields.get(field) ?? 0) + 1);
+      }
+    }
+
+    this.documents.set(crystal.id, { crystal, fieldLengths, fieldText: fields, terms });
+  }
+
+  remove(id: string): void {
+    const doc = this.documents.get(id);
+    if (!doc) {
+      return;
+    }
+
+    for (const term of doc.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    for (const [field, length] of doc.fieldLengths) {
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) ?? 0) - length);
+      this.fieldDocumentCounts.set(field, (this.fieldDocumentCounts.get(field) ?? 0) - 1);
+    }
+    this.documents.delete(id);
+  }
+
+  search(query: string, filters: SearchFilters = {}, limit = 10): SearchHit[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const candidates = [...this.documents.values()].filter(doc => this.matchesFilters(doc.crystal, filters));
+
+    // A filter-only search lists matching crystals newest first
+    if (queryTerms.length === 0) {
+      return candidates
+        .sort((a, b) => b.crystal.created_at.localeCompare(a.crystal.created_at))
+        .slice(0, limit)
+        .map(doc => this.toHit(doc, 0, {}, []));
+    }
+
+    const hits: SearchHit[] = [];
+    for (const doc of candidates) {
+      const fieldScores: Record<string, number> = {};
+      for (const term of queryTerms) {
+        for (const [indexedTerm, factor] of this.expandTerm(term)) {
+          const docFields = this.postings.get(indexedTerm)?.get(doc.crystal.id);
+          if (!docFields) {
+            continue;
+          }
+          const idf = this.inverseDocumentFrequency(indexedTerm);
+          for (const [field, frequency] of docFields) {
+            const score = factor * (FIELD_WEIGHTS[field] ?? 1.0) * idf * this.saturate(frequency, field, doc);
+            fieldScores[field] = (fieldScores[field] ?? 0) + score;
+          }
+        }
+      }
+
+      const score = Object.values(fieldScores).reduce((sum, value) => sum + value, 0);
+      if (score > 0) {
+        hits.push(this.toHit(doc, score, fieldScores, queryTerms));
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private extractFields(crystal: CrystalData): Map<string, string> {
+    const fields = new Map<string, string>();
+    fields.set("title", crystal.title || "");
+
+    const parsed = parseCrystal(crystal.content || "");
+    const presentLayers = parsed.layers.filter(layer => layer.present);
+    for (const layer of presentLayers) {
+      fields.set(layer.symbol, layer.entries.map(entry => `${entry.key ?? ''} ${entry.text}`).join('\n'));
+    }
+
+    // Unstructured crystals are still searchable through the raw content
+    if (presentLayers.length === 0) {
+      fields.set("content", crystal.content || "");
+    }
+    return fields;
+  }
+
+  // Exact term plus indexed terms it is a prefix of ("auth" → "authentication")
+  private expandTerm(term: string): [string, number][] {
+    const expansions: [string, number][] = [];
+    if (this.postings.has(term)) {
+      expansions.push([term, 1.0]);
+    }
+    if (term.length >= 3) {
+      for (const indexedTerm of this.postings.keys()) {
+        if (indexedTerm !== term && indexedTerm.startsWith(term)) {
+          expansions.push([indexedTerm, PREFIX_MATCH_FACTOR]);
+        }
+      }
+    }
+    return expansions;
+  }
+
+  private inverseDocumentFrequency(term: string): number {
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    const total = this.documents.size;
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private saturate(frequency: number, field: string, doc: IndexedDocument): number {
+    const fieldLength = doc.fieldLengths.get(field) ?? 0;
+    const fieldCount = this.fieldDocumentCounts.get(field) ?? 0;
+    const averageLength = fieldCount > 0 ? (this.totalFieldLengths.get(field) ?? 0) / fieldCount : 0;
+    const lengthRatio = averageLength > 0 ? fieldLength / averageLength : 1;
+    return (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+  }
+
+  private matchesFilters(crystal: CrystalData, filters: SearchFilters): boolean {
+    if (filters.spec_version && crystal.spec_version !== filters.spec_version) {
+      return false;
+    }
+    if (filters.created_after && crystal.created_at < new Date(filters.created_after).toISOString()) {
+      return false;
+    }
+    if (filters.created_before && crystal.created_at > new Date(filters.created_before).toISOString()) {
+      return false;
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      const crystalTags = new Set((crystal.tags ?? []).map(tag => tag.toLowerCase()));
+      if (!filters.tags.every(tag => crystalTags.has(tag.toLowerCase()))) {
+        return false;
+      }
+    }
+    return matchesProvenance(crystal.provenance, filters);
+  }
+
+  private toHit(doc: IndexedDocument, score: number, fieldScores: Record<string, number>, queryTerms: string[]): SearchHit {
+    const bestField = Object.entries(fieldScores).sort((a, b) => b[1] - a[1])[0]?.[0];
+    return {
+      id: doc.crystal.id,
+      title: doc.crystal.title || 'Untitled',
+      spec_version: doc.crystal.spec_version || 'Unknown',
+      created_at: doc.crystal.created_at || 'Unknown',
+      tags: doc.crystal.tags ?? [],
+      ...(doc.crystal.provenance ? { provenance: doc.crystal.provenance } : {}),
+      score,
+      fieldScores,
+      snippet: this.snippet(bestField ? doc.fieldText.get(bestField) ?? '' : doc.crystal.content || '', queryTerms)
+    };
+  }
+
+  private snippet(text: string, queryTerms: string[], radius = 60): string {
+    const lower = text.toLowerCase();
+    const position = queryTerms
+      .map(term => lower.indexOf(term))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b)[0] ?? 0;
+    const start = Math.max(0, position - radius);
+    const end = Math.min(text.length, position + radius);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+  }
+}
@@ -0,0 +1,1408 @@
+/**
+ * Crystal Service - the crystal operations shared by the MCP server and the CLI
+ *
+ * Owns the store (with encryption), the catalogue, the matchers, the
+ * signing keyring and the search index. The MCP tools and the `crystal` CLI
+ * are thin front ends that render what these operations return.
+ */
+
+import { readFile, readdir, stat, mkdir } from "fs/promises";
+import { join, resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import { nanoid } from "nanoid";
+import { validateCrystal, formatValidationReport, layerKey, LayerDefinition, ValidationResult } from "./crystal-parser.js";
+import type { CrystalData, CrystalMetadata, CrystalProvenance } from "./crystal-types.js";
+import { CrystalStore, StoredCrystal, FileCrystalStore, CrystalNotFoundError, isNotFound, isCrystalId, writeFileAtomic, writeNewFileAtomic } from "./crystal-store.js";
+import { SqliteCrystalStore } from "./sqlite-crystal-store.js";
+import { CrystalSearchIndex, SearchHit, SearchFilters } from "./crystal-search.js";
+import { lineageOf, childLineage, latestInLineage, supersededIds, LineageInfo } from "./crystal-lineage.js";
+import { FileMatcher, loadMatchingConfig, MatchResult, parseVersion, normalizeVersion, compareVersions } from "./matching.js";
+import { ProtocolRegistry, ProtocolKind, ProtocolHeader } from "./protocol-registry.js";
+import { checkSpecContent, canonicalFilename, incrementVersion, bumpSpecContent, VersionIncrement } from "./protocol-authoring.js";
+import { sealCrystal, verifyCrystal, loadSigningKey, loadTrustedKeys, SigningKey, TrustedKey, IntegrityReport } from "./crystal-integrity.js";
+import { CrystalCipher, EncryptedCrystalStore, loadEncryptionKey, parseEncryptionKey } from "./crystal-encryption.js";
+import { parseTranscript, loadTranscript, findLatestCrystal, describeCandidateLocation } from "./crystal-transcript.js";
+import { loadMigrationRules, findMigrationPath, migrateCrystalContent, MigrationResult, MigrationReport } from "./crystal-migration.js";
+import { mergeCrystals, MergeSource, MergeReport } from "./crystal-merge.js";
+import { createBundle, openBundle, reidCrystals, sha256, BundleManifest, CrystalDependencies, InvalidBundleError, BUNDLE_EXTENSION } from "./crystal-bundle.js";
+import { CrystalCatalogue, CatalogueChange, CatalogueCrystal, CatalogueError, catalogueCrystals } from "./crystal-catalogue.js";
+import { CrystalConfig, DEFAULT_NAMESPACE, loadCrystalConfig, resolveWithin, namespaceLocation, namespaceFromLocation, displayPath } from "./crystal-config.js";
+import { BudgetStrategy, estimateTokens, contentFingerprint, encodeCursor, decodeCursor, resolveLayerRefs, selectLayers, outlineCrystal, pageText } from "./crystal-budget.js";
+import { ProvenanceInput, ProvenanceFilters, recordProvenance, checkProvenanceFilters, matchesProvenance } from "./crystal-provenance.js";
+import { ToolError, ToolErrorCode, errorCodeOf } from "./tool-results.js";
+
+// Get current file directory for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+export const projectRoot = resolve(__dirname, "..");
+
+export type ValidationMode = "off" | "warn" | "strict";
+
+export interface SpecLookup extends MatchResult {
+  // Every registered file of the kind, whether or not it matched
+  files: string[];
+  content: string | null;
+}
+
+export interface ExportOptions {
+  title?: string;
+  spec_version?: string;
+  manual_content?: string;
+  transcript_path?: string;
+  transcript?: string;
+  validation: ValidationMode;
+  parent_id?: string;
+  supersedes?: string;
+  tags?: string[];
+  // Store the crystal in this namespace instead of the default one
+  namespace?: string;
+  // Client, session and checkout the crystal comes from; the server version is added
+  provenance?: ProvenanceInput;
+}
+
+export interface ExportResult {
+  // null when strict validation refused the content
+  crystal: CrystalData | null;
+  validation: ValidationResult | null;
+  validationNote: string;
+  source: { kind: "manual" | "transcript"; location?: string };
+  namespace: string;
+  store: { kind: string; location: string };
+}
+
+export interface ImportOptions {
+  crystal_id: string;
+  spec_version?: string;
+  latest?: boolean;
+  namespace?: string;
+  // Layer references ("L₉", "9", "RECONSTRUCTION_PROTOCOL"); every layer when omitted
+  layers?: string[];
+  // Estimated token budget for the returned content; unlimited when omitted
+  max_tokens?: number;
+  strategy?: BudgetStrategy;
+  // next_cursor of a previous page; it carries the crystal, namespace, spec and layers
+  cursor?: string;
+}
+
+export interface ImportPage {
+  // "summary" when the content is an outline instead of crystal text
+  strategy: BudgetStrategy;
+  offset: number;
+  tokens: number;
+  totalTokens: number;
+  nextCursor: string | null;
+}
+
+export interface ImportResult {
+  crystal: CrystalData;
+  namespace: string;
+  // Set when `latest` resolved crystal_id to a newer crystal in its lineage
+  resolvedFrom: string | null;
+  spec_version: string;
+  integrity: IntegrityReport;
+  migration: MigrationResult | null;
+  // Selected layers ("L₉⟨RECONSTRUCTION_PROTOCOL⟩"), and those of them the crystal lacks; null when all were requested
+  layers: string[] | null;
+  missingLayers: string[];
+  // Set when a token budget or cursor applied
+  page: ImportPage | null;
+  // Crystal content in spec_version, cut to the selected layers and the page
+  content: string;
+}
+
+export interface UpdateOptions {
+  crystal_id: string;
+  title?: string;
+  content?: string;
+  tags?: string[];
+  add_tags?: string[];
+  remove_tags?: string[];
+  notes?: string;
+  validation: ValidationMode;
+}
+
+export interface UpdateResult {
+  // null when strict validation refused the new content
+  crystal: CrystalData | null;
+  changes: string[];
+  validation: ValidationResult | null;
+  validationNote: string;
+}
+
+export interface ListOptions extends ProvenanceFilters {
+  collapse_superseded?: boolean;
+  tags?: string[];
+  sort_by?: "created_at" | "title" | "tags";
+  order?: "asc" | "desc";
+  trashed?: boolean;
+  // A namespace, or "*" for every namespace
+  namespace?: string;
+}
+
+export interface CrystalListing extends Partial<LineageInfo> {
+  id: string;
+  namespace: string;
+  title: string;
+  spec_version: string;
+  created_at: string;
+  // Estimated tokens of the content (null when locked)
+  tokens: number | null;
+  tags: string[];
+  updated_at?: string;
+  deleted_at?: string;
+  merged_from?: string[];
+  provenance?: CrystalProvenance;
+  encrypted?: boolean;
+  key_id?: string;
+  locked?: boolean;
+}
+
+export interface ListingError extends CatalogueError {
+  namespace: string;
+}
+
+export interface SearchOptions extends SearchFilters {
+  query: string;
+  limit: number;
+}
+
+export interface CreateSpecOptions {
+  kind: ProtocolKind;
+  content: string;
+  // Check and name the file without writing it
+  dry_run?: boolean;
+}
+
+export interface BumpSpecOptions {
+  kind: ProtocolKind;
+  // Filename or query of the file to start from, as for import_crystal_spec / import_codex
+  spec: string;
+  // Explicit new version; otherwise the source version is incremented
+  version?: string;
+  increment?: VersionIncrement;
+  // Sections to replace or add; null removes one
+  sections?: Record<string, unknown>;
+  dry_run?: boolean;
+}
+
+export interface SpecWriteResult {
+  kind: ProtocolKind;
+  filename: string;
+  // Where the file was (or would be) written, for messages
+  path: string;
+  header: ProtocolHeader;
+  warnings: string[];
+  written: boolean;
+}
+
+export interface SpecBumpResult extends SpecWriteResult {
+  source: { filename: string; version: string };
+  // Protocols only: crystals of the old version need a migration rule when the layer model changed
+  layersChanged: boolean;
+}
+
+export interface DeleteResult {
+  id: string;
+  namespace: string;
+  permanent: boolean;
+  // Where a crystal moved to the trash now lives; null when deleted for good
+  trashLocation: string | null;
+}
+
+export type VerifyStatus = "verified" | "failed" | "unsealed" | "locked" | "unreadable";
+
+export interface VerifyEntry {
+  id: string;
+  title?: string;
+  status: VerifyStatus;
+  integrity?: IntegrityReport;
+  error?: string;
+  // Fails verification, or is not signed by a trusted key
+  problem: boolean;
+}
+
+export interface VerifyResult {
+  counts: { verified: number; failed: number; unsealed: number; trusted: number; untrusted: number; unreadable: number };
+  entries: VerifyEntry[];
+  signingKey: SigningKey | null;
+  trustedKeys: number;
+}
+
+export interface RotationOptions {
+  // Key file inside the data root; omitted to re-encrypt with the active key
+  new_key_file?: string;
+  encrypt_plaintext: boolean;
+}
+
+export interface RotationStoreResult {
+  namespace: string | null;
+  store: "store" | "trash" | "backup";
+  backup: string | null;
+  rewritten: string[];
+  current: number;
+  plaintext: string[];
+  locked: string[];
+}
+
+export interface RotationResult {
+  activeKeyId: string | null;
+  previousKeyId: string | null;
+  // Resolved path of new_key_file, for CRYSTAL_ENCRYPTION_KEY_FILE
+  keyFile: string | null;
+  rewritten: number;
+  locked: number;
+  stores: RotationStoreResult[];
+}
+
+export interface MergeOptions {
+  crystal_ids: string[];
+  title?: string;
+  spec_version?: string;
+  // Defaults to the union of the sources' tags
+  tags?: string[];
+  validation: ValidationMode;
+  // Namespace of the sources, where the merged crystal is stored too
+  namespace?: string;
+  provenance?: ProvenanceInput;
+}
+
+export interface MergeResult {
+  // null when strict validation refused the merged content
+  crystal: CrystalData | null;
+  spec_version: string;
+  report: MergeReport;
+  // Sources that had to be migrated to spec_version first
+  migrations: { crystal_id: string; report: MigrationReport }[];
+  validation: ValidationResult | null;
+  validationNote: string;
+}
+
+export interface BundleExportOptions {
+  // Every stored crystal when omitted
+  crystal_ids?: string[];
+  codex_queries?: string[];
+  output_path?: string;
+  allow_plaintext: boolean;
+  namespace?: string;
+}
+
+export interface BundleExportResult {
+  path: string;
+  size: number;
+  manifest: BundleManifest;
+  // Crystals whose spec version no registered protocol declares
+  missingProtocols: string[];
+  // Crystals encrypted at rest that the bundle holds as plaintext
+  decrypted: string[];
+}
+
+export type CollisionPolicy = "skip" | "overwrite" | "reid";
+
+export interface BundleImportOptions {
+  bundle_path: string;
+  on_collision: CollisionPolicy;
+  // Namespace to import the crystals into
+  namespace?: string;
+}
+
+export interface BundleImportResult {
+  manifest: BundleManifest;
+  crystals: { id: string; action: "added" | "overwritten" | "reid" | "skipped"; original_id?: string }[];
+  // Ids that already existed in the store
+  collisions: string[];
+  // kept_local carries the local file's sha256 when it differed from the bundled one before the import
+  dependencies: { path: string; action: "added" | "unchanged" | "kept_local"; localSha256?: string }[];
+}
+
+export interface MigrateOptions {
+  target_version: string;
+  // Every stored crystal when omitted
+  crystal_ids?: string[];
+  dry_run: boolean;
+  namespace?: string;
+}
+
+export interface MigrateEntry {
+  id: string;
+  title: string;
+  status: "migrated" | "current" | "failed";
+  report?: MigrationReport;
+  error?: { code: ToolErrorCode; message: string };
+}
+
+export interface MigrateResult {
+  spec_version: string;
+  entries: MigrateEntry[];
+  migrated: number;
+  failed: number;
+  // Where the originals were kept; null for dry runs and when nothing was migrated
+  backupDir: string | null;
+}
+
+export class CrystalService {
+  readonly config: CrystalConfig;
+  // Namespace of `store`; the other namespaces are opened on demand
+  readonly namespace: string;
+  readonly store: EncryptedCrystalStore;
+  readonly cipher: CrystalCipher;
+  private namespaceStores = new Map<string, EncryptedCrystalStore>();
+  private searchIndex: CrystalSearchIndex | null = null;
+  private protocolMatcher: FileMatcher;
+  private codexMatcher: FileMatcher;
+  private keyring: Promise<{ signingKey: SigningKey | null; trustedKeys: TrustedKey[] }> | null = null;
+  readonly catalogue: CrystalCatalogue;
+
+  constructor(store?: CrystalStore, config: CrystalConfig = loadCrystalConfig(projectRoot)) {
+    this.config = config;
+    this.namespace = config.namespace;
+    this.cipher = this.createCipherFromEnv();
+    this.store = new EncryptedCrystalStore(store ?? this.createStore(namespaceLocation(config, config.namespace)), this.cipher);
+    this.namespaceStores.set(this.namespace, this.store);
+    const matchingConfig = loadMatchingConfig(process.env.CRYSTAL_MATCHING_CONFIG ?? join(projectRoot, "matching.config.json"));
+    this.protocolMatcher = new FileMatcher(matchingConfig.protocol);
+    this.codexMatcher = new FileMatcher(matchingConfig.codex);
+    this.catalogue = new CrystalCatalogue(this.store, {
+      protocol: config.paths.protocols,
+      codex: config.paths.codex
+    });
+    this.catalogue.onChange(change => this.syncSearchIndex(change));
+  }
+
+  // Called with every catalogue change: crystals, protocols or codex files added, changed or removed
+  onChange(listener: (change: CatalogueChange) => void): () => void {
+    return this.catalogue.onChange(listener);
+  }
+
+  // Writes through this service call this so the catalogue (and its subscribers) see them without waiting for the watcher
+  async notifyChanged(ids: string[]): Promise<void> {
+    await this.catalogue.refreshCrystals(ids);
+  }
+
+  // Build the catalogue now and keep it current with filesystem watching (long-running processes only)
+  async watchCatalogue(): Promise<void> {
+    await this.catalogue.ready();
+    this.catalogue.watch();
+  }
+
+  // Keep the search index current without rebuilding it
+  indexCrystal(crystal: CrystalData): void {
+    this.searchIndex?.add(crystal);
+  }
+
+  unindexCrystal(crystalId: string): void {
+    this.searchIndex?.remove(crystalId);
+  }
+
+  // Crystals changed by other processes or by hand reach the search index through the catalogue
+  private async syncSearchIndex(change: CatalogueChange): Promise<void> {
+    if (change.kind !== "crystal" || !this.searchIndex) {
+      return;
+    }
+    for (const crystalId of change.removed) {
+      this.unindexCrystal(crystalId);
+    }
+    for (const crystalId of change.changed) {
+      try {
+        this.indexCrystal(await this.loadCrystal(crystalId));
+      } catch {
+        // Unreadable or locked: keep it out of the index
+        this.unindexCrystal(crystalId);
+      }
+    }
+  }
+
+  async exportCrystal(options: ExportOptions): Promise<ExportResult> {
+    const { title, spec_version, manual_content, transcript_path, transcript, validation, parent_id, supersedes, tags } = options;
+    const namespace = options.namespace ?? this.namespace;
+    const store = this.storeFor(namespace);
+    if (parent_id && supersedes && parent_id !== supersedes) {
+      throw new ToolError("INVALID_ARGUMENT", "parent_id and supersedes must refer to the same crystal");
+    }
+    const provenance = recordProvenance(options.provenance);
+
+    const registry = await this.loadRegistry();
+    const resolvedSpec = spec_version ? registry.resolveSpecVersion(spec_version) : registry.latestVersion();
+    if (!resolvedSpec) {
+      throw new ToolError("UNKNOWN_SPEC_VERSION", `No protocol with a declared version is registered in ${this.describePath(this.config.paths.protocols)}/`);
+    }
+
+    const crystalId = nanoid();
+    let lineage: LineageInfo = { root_id: crystalId, version: 1 };
+    const parentRef = supersedes || parent_id;
+    if (parentRef) {
+      // Lineage stays within one namespace
+      const parent = await store.get(parentRef).catch((error) => {
+        throw error instanceof CrystalNotFoundError
+          ? new ToolError("NOT_FOUND", `Parent crystal not found in namespace ${namespace}: ${parentRef}`, { crystal_id: parentRef, namespace })
+          : error;
+      });
+      lineage = childLineage(parent, Boolean(supersedes));
+    }
+
+    let content: string;
+    let source: ExportResult["source"] = { kind: "manual" };
+    if (manual_content) {
+      content = manual_content;
+    } else {
+      // Extract latest crystal artifact from the conversation transcript
+      const contextArtifact = await this.extractLatestCrystalArtifact({ transcript, transcript_path }, registry.layerModel(resolvedSpec));
+      content = contextArtifact.content;
+      source = { kind: "transcript", location: contextArtifact.location };
+    }
+
+    const saved = await this.saveNewCrystal({
+      id: crystalId,
+      title: title || `${manual_content ? 'Manual' : 'Auto'}_Crystal_${crystalId.slice(0, 8)}`,
+      spec_version: resolvedSpec,
+      created_at: new Date().toISOString(),
+      auto_detected: !manual_content,
+      ...(tags ? { tags } : {}),
+      ...lineage,
+      provenance,
+      content
+    }, registry.layerModel(resolvedSpec), validation, namespace);
+    return { ...saved, source, namespace, store: { kind: store.kind, location: store.location } };
+  }
+
+  async importCrystal(options: ImportOptions): Promise<ImportResult> {
+    if (options.max_tokens !== undefined && (!Number.isInteger(options.max_tokens) || options.max_tokens < 1)) {
+      throw new ToolError("INVALID_ARGUMENT", `Invalid max_tokens: ${options.max_tokens} (expected a positive integer)`);
+    }
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+    if (cursor && options.crystal_id !== cursor.requested && options.crystal_id !== cursor.id) {
+      throw new ToolError("INVALID_ARGUMENT", `Cursor belongs to crystal ${cursor.id}, not ${options.crystal_id}`);
+    }
+
+    const registry = await this.loadRegistry();
+    const targetSpec = cursor ? cursor.spec : options.spec_version ? registry.resolveSpecVersion(options.spec_version) : null;
+    const namespace = cursor?.namespace ?? options.namespace ?? this.namespace;
+    const store = await this.existingStore(namespace);
+    let crystal = await store.get(cursor?.id ?? options.crystal_id);
+    let resolvedFrom: string | null = cursor && cursor.requested !== cursor.id ? cursor.requested : null;
+    if (options.latest && !cursor) {
+      const newest = latestInLineage(await this.crystalMetadata(namespace), options.crystal_id);
+      if (newest && newest.id !== crystal.id) {
+        crystal = await store.get(newest.id);
+        resolvedFrom = options.crystal_id;
+      }
+    }
+
+    const integrity = verifyCrystal(crystal, (await this.getKeyring()).trustedKeys);
+    // Convert to the requested spec; the stored crystal is left as it is
+    const migration = targetSpec && (!cursor || targetSpec !== crystal.spec_version) ? await this.migrateCrystal(crystal, targetSpec) : null;
+    const spec = targetSpec ?? crystal.spec_version;
+    const layerModel = registry.layerModel(spec);
+
+    let content = migration ? migration.content : crystal.content;
+    const indices = cursor ? cursor.layers : options.layers && options.layers.length > 0 ? resolveLayerRefs(options.layers, layerModel) : null;
+    let missingLayers: string[] = [];
+    if (indices) {
+      const selected = selectLayers(content, layerModel, indices);
+      content = selected.content;
+      missingLayers = selected.missing.map(layerKey);
+    }
+
+    let page: ImportPage | null = null;
+    if (options.max_tokens !== undefined || cursor) {
+      const fingerprint = contentFingerprint(content);
+      if (cursor && cursor.fingerprint !== fingerprint) {
+        throw new ToolError("CONFLICT", `Crystal ${crystal.id} changed since the cursor was issued; import it again without a cursor`, { crystal_id: crystal.id });
+      }
+      const next = (offset: number | null) => offset === null ? null : encodeCursor({
+        id: crystal.id,
+        requested: cursor?.requested ?? options.crystal_id,
+        namespace,
+        spec,
+        layers: indices,
+        offset,
+        fingerprint
+      });
+      const budget = options.max_tokens ?? Number.POSITIVE_INFINITY;
+      const totalTokens = estimateTokens(content);
+      if (!cursor && options.strategy === "summary" && totalTokens > budget) {
+        // Too large: describe the layers instead, and let the cursor page through the full text
+        const outline = pageText(outlineCrystal(content, layerModel), 0, budget);
+        page = { strategy: "summary", offset: 0, tokens: outline.tokens, totalTokens, nextCursor: next(0) };
+        content = outline.text;
+      } else {
+        const text = pageText(content, cursor?.offset ?? 0, budget);
+        page = { strategy: "truncate", offset: text.offset, tokens: text.tokens, totalTokens, nextCursor: next(text.nextOffset) };
+        content = text.text;
+      }
+    }
+
+    return {
+      crystal,
+      namespace,
+      resolvedFrom,
+      spec_version: spec,
+      integrity,
+      migration,
+      layers: indices ? layerModel.filter(layer => indices.includes(layer.index)).map(layerKey) : null,
+      missingLayers,
+      page,
+      content
+    };
+  }
+
+  // Edit metadata, tags or content in place; the id and lineage stay the same
+  async updateCrystal(options: UpdateOptions): Promise<UpdateResult> {
+    const { crystal_id, title, content, tags, add_tags, remove_tags, notes, validation } = options;
+    if ([title, content, tags, add_tags, remove_tags, notes].every(value => value === undefined)) {
+      throw new ToolError("INVALID_ARGUMENT", "Nothing to update: provide title, content, tags, add_tags, remove_tags or notes");
+    }
+
+    const crystalData = await this.loadCrystal(crystal_id);
+    const changes: string[] = [];
+    let validationResult: ValidationResult | null = null;
+    let validationNote = '';
+
+    if (content !== undefined) {
+      const layerModel = (await this.loadRegistry()).layerModel(crystalData.spec_version);
+      validationResult = validation !== "off" ? validateCrystal(content, layerModel) : null;
+      validationNote = validationResult && validationResult.issues.length > 0 ? formatValidationReport(validationResult) : '';
+      if (validationResult && !validationResult.valid && validation === "strict") {
+        return { crystal: null, changes, validation: validationResult, validationNote };
+      }
+      changes.push(`content (${crystalData.content.length} → ${content.length} chars)`);
+    }
+
+    let nextTags = this.normalizeTags(tags ?? crystalData.tags ?? []);
+    if (add_tags) {
+      nextTags = this.normalizeTags([...nextTags, ...add_tags]);
+    }
+    if (remove_tags) {
+      const removed = new Set(remove_tags.map(tag => tag.trim().toLowerCase()));
+      nextTags = nextTags.filter(tag => !removed.has(tag.toLowerCase()));
+    }
+    if (tags || add_tags || remove_tags) {
+      changes.push(nextTags.length > 0 ? `tags [${nextTags.join(', ')}]` : 'tags cleared');
+    }
+    if (title !== undefined) {
+      changes.push(`title "${crystalData.title}" → "${title}"`);
+    }
+    if (notes !== undefined) {
+      changes.push(notes ? 'notes' : 'notes cleared');
+    }
+
+    let updated: CrystalData = {
+      ...crystalData,
+      title: title ?? crystalData.title,
+      content: content ?? crystalData.content,
+      tags: nextTags.length > 0 ? nextTags : undefined,
+      notes: notes === undefined ? crystalData.notes : notes || undefined,
+      updated_at: new Date().toISOString()
+    };
+    // New content needs a new hash and signature; metadata edits keep the original seal
+    if (content !== undefined) {
+      updated = await this.sealCrystal(updated);
+    }
+    await this.store.put(updated);
+    this.indexCrystal(updated);
+    await this.notifyChanged([updated.id]);
+    return { crystal: updated, changes, validation: validationResult, validationNote };
+  }
+
+  // Move a crystal to the trash of its namespace, or delete it (or its trashed copy) for good
+  async deleteCrystal(crystalId: string, permanent: boolean, namespace: string = this.namespace): Promise<DeleteResult> {
+    const store = await this.existingStore(namespace);
+    const trash = store.trash();
+    if (await store.has(crystalId)) {
+      if (!permanent) {
+        // Copy into the trash before removing, so a failure never loses the crystal
+        const crystalData = await store.get(crystalId);
+        await trash.put({ ...crystalData, deleted_at: new Date().toISOString() });
+      }
+      await store.delete(crystalId);
+    } else if (permanent && await trash.has(crystalId)) {
+      await trash.delete(crystalId);
+    } else {
+      throw new CrystalNotFoundError(crystalId);
+    }
+
+    if (store === this.store) {
+      this.unindexCrystal(crystalId);
+      await this.notifyChanged([crystalId]);
+    }
+    return { id: crystalId, namespace, permanent, trashLocation: permanent ? null : trash.location };
+  }
+
+  async restoreCrystal(crystalId: string, namespace: string = this.namespace): Promise<{ crystal: CrystalData; deletedAt: string | null }> {
+    const store = await this.existingStore(namespace);
+    const trash = store.trash();
+    const { deleted_at, ...crystalData } = await trash.get(crystalId).catch((error) => {
+      throw error instanceof CrystalNotFoundError
+        ? new ToolError("NOT_FOUND", `Crystal not in the trash: ${crystalId}`, { crystal_id: crystalId })
+        : error;
+    });
+    if (await store.has(crystalId)) {
+      throw new ToolError("CONFLICT", `A crystal with id ${crystalId} already exists; delete it before restoring`, { crystal_id: crystalId });
+    }
+
+    await store.put(crystalData);
+    await trash.delete(crystalId);
+    if (store === this.store) {
+      this.indexCrystal(crystalData);
+      await this.notifyChanged([crystalId]);
+    }
+    return { crystal: crystalData, deletedAt: deleted_at ?? null };
+  }
+
+  // Check content hashes and signatures of the given crystals, or of every crystal in the namespace
+  async verifyCrystals(crystalIds?: string[], namespace: string = this.namespace): Promise<VerifyResult> {
+    const { signingKey, trustedKeys } = await this.getKeyring();
+    const store = await this.existingStore(namespace);
+    const stored: StoredCrystal[] = crystalIds && crystalIds.length > 0
+      ? await Promise.all(crystalIds.map(async id => {
+          const data = await store.get(id);
+          return { id, data, size: data.content.length };
+        }))
+      : await store.list();
+
+    const counts = { verified: 0, failed: 0, unsealed: 0, trusted: 0, untrusted: 0, unreadable: 0 };
+    const entries: VerifyEntry[] = [];
+    for (const { id, data, error, encryption } of stored) {
+      if (!data) {
+        counts.unreadable++;
+        entries.push({ id, status: "unreadable", error: error ?? 'parse error', problem: true });
+        continue;
+      }
+      if (encryption?.locked) {
+        counts.unreadable++;
+        entries.push({ id, title: data.title, status: "locked", error: `encrypted with key ${encryption.keyId}, which is not configured`, problem: true });
+        continue;
+      }
+      const report = verifyCrystal(data, trustedKeys);
+      const status = !report.ok ? "failed" : report.content === "missing" ? "unsealed" : "verified";
+      counts[status]++;
+      if (report.signature === "trusted") {
+        counts.trusted++;
+      } else if (report.signature === "untrusted") {
+        counts.untrusted++;
+      }
+      entries.push({ id, title: data.title, status, integrity: report, problem: !report.ok || report.signature !== "trusted" });
+    }
+    return { counts, entries, signingKey, trustedKeys: trustedKeys.length };
+  }
+
+  /**
+   * Switch to a new active key (if given) and rewrite every namespace, its
+   * trash and the migration backups under it. Crystals whose key is not
+   * configured are reported as locked and left as they are.
+   */
+  async rotateEncryptionKey(options: RotationOptions): Promise<RotationResult> {
+    const previousKeyId = this.cipher.activeKeyId;
+    const keyFile = options.new_key_file ? this.getSafePath(options.new_key_file) : null;
+    if (keyFile) {
+      this.cipher.rotate(loadEncryptionKey(keyFile));
+    } else if (!previousKeyId) {
+      throw new ToolError("INVALID_ARGUMENT", "No encryption key configured: set CRYSTAL_ENCRYPTION_KEY or CRYSTAL_ENCRYPTION_KEY_FILE, or pass new_key_file");
+    }
+
+    // Every namespace with its trash, then the originals kept by migrate_crystals
+    const targets: { namespace: string | null; store: "store" | "trash" | "backup"; backup: string | null; crystals: EncryptedCrystalStore }[] = [];
+    for (const namespace of await this.listNamespaces()) {
+      const store = this.storeFor(namespace);
+      targets.push({ namespace, store: "store", backup: null, crystals: store });
+      targets.push({ namespace, store: "trash", backup: null, crystals: store.trash() });
+    }
+    for (const backup of await this.listBackups()) {
+      targets.push({ namespace: null, store: "backup", backup, crystals: this.backupStore(backup) });
+    }
+
+    const stores: RotationStoreResult[] = [];
+    for (const { crystals, ...target } of targets) {
+      stores.push({ ...target, ...await crystals.reencrypt(options.encrypt_plaintext) });
+    }
+    return {
+      activeKeyId: this.cipher.activeKeyId,
+      previousKeyId,
+      keyFile,
+      rewritten: stores.reduce((sum, store) => sum + store.rewritten.length, 0),
+      locked: stores.reduce((sum, store) => sum + store.locked.length, 0),
+      stores
+    };
+  }
+
+  // Combine crystals (migrated to one spec version first) into a new crystal that records where it came from
+  async mergeCrystals(options: MergeOptions): Promise<MergeResult> {
+    const namespace = options.namespace ?? this.namespace;
+    const ids = [...new Set(options.crystal_ids)];
+    if (ids.length < 2) {
+      throw new ToolError("INVALID_ARGUMENT", "Provide at least two different crystal ids to merge");
+    }
+
+    const registry = await this.loadRegistry();
+    const targetSpec = options.spec_version ? registry.resolveSpecVersion(options.spec_version) : registry.latestVersion();
+    if (!targetSpec) {
+      throw new ToolError("UNKNOWN_SPEC_VERSION", `No protocol with a declared version is registered in ${this.describePath(this.config.paths.protocols)}/`);
+    }
+
+    const sources: MergeSource[] = [];
+    const migrations: MergeResult["migrations"] = [];
+    for (const id of ids) {
+      const crystal = await this.loadCrystal(id, namespace);
+      const migration = await this.migrateCrystal(crystal, targetSpec);
+      if (migration.report.path.length > 0) {
+        migrations.push({ crystal_id: id, report: migration.report });
+      }
+      sources.push({ crystal, content: migration.content });
+    }
+
+    const { content, report } = mergeCrystals(sources, registry.layerModel(targetSpec));
+    const crystalId = nanoid();
+    const conflictNotes = report.conflicts.map(conflict => `${conflict.key}: ${conflict.variants.map(variant => `"${variant.text}" (${variant.crystalId})`).join(' vs ')}`);
+    const saved = await this.saveNewCrystal({
+      id: crystalId,
+      title: options.title || `Merged_Crystal_${crystalId.slice(0, 8)}`,
+      spec_version: targetSpec,
+      created_at: new Date().toISOString(),
+      auto_detected: false,
+      tags: options.tags ?? report.sources.flatMap(id => sources.find(source => source.crystal.id === id)?.crystal.tags ?? []),
+      ...(conflictNotes.length > 0 ? { notes: `Conflicting invariants (latest kept):\n${conflictNotes.join('\n')}` } : {}),
+      root_id: crystalId,
+      version: 1,
+      merged_from: report.sources,
+      provenance: recordProvenance(options.provenance),
+      content
+    }, registry.layerModel(targetSpec), options.validation, namespace);
+    return { ...saved, spec_version: targetSpec, report, migrations };
+  }
+
+  /**
+   * Write crystals with the protocol and codex files they depend on to a
+   * bundle archive. Crystals encrypted at rest are only bundled (as
+   * plaintext) with `allow_plaintext`.
+   */
+  async exportBundle(options: BundleExportOptions): Promise<BundleExportResult> {
+    const { crystal_ids, codex_queries, output_path, allow_plaintext } = options;
+    const namespace = options.namespace ?? this.namespace;
+    const store = await this.existingStore(namespace);
+    const crystals = crystal_ids && crystal_ids.length > 0
+      ? await Promise.all(crystal_ids.map(id => store.get(id)))
+      : await this.readAllCrystals(namespace);
+    if (crystals.length === 0) {
+      throw new ToolError("NOT_FOUND", "No crystals to bundle");
+    }
+
+    const catalogued = store === this.store ? await this.catalogue.crystals() : catalogueCrystals(await store.list()).entries;
+    const encryptedIds = new Set(catalogued.filter(entry => entry.encryption).map(entry => entry.id));
+    const decrypted = crystals.filter(crystal => encryptedIds.has(crystal.id)).map(crystal => crystal.id);
+    if (decrypted.length > 0 && !allow_plaintext) {
+      throw new ToolError("INVALID_ARGUMENT", `${decrypted.length} crystal(s) are encrypted at rest and would be written to the bundle as plaintext; pass allow_plaintext: true to bundle them anyway`, { encrypted: decrypted });
+    }
+
+    const registry = await this.loadRegistry();
+    const codexFiles = registry.list("codex").map(entry => entry.filename);
+    const extraCodex = await Promise.all((codex_queries ?? []).map(async query => {
+      const matchResult = await this.resolveSpec("codex", query);
+      if (!matchResult.match) {
+        throw new ToolError("NO_MATCH", `No matching codex found for query: "${query}"`, { query, candidates: matchResult.candidates });
+      }
+      return matchResult.match;
+    }));
+
+    const missingProtocols: string[] = [];
+    const bundled: { crystal: CrystalData; dependencies: CrystalDependencies }[] = [];
+    for (const crystal of crystals) {
+      const protocol = await this.resolveSpec("protocol", crystal.spec_version);
+      if (!protocol.match) {
+        missingProtocols.push(crystal.id);
+      }
+
+      // Codex files the crystal names explicitly, e.g. "MECHANISM_AWARENESS_2.0"
+      const referenced = codexFiles.filter(f => crystal.content.includes(f.replace(/\.cx$/, '')));
+      const codexNames = [...new Set([...referenced, ...extraCodex])];
+      const codex = await Promise.all(codexNames.map(async filename => ({
+        filename,
+        content: await readFile(resolveWithin(this.config.paths.codex, filename), 'utf-8')
+      })));
+
+      bundled.push({
+        crystal,
+        dependencies: {
+          protocol: protocol.match && protocol.content !== null ? { filename: protocol.match, content: protocol.content } : null,
+          codex
+        }
+      });
+    }
+
+    const { archive, manifest } = createBundle(bundled);
+    const bundlePath = this.getSafePath(output_path || `bundles/bundle-${manifest.created_at.replace(/[:.]/g, '-')}${BUNDLE_EXTENSION}`);
+    await mkdir(dirname(bundlePath), { recursive: true });
+    await writeFileAtomic(bundlePath, archive);
+    return { path: this.describePath(bundlePath), size: archive.length, manifest, missingProtocols, decrypted };
+  }
+
+  /**
+   * Import a bundle after checking every file in it. Protocol and codex
+   * versions are immutable, so a local file with other content is kept;
+   * crystal id collisions follow `on_collision`.
+   */
+  async importBundle(options: BundleImportOptions): Promise<BundleImportResult> {
+    const { on_collision } = options;
+    const store = this.storeFor(options.namespace ?? this.namespace);
+    const bundle = openBundle(await readFile(this.getSafePath(options.bundle_path)));
+    const dependencies: BundleImportResult["dependencies"] = [];
+    const imported: BundleImportResult["crystals"] = [];
+
+    // Check every file before writing any, so a bad entry never leaves a partial import
+    for (const crystal of bundle.crystals) {
+      if (!isCrystalId(crystal.id)) {
+        throw new InvalidBundleError(`Invalid bundle: invalid crystal id ${crystal.id}`);
+      }
+    }
+    const dependencyDirs: [Map<string, string>, string, string][] = [
+      [bundle.protocols, this.config.paths.protocols, '.cp'],
+      [bundle.codex, this.config.paths.codex, '.cx']
+    ];
+    const newFiles: { target: string; path: string; content: string }[] = [];
+    for (const [files, directory, extension] of dependencyDirs) {
+      const dir = this.describePath(directory);
+      for (const [filename, content] of files) {
+        if (filename.includes('/') || !filename.endsWith(extension)) {
+          throw new InvalidBundleError(`Invalid bundle: unexpected file ${dir}/${filename}`);
+        }
+        const target = resolveWithin(directory, filename);
+        const existing = await readFile(target, 'utf-8').catch(() => null);
+        if (existing === content) {
+          dependencies.push({ path: `${dir}/${filename}`, action: "unchanged" });
+        } else if (existing !== null) {
+          dependencies.push({ path: `${dir}/${filename}`, action: "kept_local", localSha256: sha256(existing) });
+        } else {
+          newFiles.push({ target, path: `${dir}/${filename}`, content });
+        }
+      }
+    }
+
+    const colliding = new Set<string>();
+    for (const crystal of bundle.crystals) {
+      if (await store.has(crystal.id)) {
+        colliding.add(crystal.id);
+      }
+    }
+
+    let crystals = bundle.crystals;
+    let idMap = new Map<string, string>();
+    if (on_collision === "skip") {
+      crystals = crystals.filter(crystal => !colliding.has(crystal.id));
+      imported.push(...[...colliding].map(id => ({ id, action: "skipped" as const })));
+    } else if (on_collision === "reid") {
+      ({ crystals, idMap } = reidCrystals(crystals, colliding, () => nanoid()));
+    }
+
+    for (const file of newFiles) {
+      await mkdir(dirname(file.target), { recursive: true });
+      try {
+        await writeNewFileAtomic(file.target, file.content);
+        dependencies.push({ path: file.path, action: "added" });
+      } catch (error) {
+        // Written by someone else since the check; theirs stays
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        dependencies.push({ path: file.path, action: "kept_local" });
+      }
+    }
+    if (newFiles.length > 0) {
+      await this.catalogue.refreshSpecs();
+    }
+
+    for (const crystal of crystals) {
+      await store.put(crystal);
+      if (store === this.store) {
+        this.indexCrystal(crystal);
+      }
+      const original = [...idMap].find(([, newId]) => newId === crystal.id)?.[0];
+      imported.push(original
+        ? { id: crystal.id, action: "reid", original_id: original }
+        : { id: crystal.id, action: colliding.has(crystal.id) ? "overwritten" : "added" });
+    }
+    if (crystals.length > 0 && store === this.store) {
+      await this.notifyChanged(crystals.map(crystal => crystal.id));
+    }
+    return { manifest: bundle.manifest, crystals: imported, collisions: [...colliding], dependencies };
+  }
+
+  /**
+   * Rewrite stored crystals in another spec version. The original of every
+   * migrated crystal is kept in a backup store for this run first; a crystal
+   * that cannot be migrated is reported and left as it is.
+   */
+  async migrateCrystals(options: MigrateOptions): Promise<MigrateResult> {
+    const { crystal_ids, dry_run } = options;
+    const namespace = options.namespace ?? this.namespace;
+    const store = await this.existingStore(namespace);
+    const targetSpec = (await this.loadRegistry()).resolveSpecVersion(options.target_version);
+    const crystals = crystal_ids && crystal_ids.length > 0
+      ? await Promise.all(crystal_ids.map(id => store.get(id)))
+      : await this.readAllCrystals(namespace);
+
+    const backupRun = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupStore = this.backupStore(backupRun);
+    const entries: MigrateEntry[] = [];
+    for (const crystal of crystals) {
+      let result: MigrationResult;
+      try {
+        result = await this.migrateCrystal(crystal, targetSpec);
+      } catch (error) {
+        entries.push({ id: crystal.id, title: crystal.title, status: "failed", error: { code: errorCodeOf(error), message: error instanceof Error ? error.message : 'Unknown error' } });
+        continue;
+      }
+      if (result.report.path.length === 0) {
+        entries.push({ id: crystal.id, title: crystal.title, status: "current" });
+        continue;
+      }
+
+      if (!dry_run) {
+        // Keep the original next to the other backups of this run before rewriting it, encrypted like the store
+        await backupStore.put(crystal);
+        const upgraded = await this.sealCrystal({
+          ...crystal,
+          spec_version: targetSpec,
+          content: result.content,
+          migrated_from: crystal.spec_version,
+          migrated_at: new Date().toISOString()
+        });
+        await store.put(upgraded);
+        if (store === this.store) {
+          this.indexCrystal(upgraded);
+        }
+      }
+      entries.push({ id: crystal.id, title: crystal.title, status: "migrated", report: result.report });
+    }
+
+    const migratedIds = entries.filter(entry => entry.status === "migrated").map(entry => entry.id);
+    if (migratedIds.length > 0 && !dry_run && store === this.store) {
+      await this.notifyChanged(migratedIds);
+    }
+    return {
+      spec_version: targetSpec,
+      entries,
+      migrated: migratedIds.length,
+      failed: entries.filter(entry => entry.status === "failed").length,
+      backupDir: migratedIds.length > 0 && !dry_run ? this.describePath(join(this.config.paths.backups, backupRun)) : null
+    };
+  }
+
+  // Stored crystals of the default namespace come from the catalogue; other namespaces and the trash are read on demand
+  async listCrystals(options: ListOptions = {}): Promise<{ crystals: CrystalListing[]; errors: ListingError[] }> {
+    const { collapse_superseded, tags, sort_by, order, trashed } = options;
+    checkProvenanceFilters(options);
+    const namespaces = options.namespace === "*" ? await this.listNamespaces() : [options.namespace ?? this.namespace];
+    const entries: (CatalogueCrystal & { namespace: string })[] = [];
+    const errors: ListingError[] = [];
+    for (const namespace of namespaces) {
+      const store = await this.existingStore(namespace);
+      const catalogued = trashed
+        ? catalogueCrystals(await store.trash().list())
+        : store === this.store
+          ? { entries: await this.catalogue.crystals(), errors: await this.catalogue.errors() }
+          : catalogueCrystals(await store.list());
+      entries.push(...catalogued.entries.map(entry => ({ ...entry, namespace })));
+      errors.push(...catalogued.errors.map(error => ({ ...error, namespace })));
+    }
+
+    let crystals: CrystalListing[] = entries.map(({ id, namespace, metadata, tokens, encryption }) => ({
+      id,
+      namespace,
+      title: metadata.title || 'Untitled',
+      spec_version: metadata.spec_version || 'Unknown',
+      created_at: metadata.created_at || 'Unknown',
+      tokens,
+      tags: metadata.tags ?? [],
+      ...(metadata.updated_at ? { updated_at: metadata.updated_at } : {}),
+      ...(metadata.deleted_at ? { deleted_at: metadata.deleted_at } : {}),
+      ...(metadata.merged_from ? { merged_from: metadata.merged_from } : {}),
+      ...(metadata.provenance ? { provenance: metadata.provenance } : {}),
+      ...(encryption ? { encrypted: true, key_id: encryption.keyId, ...(encryption.locked ? { locked: true } : {}) } : {}),
+      ...lineageOf(metadata)
+    }));
+
+    if (collapse_superseded) {
+      const superseded = new Set(namespaces.flatMap(namespace =>
+        [...supersededIds(entries.filter(entry => entry.namespace === namespace).map(entry => entry.metadata))].map(id => `${namespace}/${id}`)
+      ));
+      crystals = crystals.filter(crystal => !superseded.has(`${crystal.namespace}/${crystal.id}`));
+    }
+
+    if (tags && tags.length > 0) {
+      const wanted = tags.map(tag => tag.trim().toLowerCase());
+      crystals = crystals.filter(crystal => {
+        const crystalTags = new Set(crystal.tags.map(tag => tag.toLowerCase()));
+        return wanted.every(tag => crystalTags.has(tag));
+      });
+    }
+    crystals = crystals.filter(crystal => matchesProvenance(crystal.provenance, options));
+
+    if (sort_by) {
+      const sortKey = (crystal: CrystalListing) => sort_by === "tags"
+        ? [...crystal.tags].map(tag => tag.toLowerCase()).sort().join(',')
+        : String(crystal[sort_by]).toLowerCase();
+      const direction = order === "desc" ? -1 : 1;
+      crystals.sort((a, b) => direction * sortKey(a).localeCompare(sortKey(b)));
+    }
+    return { crystals, errors };
+  }
+
+  async searchCrystals(options: SearchOptions): Promise<{ hits: SearchHit[]; indexed: number }> {
+    const { query, limit, ...filters } = options;
+    checkProvenanceFilters(filters);
+    for (const date of [filters.created_after, filters.created_before]) {
+      if (date && Number.isNaN(Date.parse(date))) {
+        throw new ToolError("INVALID_ARGUMENT", `Invalid date: ${date}`);
+      }
+    }
+
+    const index = await this.getSearchIndex();
+    return { hits: index.search(query, filters, limit), indexed: index.size };
+  }
+
+  // Resolve a protocol or codex query the same way import_crystal_spec and import_codex do
+  async resolveSpec(kind: ProtocolKind, query: string): Promise<SpecLookup> {
+    const registry = await this.loadRegistry();
+    const files = registry.list(kind).map(entry => entry.filename);
+    const matcher = kind === "protocol" ? this.protocolMatcher : this.codexMatcher;
+    const matchResult = matcher.match(query, registry.matchCandidates(kind));
+    const content = matchResult.match ? registry.get(kind, matchResult.match)!.content : null;
+    return { ...matchResult, files, content };
+  }
+
+  async requireProtocol(query: string): Promise<{ match: string; content: string }> {
+    const protocol = await this.resolveSpec("protocol", query);
+    if (!protocol.match || protocol.content === null) {
+      throw new ToolError("NO_MATCH", `No matching crystal specification found for query: "${query}"`, { query });
+    }
+    return { match: protocol.match, content: protocol.content };
+  }
+
+  // Protocols and codex as declared by their in-file headers, from the catalogue
+  async loadRegistry(): Promise<ProtocolRegistry> {
+    return this.catalogue.registry();
+  }
+
+  /**
+   * Write a new protocol or codex file after checking its header and
+   * sections. The file is named after the header; a version that is already
+   * registered (for protocols: by any protocol, since spec_version names
+   * exactly one) is refused with CONFLICT.
+   */
+  async createSpec(options: CreateSpecOptions): Promise<SpecWriteResult> {
+    const { kind, content } = options;
+    const check = checkSpecContent(kind, content);
+    if (!check.header || check.errors.length > 0) {
+      throw new ToolError("INVALID_FORMAT", `${kind === "protocol" ? "Protocol" : "Codex"} refused: ${check.errors.join('; ')}`, { errors: check.errors, warnings: check.warnings });
+    }
+    const header = check.header;
+    const version = normalizeVersion(header.version!);
+    const registered = (await this.loadRegistry()).list(kind).find(entry => entry.version && normalizeVersion(entry.version) === version
+      && (kind === "protocol" || entry.name.toUpperCase() === header.name.toUpperCase()));
+    if (registered) {
+      throw new ToolError("CONFLICT", `${kind === "protocol" ? "Protocol" : "Codex"} version ${header.version} is already registered by ${registered.filename}; publish a new version instead`, { filename: registered.filename, version: registered.version });
+    }
+
+    const filename = canonicalFilename(kind, header);
+    const directory = kind === "protocol" ? this.config.paths.protocols : this.config.paths.codex;
+    const path = join(directory, filename);
+    if (!options.dry_run) {
+      await mkdir(directory, { recursive: true });
+      try {
+        await writeNewFileAtomic(path, content);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          throw new ToolError("CONFLICT", `${this.describePath(path)} already exists`, { filename });
+        }
+        throw error;
+      }
+      await this.catalogue.refreshSpecs();
+    }
+    return { kind, filename, path: this.describePath(path), header, warnings: check.warnings, written: !options.dry_run };
+  }
+
+  // Publish the next version of a registered protocol or codex file, optionally with changed sections
+  async bumpSpec(options: BumpSpecOptions): Promise<SpecBumpResult> {
+    const { kind, spec } = options;
+    const registry = await this.loadRegistry();
+    let source = registry.get(kind, spec);
+    if (!source) {
+      const lookup = await this.resolveSpec(kind, spec);
+      if (!lookup.match) {
+        throw new ToolError("NO_MATCH", `No matching ${kind} found for query: "${spec}"`, { query: spec, available: lookup.files });
+      }
+      source = registry.get(kind, lookup.match)!;
+    }
+    if (!source.declared || !source.version) {
+      throw new ToolError("INVALID_FORMAT", `${source.filename} declares no versioned ⟨⟨NAME_vX.Y⟩⟩ header to bump`, { filename: source.filename });
+    }
+
+    const version = options.version?.trim().replace(/^v/i, '') ?? incrementVersion(source.version, options.increment ?? "minor");
+    if (!/^\d+(\.\d+)*$/.test(version)) {
+      throw new ToolError("INVALID_ARGUMENT", `Invalid version: ${options.version} (expected e.g. 2.1)`);
+    }
+    if (compareVersions(parseVersion(version), parseVersion(source.version)) <= 0) {
+      throw new ToolError("INVALID_ARGUMENT", `Version ${version} is not newer than ${source.filename} (v${source.version})`, { version, current: source.version });
+    }
+
+    const written = await this.createSpec({ kind, content: bumpSpecContent(source.content, version, options.sections), dry_run: options.dry_run });
+    const layerNames = (layers: { index: number; name: string }[]) => layers.map(layer => `${layer.index}:${layer.name}`).join(',');
+    return {
+      ...written,
+      source: { filename: source.filename, version: source.version },
+      layersChanged: kind === "protocol" && layerNames(source.layers) !== layerNames(written.header.layers)
+    };
+  }
+
+  // Migrate crystal content to a registered spec version along the declared migration rules
+  async migrateCrystal(crystal: CrystalData, targetSpec: string): Promise<MigrationResult> {
+    const registry = await this.loadRegistry();
+    const rules = await loadMigrationRules(this.config.paths.migrations);
+    const path = findMigrationPath(rules, crystal.spec_version, targetSpec);
+    if (!path) {
+      throw new ToolError("NO_MIGRATION_PATH", `No migration path from spec ${crystal.spec_version} to ${targetSpec} (rules are read from ${this.describePath(this.config.paths.migrations)}/)`, { from: crystal.spec_version, to: targetSpec });
+    }
+    return migrateCrystalContent(crystal.content, crystal.spec_version, targetSpec, path, version => registry.layerModel(version));
+  }
+
+  // Find the most recent valid crystal in a transcript given inline or as a file
+  async extractLatestCrystalArtifact(
+    source: { transcript?: string; transcript_path?: string },
+    layerModel: LayerDefinition[]
+  ): Promise<{ content: string; location: string }> {
+    if (source.transcript === undefined && !source.transcript_path) {
+      throw new ToolError("INVALID_ARGUMENT", "No crystal artifact to export: provide manual_content, or a transcript or transcript_path to detect the latest crystal from");
+    }
+    const messages = source.transcript !== undefined
+      ? parseTranscript(source.transcript)
+      : await loadTranscript(this.getSafePath(source.transcript_path!));
+    const origin = source.transcript !== undefined ? 'transcript' : source.transcript_path!;
+
+    const scan = findLatestCrystal(messages, layerModel);
+    if (!scan.found) {
+      const rejected = scan.rejected.map(({ candidate, reason }) => `- ${describeCandidateLocation(candidate, scan.messages)}: ${reason}`);
+      throw new ToolError("NO_MATCH", `No valid crystal artifact found in ${origin} (${scan.messages} messages scanned)${rejected.length > 0 ? `\n\nCandidates that failed validation:\n${rejected.join('\n')}` : ''}`, {
+        messages: scan.messages,
+        rejected: scan.rejected.map(({ candidate, reason }) => ({ location: describeCandidateLocation(candidate, scan.messages), reason }))
+      });
+    }
+    return { content: scan.found.content, location: `${describeCandidateLocation(scan.found, scan.messages)} of ${origin}` };
+  }
+
+  // Signing key from CRYSTAL_SIGNING_KEY_FILE and trusted keys from CRYSTAL_TRUSTED_KEYS_FILE, loaded once
+  getKeyring(): Promise<{ signingKey: SigningKey | null; trustedKeys: TrustedKey[] }> {
+    this.keyring ??= (async () => {
+      const signingKeyFile = process.env.CRYSTAL_SIGNING_KEY_FILE;
+      const signingKey = signingKeyFile ? await loadSigningKey(resolve(projectRoot, signingKeyFile)) : null;
+      const trustedKeys = await loadTrustedKeys(resolve(projectRoot, process.env.CRYSTAL_TRUSTED_KEYS_FILE || "trusted-keys.json"));
+      // The local key is always trusted
+      if (signingKey && !trustedKeys.some(key => key.keyId === signingKey.keyId)) {
+        trustedKeys.push({ name: "local", keyId: signingKey.keyId, publicKey: signingKey.publicKey });
+      }
+      return { signingKey, trustedKeys };
+    })();
+    this.keyring.catch(() => {
+      this.keyring = null;
+    });
+    return this.keyring;
+  }
+
+  async sealCrystal(crystal: CrystalData): Promise<CrystalData> {
+    return sealCrystal(crystal, (await this.getKeyring()).signingKey);
+  }
+
+  /**
+   * The write path shared by export_crystal and merge_crystals: validate
+   * against the layer model, normalize tags, seal, store, index and notify.
+   * Only the default namespace is indexed and announced.
+   * Returns no crystal when strict validation refuses the content.
+   */
+  async saveNewCrystal(
+    crystal: CrystalData,
+    layerModel: LayerDefinition[],
+    validation: ValidationMode,
+    namespace: string = this.namespace
+  ): Promise<{ crystal: CrystalData | null; validation: ValidationResult | null; validationNote: string }> {
+    const validationResult = validation !== "off" ? validateCrystal(crystal.content, layerModel) : null;
+    const validationNote = validationResult && validationResult.issues.length > 0 ? formatValidationReport(validationResult) : '';
+    if (validationResult && !validationResult.valid && validation === "strict") {
+      return { crystal: null, validation: validationResult, validationNote };
+    }
+
+    const crystalTags = this.normalizeTags(crystal.tags ?? []);
+    const { tags: _tags, ...untagged } = crystal;
+    const crystalData = await this.sealCrystal(crystalTags.length > 0 ? { ...crystal, tags: crystalTags } : untagged);
+    const store = this.storeFor(namespace);
+    await store.put(crystalData);
+    if (store === this.store) {
+      this.indexCrystal(crystalData);
+      // Let subscribers (e.g. crystal://{id} resource listeners) know there is a new entry
+      await this.notifyChanged([crystalData.id]);
+    }
+    return { crystal: crystalData, validation: validationResult, validationNote };
+  }
+
+  protectionOf(crystal: CrystalData): { content_hash: string; signed_with: string | null; encrypted_with: string | null } {
+    return {
+      content_hash: crystal.integrity!.content_hash,
+      signed_with: crystal.integrity!.signature?.key_id ?? null,
+      encrypted_with: this.cipher.activeKeyId
+    };
+  }
+
+  // Trim, drop empty and de-duplicate tags case-insensitively, keeping the first spelling
+  normalizeTags(tags: string[]): string[] {
+    const seen = new Set<string>();
+    return tags.map(tag => tag.trim()).filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  async loadCrystal(crystalId: string, namespace: string = this.namespace): Promise<CrystalData> {
+    return (await this.existingStore(namespace)).get(crystalId);
+  }
+
+  // Build the search index on first use; writes through this service keep it current afterwards
+  async getSearchIndex(): Promise<CrystalSearchIndex> {
+    if (!this.searchIndex) {
+      const index = new CrystalSearchIndex();
+      for (const crystal of await this.readAllCrystals()) {
+        index.add(crystal);
+      }
+      this.searchIndex = index;
+    }
+    return this.searchIndex;
+  }
+
+  // Load every crystal of a namespace, skipping entries that cannot be parsed or decrypted
+  async readAllCrystals(namespace: string = this.namespace): Promise<CrystalData[]> {
+    const crystals = await (await this.existingStore(namespace)).list();
+    return crystals
+      .filter(crystal => !crystal.encryption?.locked)
+      .map(crystal => crystal.data)
+      .filter((data): data is CrystalData => data !== null);
+  }
+
+  // Metadata of every readable stored crystal, from the catalogue for the default namespace
+  async crystalMetadata(namespace: string = this.namespace): Promise<CrystalMetadata[]> {
+    const store = await this.existingStore(namespace);
+    const entries = store === this.store ? await this.catalogue.crystals() : catalogueCrystals(await store.list()).entries;
+    return entries.map(entry => entry.metadata);
+  }
+
+  async readCrystalCatalogue(): Promise<{ id: string; title: string; spec_version: string; created_at: string }[]> {
+    return (await this.crystalMetadata()).map(crystal => ({
+      id: crystal.id,
+      title: crystal.title || 'Untitled',
+      spec_version: crystal.spec_version || 'Unknown',
+      created_at: crystal.created_at || 'Unknown'
+    }));
+  }
+
+  // Registered protocol (.cp) or codex (.cx) filenames
+  async listSpecFiles(kind: ProtocolKind): Promise<string[]> {
+    return (await this.loadRegistry()).list(kind).map(entry => entry.filename);
+  }
+
+  // Security: Ensure paths are within the data root
+  getSafePath(inputPath: string): string {
+    return resolveWithin(this.config.paths.root, inputPath);
+  }
+
+  describePath(path: string): string {
+    return displayPath(this.config, path);
+  }
+
+  /**
+   * The store of a namespace, opened once and sharing this service's
+   * encryption. Names are validated and derived locations are kept inside
+   * the default store's directory, so a namespace cannot point elsewhere
+   * unless the config file places it there.
+   */
+  storeFor(namespace: string): EncryptedCrystalStore {
+    let store = this.namespaceStores.get(namespace);
+    if (!store) {
+      store = new EncryptedCrystalStore(this.createStore(namespaceLocation(this.config, namespace)), this.cipher);
+      this.namespaceStores.set(namespace, store);
+    }
+    return store;
+  }
+
+  // Like storeFor, but reading from a namespace that was never written to is an error rather than an empty store
+  async existingStore(namespace: string): Promise<EncryptedCrystalStore> {
+    const store = this.storeFor(namespace);
+    if (namespace === this.namespace || namespace === DEFAULT_NAMESPACE || this.config.namespaces[namespace]) {
+      return store;
+    }
+    try {
+      await stat(namespaceLocation(this.config, namespace));
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new ToolError("NOT_FOUND", `No namespace named ${namespace}`, { namespace, available: await this.listNamespaces() });
+      }
+      throw error;
+    }
+    return store;
+  }
+
+  // The default namespace, configured namespaces and those found next to the default store
+  async listNamespaces(): Promise<string[]> {
+    const names = new Set([DEFAULT_NAMESPACE, this.namespace, ...Object.keys(this.config.namespaces)]);
+    const parent = this.config.store === "file" ? this.config.paths.crystals : dirname(this.config.paths.database);
+    try {
+      for (const entry of await readdir(parent, { withFileTypes: true })) {
+        const name = namespaceFromLocation(this.config, entry.name, entry.isDirectory());
+        if (name) {
+          names.add(name);
+        }
+      }
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+    return [...names].sort((a, b) => a === DEFAULT_NAMESPACE ? -1 : b === DEFAULT_NAMESPACE ? 1 : a.localeCompare(b));
+  }
+
+  // The originals of one migrate_crystals run, a file store under the backups directory sharing this service's encryption
+  backupStore(run: string): EncryptedCrystalStore {
+    return new EncryptedCrystalStore(new FileCrystalStore(join(this.config.paths.backups, run)), this.cipher);
+  }
+
+  // Names of the migration runs that left backups, oldest first
+  async listBackups(): Promise<string[]> {
+    try {
+      return (await readdir(this.config.paths.backups, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort();
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // CRYSTAL_ENCRYPTION_KEY or CRYSTAL_ENCRYPTION_KEY_FILE enables encryption; CRYSTAL_ENCRYPTION_PREVIOUS_KEY_FILES keeps older keys readable
+  private createCipherFromEnv(): CrystalCipher {
+    const keyFile = process.env.CRYSTAL_ENCRYPTION_KEY_FILE;
+    const active = process.env.CRYSTAL_ENCRYPTION_KEY
+      ? parseEncryptionKey(process.env.CRYSTAL_ENCRYPTION_KEY, "CRYSTAL_ENCRYPTION_KEY")
+      : keyFile ? loadEncryptionKey(resolve(projectRoot, keyFile)) : null;
+    const previous = (process.env.CRYSTAL_ENCRYPTION_PREVIOUS_KEY_FILES ?? '')
+      .split(',')
+      .map(path => path.trim())
+      .filter(Boolean)
+      .map(path => loadEncryptionKey(resolve(projectRoot, path)));
+    return new CrystalCipher(active, previous);
+  }
+
+  // The configured backend: a directory of .crystal files or a SQLite database
+  private createStore(location: string): CrystalStore {
+    return this.config.store === "sqlite" ? new SqliteCrystalStore(location) : new FileCrystalStore(location);
+  }
+}
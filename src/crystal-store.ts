@@ -0,0 +1,214 @@
+/**
+ * Crystal Store - persistence behind a single interface
+ *
+ * Tool handlers only talk to a CrystalStore. Two implementations exist:
+ * - FileCrystalStore: one `<id>.crystal` JSON file per crystal (the original layout)
+ * - SqliteCrystalStore: every crystal in one embedded SQLite database file
+ *
+ * Both write atomically (temp file + rename) so server instances sharing a
+ * directory never observe a half-written crystal.
+ */
+
+import { readFile, writeFile, readdir, mkdir, rename, unlink, link } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import type { CrystalData } from "./crystal-types.js";
+
+export interface StoredCrystal {
+  id: string;
+  // null when the stored entry could not be parsed
+  data: CrystalData | null;
+  size: number;
+  error?: string;
+  // Set for crystals stored encrypted; a locked crystal's data still holds its ciphertext
+  encryption?: { keyId: string; locked: boolean };
+}
+
+export interface CrystalStore {
+  readonly kind: string;
+  // Human-readable location, e.g. for tool output
+  readonly location: string;
+  list(): Promise<StoredCrystal[]>;
+  // One crystal as list() reports it, or null when the store has none with this id
+  entry(id: string): Promise<StoredCrystal | null>;
+  get(id: string): Promise<CrystalData>;
+  has(id: string): Promise<boolean>;
+  put(crystal: CrystalData): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Sibling store of the same kind that holds deleted crystals until they are restored
+  trash(): CrystalStore;
+}
+
+export class CrystalNotFoundError extends Error {
+  constructor(public readonly crystalId: string) {
+    super(`Crystal not found: ${crystalId}`);
+    this.name = "CrystalNotFoundError";
+  }
+}
+
+// Crystal ids are nanoid-style; anything else could escape the store directory
+const CRYSTAL_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// A client-supplied id that cannot name a crystal (and could name a path)
+export class InvalidCrystalIdError extends Error {
+  constructor(public readonly crystalId: string) {
+    super(`Invalid crystal id: ${crystalId}`);
+    this.name = "InvalidCrystalIdError";
+  }
+}
+
+export function isCrystalId(id: string): boolean {
+  return CRYSTAL_ID_PATTERN.test(id);
+}
+
+export function assertCrystalId(id: string): void {
+  if (!isCrystalId(id)) {
+    throw new InvalidCrystalIdError(id);
+  }
+}
+
+export function parseCrystalJson(raw: string): CrystalData {
+  const crystalData = JSON.parse(raw);
+
+  // Verify crystal format
+  if (!crystalData.content) {
+    throw new Error("Invalid crystal format: missing content field");
+  }
+  return crystalData;
+}
+
+// Write via a uniquely named temp file and rename it into place
+export async function writeFileAtomic(filepath: string, data: string | Uint8Array): Promise<void> {
+  const tempPath = `${filepath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await writeFile(tempPath, data);
+    await rename(tempPath, filepath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+// Like writeFileAtomic, but fails with EEXIST instead of replacing an existing file
+export async function writeNewFileAtomic(filepath: string, data: string | Uint8Array): Promise<void> {
+  const tempPath = `${filepath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await writeFile(tempPath, data);
+    await link(tempPath, filepath);
+  } finally {
+    await unlink(tempPath).catch(() => undefined);
+  }
+}
+
+export function isNotFound(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+export class FileCrystalStore implements CrystalStore {
+  readonly kind = "file";
+
+  constructor(private readonly directory: string) {}
+
+  get location(): string {
+    return this.directory;
+  }
+
+  async list(): Promise<StoredCrystal[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const crystals: StoredCrystal[] = [];
+    for (const file of files.filter(f => f.endsWith('.crystal'))) {
+      // null when removed between readdir and readFile
+      const crystal = await this.readEntry(file);
+      if (crystal) {
+        crystals.push(crystal);
+      }
+    }
+    return crystals;
+  }
+
+  async entry(id: string): Promise<StoredCrystal | null> {
+    assertCrystalId(id);
+    return this.readEntry(`${id}.crystal`);
+  }
+
+  async get(id: string): Promise<CrystalData> {
+    assertCrystalId(id);
+    let raw: string;
+    try {
+      raw = await readFile(this.pathFor(id), 'utf-8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new CrystalNotFoundError(id);
+      }
+      throw error;
+    }
+    return parseCrystalJson(raw);
+  }
+
+  async has(id: string): Promise<boolean> {
+    assertCrystalId(id);
+    try {
+      await readFile(this.pathFor(id));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async put(crystal: CrystalData): Promise<void> {
+    assertCrystalId(crystal.id);
+    await mkdir(this.directory, { recursive: true });
+    await writeFileAtomic(this.pathFor(crystal.id), JSON.stringify(crystal, null, 2));
+  }
+
+  async delete(id: string): Promise<void> {
+    assertCrystalId(id);
+    try {
+      await unlink(this.pathFor(id));
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new CrystalNotFoundError(id);
+      }
+      throw error;
+    }
+  }
+
+  trash(): CrystalStore {
+    return new FileCrystalStore(join(this.directory, ".trash"));
+  }
+
+  private pathFor(id: string): string {
+    return join(this.directory, `${id}.crystal`);
+  }
+
+  private async readEntry(file: string): Promise<StoredCrystal | null> {
+    const fallbackId = file.replace(/\.crystal$/, '');
+    let raw: string;
+    try {
+      raw = await readFile(join(this.directory, file), 'utf-8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+    try {
+      const data = parseCrystalJson(raw);
+      return { id: data.id || fallbackId, data: { ...data, id: data.id || fallbackId }, size: raw.length };
+    } catch (parseError) {
+      return { id: fallbackId, data: null, size: raw.length, error: parseError instanceof Error ? parseError.message : 'Failed to parse crystal file' };
+    }
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Crystal Transcript - finds crystal artifacts in conversation transcripts
+ *
+ * A transcript is a JSON or JSONL conversation export (Claude Code session
+ * logs, Anthropic/OpenAI message arrays, claude.ai and ChatGPT exports) or
+ * plain text. Every message is scanned for ⟨⟨HEADER⟩⟩-delimited crystal blocks
+ * and for fenced code blocks that look like crystals; the most recent
+ * candidate that validates against the protocol's layer model wins.
+ */
+
+import { readFile } from "fs/promises";
+import { parseCrystal, validateCrystal, LayerDefinition, ValidationResult } from "./crystal-parser.js";
+
+export interface TranscriptMessage {
+  // 1-based position in the conversation
+  index: number;
+  role: string;
+  text: string;
+  // 1-based line of the transcript file the message came from (JSONL only)
+  sourceLine?: number;
+}
+
+export interface CrystalCandidate {
+  content: string;
+  kind: "header" | "fenced";
+  message: TranscriptMessage;
+  // 1-based line within the message where the candidate starts
+  line: number;
+}
+
+export interface TranscriptScan {
+  messages: number;
+  found: (CrystalCandidate & { validation: ValidationResult }) | null;
+  // Candidates newer than the one found that failed validation
+  rejected: { candidate: CrystalCandidate; reason: string }[];
+}
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Message content is a string or a list of parts; tool calls are skipped, tool results kept
+function contentToText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map(part => {
+      if (typeof part === "string") {
+        return part;
+      }
+      if (!isRecord(part)) {
+        return '';
+      }
+      if (typeof part.text === "string") {
+        return part.text;
+      }
+      return part.type === "tool_result" ? contentToText(part.content) : '';
+    }).filter(Boolean).join('\n\n');
+  }
+  if (isRecord(content) && Array.isArray(content.parts)) {
+    return contentToText(content.parts);
+  }
+  return '';
+}
+
+// One record of any supported export format → role and text
+function messageFromRecord(record: unknown): { role: string; text: string } | null {
+  if (!isRecord(record)) {
+    return null;
+  }
+  // Claude Code session log: { type, message: { role, content } }
+  if (isRecord(record.message)) {
+    const nested = messageFromRecord(record.message);
+    return nested ? { ...nested, role: nested.role !== "unknown" ? nested.role : String(record.type ?? "unknown") } : null;
+  }
+  const role = isRecord(record.author) ? record.author.role : record.role ?? record.sender ?? record.type;
+  const text = typeof record.text === "string" && !record.content
+    ? record.text
+    : contentToText(record.content ?? record.text);
+  return text ? { role: typeof role === "string" ? role : "unknown", text } : null;
+}
+
+function recordsFromJson(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (!isRecord(data)) {
+    return null;
+  }
+  if (Array.isArray(data.messages)) {
+    return data.messages;
+  }
+  if (Array.isArray(data.chat_messages)) {
+    return data.chat_messages;
+  }
+  // ChatGPT export: a tree of nodes keyed by id
+  if (isRecord(data.mapping)) {
+    return Object.values(data.mapping)
+      .map(node => isRecord(node) ? node.message : null)
+      .filter(isRecord)
+      .sort((a, b) => Number(a.create_time ?? 0) - Number(b.create_time ?? 0));
+  }
+  return null;
+}
+
+function numberMessages(messages: (Omit<TranscriptMessage, "index"> | null)[]): TranscriptMessage[] {
+  return messages
+    .filter((message): message is Omit<TranscriptMessage, "index"> => message !== null)
+    .map((message, i) => ({ ...message, index: i + 1 }));
+}
+
+// JSON export, JSONL log or, failing both, a single plain-text message
+export function parseTranscript(raw: string): TranscriptMessage[] {
+  try {
+    const records = recordsFromJson(JSON.parse(raw));
+    if (records) {
+      return numberMessages(records.map(messageFromRecord));
+    }
+  } catch {
+    // Not a single JSON document
+  }
+
+  const lines = raw.split('\n');
+  const parsed: (Omit<TranscriptMessage, "index"> | null)[] = [];
+  let jsonl = lines.some(line => line.trim());
+  for (let i = 0; i < lines.length && jsonl; i++) {
+    if (!lines[i].trim()) {
+      continue;
+    }
+    try {
+      const message = messageFromRecord(JSON.parse(lines[i]));
+      parsed.push(message ? { ...message, sourceLine: i + 1 } : null);
+    } catch {
+      jsonl = false;
+    }
+  }
+  if (jsonl) {
+    return numberMessages(parsed);
+  }
+
+  return raw.trim() ? [{ index: 1, role: "text", text: raw }] : [];
+}
+
+export async function loadTranscript(path: string): Promise<TranscriptMessage[]> {
+  return parseTranscript(await readFile(path, 'utf-8'));
+}
+
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+// Index just past the brace that closes the one at `start`, ignoring braces inside strings
+function closingBrace(text: string, start: number): number | null {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return null;
+}
+
+function looksLikeCrystal(text: string, model: LayerDefinition[]): boolean {
+  return /⟨⟨[^⟨⟩\n]+⟩⟩/u.test(text) || parseCrystal(text, model).layers.filter(layer => layer.present).length >= 3;
+}
+
+// Candidates in one message, in order of appearance
+function findCandidates(message: TranscriptMessage, model: LayerDefinition[]): CrystalCandidate[] {
+  const candidates: CrystalCandidate[] = [];
+  let masked = message.text;
+
+  for (const fence of message.text.matchAll(/^[ \t]*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)^[ \t]*\1[ \t]*$/gmu)) {
+    const start = fence.index ?? 0;
+    // Blank out the fence so ⟨⟨...⟩⟩ blocks inside it are not found twice; newlines keep line numbers
+    masked = masked.slice(0, start) + fence[0].replace(/[^\n]/g, ' ') + masked.slice(start + fence[0].length);
+    if (looksLikeCrystal(fence[2], model)) {
+      candidates.push({ content: fence[2].trim(), kind: "fenced", message, line: lineAt(message.text, start) + 1 });
+    }
+  }
+
+  const headers = [...masked.matchAll(/⟨⟨[^⟨⟩\n]+⟩⟩/gu)];
+  // End of the last block taken, so layer keys such as L₉⟨⟨…⟩⟩ inside it are not taken as headers
+  let consumed = 0;
+  headers.forEach((header, i) => {
+    const start = header.index ?? 0;
+    if (start < consumed) {
+      return;
+    }
+    const afterHeader = start + header[0].length;
+    const assignment = masked.slice(afterHeader).match(/^\s*=?\s*/u)![0];
+    const nextHeader = i + 1 < headers.length ? headers[i + 1].index ?? masked.length : masked.length;
+    const end = masked[afterHeader + assignment.length] === '{'
+      ? closingBrace(masked, afterHeader + assignment.length) ?? nextHeader
+      : nextHeader;
+    consumed = end;
+    candidates.push({ content: message.text.slice(start, end).trim(), kind: "header", message, line: lineAt(message.text, start) });
+  });
+
+  return candidates.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Scan messages newest first for the latest crystal that validates against
+ * `model`, recording the newer candidates that were passed over.
+ */
+export function findLatestCrystal(messages: TranscriptMessage[], model: LayerDefinition[]): TranscriptScan {
+  const rejected: TranscriptScan["rejected"] = [];
+  for (const message of [...messages].reverse()) {
+    for (const candidate of findCandidates(message, model).reverse()) {
+      const validation = validateCrystal(candidate.content, model);
+      if (validation.valid) {
+        return { messages: messages.length, found: { ...candidate, validation }, rejected };
+      }
+      const firstError = validation.issues.find(issue => issue.severity === "error");
+      rejected.push({ candidate, reason: firstError ? `[${firstError.criterion}] ${firstError.message}` : 'not a valid crystal' });
+    }
+  }
+  return { messages: messages.length, found: null, rejected };
+}
+
+export function describeCandidateLocation(candidate: CrystalCandidate, totalMessages: number): string {
+  const { message } = candidate;
+  const source = message.sourceLine !== undefined ? `, transcript line ${message.sourceLine}` : '';
+  return `message ${message.index} of ${totalMessages} (${message.role}${source}), ${candidate.kind === "fenced" ? 'fenced code block' : '⟨⟨…⟩⟩ block'} at line ${candidate.line}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Shared crystal types - the JSON shape of a stored `.crystal` file
+ */
+
+export interface CrystalIntegrity {
+  algorithm: "sha256";
+  // Hex SHA-256 of `content`
+  content_hash: string;
+  signature?: {
+    algorithm: "ed25519";
+    key_id: string;
+    // Base64 SPKI of the signing key
+    public_key: string;
+    value: string;
+  };
+}
+
+export interface CrystalEncryption {
+  algorithm: "aes-256-gcm";
+  key_id: string;
+  // Base64 nonce and authentication tag; `content` holds the base64 ciphertext
+  iv: string;
+  tag: string;
+  // "content+integrity" when the ciphertext holds { content, integrity } JSON; absent when it holds the content alone
+  payload?: "content+integrity";
+  // "metadata" when every other stored field is bound to the ciphertext as associated data; absent when only the id is
+  aad?: "metadata";
+}
+
+// Where an exported crystal came from; absent on crystals exported before provenance was recorded
+export interface CrystalProvenance {
+  // MCP client from the initialize handshake, or the CLI
+  client?: { name: string; version: string };
+  session_id?: string;
+  // Supplied by the caller: its working directory and the commit checked out there
+  cwd?: string;
+  git_head?: string;
+  server: { name: string; version: string };
+}
+
+export interface CrystalData {
+  id: string;
+  title: string;
+  spec_version: string;
+  created_at: string;
+  auto_detected: boolean;
+  content: string;
+  tags?: string[];
+  notes?: string;
+  updated_at?: string;
+  // Set while the crystal is in the trash
+  deleted_at?: string;
+  // Lineage: absent on crystals exported before versioning existed
+  root_id?: string;
+  parent_id?: string;
+  supersedes?: string;
+  version?: number;
+  // Set when migrate_crystals rewrote the crystal from an older spec_version
+  migrated_from?: string;
+  migrated_at?: string;
+  // Set by merge_crystals: the source crystals, oldest first
+  merged_from?: string[];
+  provenance?: CrystalProvenance;
+  // Absent on crystals exported before integrity checks existed
+  integrity?: CrystalIntegrity;
+  // Only present in storage; stores hand out decrypted crystals
+  encryption?: CrystalEncryption;
+}
+
+// A crystal without its content, as kept in the in-memory catalogue
+export type CrystalMetadata = Omit<CrystalData, "content">;
@@ -0,0 +1,238 @@
+/**
+ * HTTP Transport - serves the Crystal MCP server over streamable HTTP
+ *
+ * Each MCP session gets its own McpServer connected to its own
+ * StreamableHTTPServerTransport; all sessions share one crystal store.
+ * Requests must carry `Authorization: Bearer <token>` when a token is set.
+ * Without one, requests must name the server by a loopback host and its
+ * port, and come from a loopback origin if they carry one, so a web page
+ * (including one whose domain was rebound to 127.0.0.1) cannot reach it.
+ * A session ends on DELETE, or once it has had no open request for
+ * `sessionIdleMs`, so clients that go away without saying so are dropped.
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server } from "node:http";
+import { randomUUID, timingSafeEqual, createHash } from "node:crypto";
+import { readFile } from "fs/promises";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { LOOPBACK_HOSTS, isLoopbackHostHeader, isLoopbackOrigin } from "./loopback.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path: string;
+  token?: string;
+  sessionIdleMs?: number;
+}
+
+export interface HttpTransportHandle {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  // Requests still being answered, including open GET event streams
+  openRequests: number;
+  lastSeen: number;
+}
+
+// Token from CRYSTAL_HTTP_TOKEN, or the first line of CRYSTAL_HTTP_TOKEN_FILE
+export async function loadBearerToken(token?: string, tokenFile?: string): Promise<string | undefined> {
+  if (token) {
+    return token;
+  }
+  if (tokenFile) {
+    const fileToken = (await readFile(tokenFile, 'utf-8')).split('\n')[0].trim();
+    if (!fileToken) {
+      throw new Error(`Token file is empty: ${tokenFile}`);
+    }
+    return fileToken;
+  }
+  return undefined;
+}
+
+function tokensMatch(expected: string, provided: string): boolean {
+  // Hash both sides so the comparison is constant-time regardless of length
+  const a = createHash('sha256').update(expected).digest();
+  const b = createHash('sha256').update(provided).digest();
+  return timingSafeEqual(a, b);
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null
+  }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+export async function startHttpTransport(
+  options: HttpTransportOptions,
+  createSessionServer: () => McpServer
+): Promise<HttpTransportHandle> {
+  if (!options.token && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error(`Refusing to serve on ${options.host} without a bearer token (set CRYSTAL_HTTP_TOKEN or CRYSTAL_HTTP_TOKEN_FILE)`);
+  }
+
+  const sessions = new Map<string, Session>();
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  // Count a request against its session until the response is finished or the client hangs up
+  const track = (session: Session, res: ServerResponse) => {
+    session.openRequests++;
+    session.lastSeen = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const session of sessions.values()) {
+      if (session.openRequests === 0 && session.lastSeen < cutoff) {
+        // Closing the server closes its transport, whose onclose forgets the session
+        session.server.close().catch((error) => console.error("Failed to close idle session:", error));
+      }
+    }
+  }, Math.min(idleMs, 60_000));
+  sweep.unref();
+
+  // Known once the server listens (options.port may be 0)
+  let port = options.port;
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    if (!options.token) {
+      if (!isLoopbackHostHeader(req.headers.host, port)) {
+        sendJsonError(res, 403, `Host not allowed: ${req.headers.host ?? '(none)'}`);
+        return;
+      }
+      if (req.headers.origin !== undefined && !isLoopbackOrigin(req.headers.origin)) {
+        sendJsonError(res, 403, `Origin not allowed: ${req.headers.origin}`);
+        return;
+      }
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    if (url.pathname !== options.path) {
+      sendJsonError(res, 404, "Not found");
+      return;
+    }
+
+    if (options.token) {
+      const header = req.headers.authorization ?? '';
+      const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+      if (!provided || !tokensMatch(options.token, provided)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonError(res, 401, "Unauthorized");
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (existing) {
+        track(existing, res);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonError(res, 400, "Bad Request: no valid session ID provided");
+        return;
+      }
+
+      // New session: one McpServer per transport, sharing the store
+      const server = createSessionServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, server, openRequests: 0, lastSeen: Date.now() });
+        }
+      });
+      await server.connect(transport);
+      // connect() takes over transport.onclose, so chain onto it rather than set it first
+      const onclose = transport.onclose;
+      transport.onclose = () => {
+        onclose?.();
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonError(res, 400, "Bad Request: invalid or missing session ID");
+        return;
+      }
+      track(existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendJsonError(res, 405, "Method not allowed");
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error("HTTP transport error:", error);
+      if (!res.headersSent) {
+        sendJsonError(res, error instanceof SyntaxError ? 400 : 500, error instanceof Error ? error.message : 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address();
+  port = address && typeof address === 'object' ? address.port : options.port;
+
+  return {
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}${options.path}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      for (const { server } of sessions.values()) {
+        await server.close();
+      }
+      sessions.clear();
+      await new Promise<void>(resolvePromise => httpServer.close(() => resolvePromise()));
+    }
+  };
+}
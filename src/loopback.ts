@@ -0,0 +1,25 @@
+/**
+ * Loopback - host checks shared by the local HTTP listeners
+ *
+ * The crystal UI API always, and the MCP HTTP transport without a token,
+ * only bind to loopback addresses. Binding alone does not stop a web page
+ * whose domain was rebound to 127.0.0.1, so requests must also name the
+ * server by a loopback host and its port, and come from a loopback origin.
+ */
+
+export const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+// Host header of a request addressed to this server, e.g. "localhost:3334" or "[::1]:3334"
+export function isLoopbackHostHeader(host: string | undefined, port: number): boolean {
+  const match = host?.toLowerCase().match(/^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/);
+  return !!match && LOOPBACK_HOSTS.has(match[1] ?? match[2]) && Number(match[3] ?? 80) === port;
+}
+
+// Origin header of a page served from this machine, on any port
+export function isLoopbackOrigin(origin: string): boolean {
+  try {
+    return LOOPBACK_HOSTS.has(new URL(origin).hostname.replace(/^\[|\]$/g, ''));
+  } catch {
+    return false;
+  }
+}
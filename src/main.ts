@@ -1,33 +1,353 @@
-//TIP With Search Everywhere, you can find any action, file, or symbol in your project. Press <shortcut actionId="Shift"/> <shortcut actionId="Shift"/>, type in <b>terminal</b>, and press <shortcut actionId="EditorEnter"/>. Then run <shortcut raw="npm run dev"/> in the terminal and click the link in its output to open the app in the browser.
-export function setupCounter(element: HTMLElement) {
-  //TIP Try <shortcut actionId="GotoDeclaration"/> on <shortcut raw="counter"/> to see its usages. You can also use this shortcut to jump to a declaration – try it on <shortcut raw="counter"/> on line 13.
-  let counter = 0;
-
-  const adjustCounterValue = (value: number)  => {
-    if (value >= 100) return value - 100;
-    if (value <= -100) return value + 100;
-    return value;
+/**
+ * Crystal Browser - lists, renders, searches and tags crystals in the browser
+ *
+ * All data comes from the local crystal API (src/crystal-api.ts) that the
+ * server process exposes with --ui; `npm run dev` proxies /api to it.
+ * Views are addressed by the location hash: #/crystal/<id>,
+ * #/protocol/<file> and #/codex/<file>.
+ */
+
+import type { CrystalListing } from "./crystal-service.js";
+import type { CatalogueError } from "./crystal-catalogue.js";
+import type { CrystalLayer } from "./crystal-parser.js";
+import type { ProtocolHeader, ProtocolKind } from "./protocol-registry.js";
+import type { CrystalProvenance } from "./crystal-types.js";
+
+type ApiResult<T> = ({ ok: true } & T) | { ok: false; error: { code: string; message: string } };
+
+interface CrystalView {
+  crystal: {
+    id: string;
+    title: string;
+    spec_version: string;
+    created_at: string;
+    updated_at?: string;
+    tags: string[];
+    root_id: string;
+    version: number;
+    parent_id?: string;
+    supersedes?: string;
+    provenance?: CrystalProvenance;
   };
+  notes: string | null;
+  integrity: { ok: boolean; content: string; signature: string; key_id?: string; signer?: string };
+  content: string;
+  parsed: {
+    header: string | null;
+    omega: string | null;
+    delta: string | null;
+    layers: Omit<CrystalLayer, "raw">[];
+  };
+}
+
+interface SpecListing extends ProtocolHeader {
+  kind: ProtocolKind;
+  filename: string;
+  declared: boolean;
+}
+
+interface SpecView {
+  entry: SpecListing;
+  content: string;
+  legend: Record<string, string>;
+}
+
+interface SearchView {
+  query: string;
+  indexed: number;
+  hits: { id: string; title: string; spec_version: string; created_at: string; tags: string[]; score: number; snippet: string }[];
+}
+
+type Tab = "crystals" | ProtocolKind;
+
+class ApiError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+async function api<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, init);
+  const body = await response.json().catch(() => null) as ApiResult<T> | null;
+  if (!body) {
+    throw new ApiError("INTERNAL", `${response.status} ${response.statusText}: the crystal API did not answer (is the server running with --ui?)`);
+  }
+  if (!body.ok) {
+    throw new ApiError(body.error.code, body.error.message);
+  }
+  return body;
+}
+
+// Minimal element builder; text always goes in as text nodes, never as HTML
+function el<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string> = {},
+  ...children: (Node | string | null)[]
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value);
+  }
+  for (const child of children) {
+    if (child !== null) {
+      element.append(child);
+    }
+  }
+  return element;
+}
+
+const list = document.getElementById("list") as HTMLUListElement;
+const listStatus = document.getElementById("list-status") as HTMLParagraphElement;
+const detail = document.getElementById("detail") as HTMLElement;
+const searchForm = document.getElementById("search-form") as HTMLFormElement;
+const searchInput = document.getElementById("search-input") as HTMLInputElement;
+const tagFilter = document.getElementById("tag-filter") as HTMLInputElement;
+
+let activeTab: Tab = "crystals";
+
+function showError(target: HTMLElement, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  const code = error instanceof ApiError ? `${error.code}: ` : '';
+  target.replaceChildren(el("p", { class: "status error" }, `${code}${message}`));
+}
 
-  const setCounter = (value: number) => {
-    counter = adjustCounterValue(value);
-    //TIP WebStorm has lots of inspections to help you catch issues in your project. It also has quick fixes to help you resolve them. Press <shortcut actionId="ShowIntentionActions"/> on <shortcut raw="text"/> and choose <b>Inline variable</b> to clean up the redundant code.
-    const text = `${counter}`;
-    element.innerHTML = text;
+function selectTab(tab: Tab): void {
+  activeTab = tab;
+  for (const button of document.querySelectorAll<HTMLButtonElement>("[data-tab]")) {
+    button.setAttribute("aria-selected", String(button.dataset.tab === tab));
+  }
+}
+
+function tagQuery(): string {
+  return tagFilter.value.split(',').map(tag => tag.trim()).filter(Boolean).map(tag => `tag=${encodeURIComponent(tag)}`).join('&');
+}
+
+async function loadCrystalList(): Promise<void> {
+  selectTab("crystals");
+  listStatus.textContent = "Loading crystals…";
+  list.replaceChildren();
+  try {
+    const { crystals, errors } = await api<{ crystals: CrystalListing[]; errors: CatalogueError[] }>(`/api/crystals?sort=created_at&order=desc&${tagQuery()}`);
+    listStatus.textContent = `${crystals.length} crystal${crystals.length === 1 ? '' : 's'}${errors.length > 0 ? `, ${errors.length} unreadable` : ''}`;
+    list.replaceChildren(
+      ...crystals.map(crystal => el("li", {},
+        el("a", { href: `#/crystal/${crystal.id}` },
+          el("span", { class: "item-title" }, crystal.title),
+          el("span", { class: "item-meta" }, `spec ${crystal.spec_version} · v${crystal.version ?? 1} · ${crystal.created_at.slice(0, 10)}${crystal.locked ? ' · 🔒' : ''}`),
+          crystal.tags.length > 0 ? el("span", { class: "tags" }, ...crystal.tags.map(tag => el("span", { class: "tag" }, tag))) : null
+        )
+      )),
+      ...errors.map(error => el("li", { class: "broken" },
+        el("span", { class: "item-title" }, `⚠️ ${error.name}`),
+        el("span", { class: "item-meta" }, error.message)
+      ))
+    );
+  } catch (error) {
+    listStatus.textContent = '';
+    showError(list, error);
+  }
+}
+
+async function loadSearch(query: string): Promise<void> {
+  selectTab("crystals");
+  listStatus.textContent = `Searching for "${query}"…`;
+  list.replaceChildren();
+  try {
+    const { hits, indexed } = await api<SearchView>(`/api/search?q=${encodeURIComponent(query)}&${tagQuery()}`);
+    listStatus.textContent = `${hits.length} of ${indexed} crystals match "${query}"`;
+    list.replaceChildren(...hits.map(hit => el("li", {},
+      el("a", { href: `#/crystal/${hit.id}` },
+        el("span", { class: "item-title" }, hit.title),
+        el("span", { class: "item-meta" }, `score ${hit.score.toFixed(2)} · spec ${hit.spec_version}`),
+        el("span", { class: "snippet" }, hit.snippet)
+      )
+    )));
+  } catch (error) {
+    listStatus.textContent = '';
+    showError(list, error);
+  }
+}
+
+async function loadSpecList(kind: ProtocolKind): Promise<void> {
+  selectTab(kind);
+  listStatus.textContent = `Loading ${kind} files…`;
+  list.replaceChildren();
+  try {
+    const { entries } = await api<{ entries: SpecListing[] }>(`/api/specs?kind=${kind}`);
+    listStatus.textContent = entries.length > 0 ? `${entries.length} ${kind} file${entries.length === 1 ? '' : 's'}` : `No ${kind} files registered`;
+    list.replaceChildren(...entries.map(entry => el("li", {},
+      el("a", { href: `#/${kind}/${encodeURIComponent(entry.filename)}` },
+        el("span", { class: "item-title" }, entry.identity),
+        el("span", { class: "item-meta" }, `${entry.filename}${entry.version ? ` · v${entry.version}` : ''}`)
+      )
+    )));
+  } catch (error) {
+    listStatus.textContent = '';
+    showError(list, error);
+  }
+}
+
+function renderLayer(layer: Omit<CrystalLayer, "raw">): HTMLElement {
+  const summary = el("summary", {},
+    el("span", { class: "layer-symbol" }, layer.symbol),
+    ` ⟨${layer.name}⟩ `,
+    el("span", { class: "item-meta" }, layer.present ? `${layer.entries.length} entr${layer.entries.length === 1 ? 'y' : 'ies'}` : 'absent')
+  );
+  const entries = layer.entries.length > 0
+    ? el("dl", { class: "entries" }, ...layer.entries.flatMap(entry => [
+        el("dt", {}, entry.key ?? '•'),
+        el("dd", {}, entry.text)
+      ]))
+    : el("p", { class: "status" }, layer.present ? "No entries" : "This layer is missing from the crystal");
+  const panel = el("details", { class: layer.present ? "layer" : "layer absent" }, summary, entries);
+  panel.open = layer.present && layer.entries.length > 0;
+  return panel;
+}
+
+function renderTagEditor(view: CrystalView): HTMLElement {
+  const updateTags = async (body: { add?: string[]; remove?: string[] }) => {
+    try {
+      const { crystal } = await api<{ crystal: CrystalView["crystal"] }>(`/api/crystals/${view.crystal.id}/tags`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      view.crystal = crystal;
+      editor.replaceWith(renderTagEditor(view));
+      if (activeTab === "crystals" && !searchInput.value.trim()) {
+        await loadCrystalList();
+      }
+    } catch (error) {
+      showError(message, error);
+    }
   };
 
-  document.getElementById('increaseByOne')?.addEventListener('click', () => setCounter(counter + 1));
-  document.getElementById('decreaseByOne')?.addEventListener('click', () => setCounter(counter - 1));
-  document.getElementById('increaseByTwo')?.addEventListener('click', () => setCounter(counter + 2));
+  const input = el("input", { type: "text", placeholder: "add tag", "aria-label": "Add tag" });
+  const form = el("form", { class: "tag-form" }, input, el("button", { type: "submit" }, "Add"));
+  form.addEventListener("submit", (event) => {
+    event.preventDefault();
+    const tags = input.value.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tags.length > 0) {
+      void updateTags({ add: tags });
+    }
+  });
+
+  const chips = view.crystal.tags.map(tag => {
+    const remove = el("button", { type: "button", class: "tag-remove", "aria-label": `Remove tag ${tag}` }, "×");
+    remove.addEventListener("click", () => void updateTags({ remove: [tag] }));
+    return el("span", { class: "tag" }, tag, remove);
+  });
+  const message = el("div", {});
+  const editor = el("div", { class: "tag-editor" },
+    el("span", { class: "tags" }, ...(chips.length > 0 ? chips : [el("span", { class: "item-meta" }, "No tags")])),
+    form,
+    message
+  );
+  return editor;
+}
+
+async function showCrystal(crystalId: string): Promise<void> {
+  detail.replaceChildren(el("p", { class: "status" }, "Loading crystal…"));
+  try {
+    const view = await api<CrystalView>(`/api/crystals/${encodeURIComponent(crystalId)}`);
+    const { crystal, integrity, parsed } = view;
+    const lineage = crystal.parent_id
+      ? `v${crystal.version} of ${crystal.root_id} (${crystal.supersedes ? 'supersedes' : 'parent'} ${crystal.parent_id})`
+      : `v${crystal.version} (root)`;
+    const { provenance } = crystal;
+    const provenanceText = provenance
+      ? [
+          provenance.client ? `${provenance.client.name} ${provenance.client.version}` : 'unknown client',
+          provenance.session_id ? `session ${provenance.session_id}` : null,
+          provenance.cwd || provenance.git_head ? `${provenance.cwd ?? 'unknown directory'}${provenance.git_head ? ` @ ${provenance.git_head.slice(0, 12)}` : ''}` : null,
+          `${provenance.server.name} ${provenance.server.version}`
+        ].filter(Boolean).join(' · ')
+      : '—';
+    const integrityText = integrity.ok
+      ? `✓ content verified · ${integrity.signature}${integrity.signer ? ` (${integrity.signer})` : ''}`
+      : `✗ ${integrity.content} · ${integrity.signature}`;
+
+    const core = el("dl", { class: "meta" },
+      el("dt", {}, "ID"), el("dd", {}, crystal.id),
+      el("dt", {}, "Spec"), el("dd", {}, crystal.spec_version),
+      el("dt", {}, "Created"), el("dd", {}, crystal.created_at),
+      el("dt", {}, "Lineage"), el("dd", {}, lineage),
+      el("dt", {}, "Provenance"), el("dd", {}, provenanceText),
+      el("dt", {}, "Integrity"), el("dd", { class: integrity.ok ? "" : "error" }, integrityText),
+      el("dt", {}, "Ω"), el("dd", {}, parsed.omega ?? '—'),
+      el("dt", {}, "∂"), el("dd", {}, parsed.delta ?? '—')
+    );
+    const raw = el("details", { class: "raw" }, el("summary", {}, "Raw content"), el("pre", {}, view.content));
 
-  //TIP In the app running in the browser, you’ll find that clicking <b>-2</b> doesn't work. To fix that, rewrite it using the code from lines 19 - 21 as examples of the logic.
-  document.getElementById('decreaseByTwo')
+    detail.replaceChildren(el("article", {},
+      el("h1", {}, crystal.title),
+      parsed.header ? el("p", { class: "crystal-header" }, `⟨⟨${parsed.header}⟩⟩`) : null,
+      renderTagEditor(view),
+      core,
+      view.notes ? el("p", { class: "notes" }, view.notes) : null,
+      el("section", { class: "layers" }, ...parsed.layers.map(renderLayer)),
+      raw
+    ));
+  } catch (error) {
+    showError(detail, error);
+  }
+}
 
-  //TIP Let’s see how to review and commit your changes. Press <shortcut actionId="GotoAction"/> and look for <b>commit</b>. Try checking the diff for a file – double-click main.ts to do that.
-  setCounter(0);
+async function showSpec(kind: ProtocolKind, filename: string): Promise<void> {
+  detail.replaceChildren(el("p", { class: "status" }, `Loading ${kind}…`));
+  try {
+    const { entry, content, legend } = await api<SpecView>(`/api/specs/${kind}/${encodeURIComponent(filename)}`);
+    const symbols = Object.entries(legend);
+    detail.replaceChildren(
+      el("h1", {}, entry.identity),
+      el("dl", { class: "meta" },
+        el("dt", {}, "File"), el("dd", {}, entry.filename),
+        el("dt", {}, "Version"), el("dd", {}, entry.version ?? '—'),
+        el("dt", {}, "Ω"), el("dd", {}, entry.omega ?? '—'),
+        el("dt", {}, "∂"), el("dd", {}, entry.delta ?? '—'),
+        el("dt", {}, "Sections"), el("dd", {}, entry.sections.length > 0 ? entry.sections.map(section => `⟨${section}⟩`).join(' ') : '—')
+      ),
+      el("h2", {}, "⟨SYMBOL_SEMANTICS⟩"),
+      symbols.length > 0
+        ? el("table", { class: "legend" },
+            el("tbody", {}, ...symbols.map(([symbol, meaning]) => el("tr", {}, el("th", {}, symbol), el("td", {}, meaning)))))
+        : el("p", { class: "status" }, "This file declares no symbol legend"),
+      el("details", { class: "raw", open: "" }, el("summary", {}, "File content"), el("pre", {}, content))
+    );
+  } catch (error) {
+    showError(detail, error);
+  }
 }
 
-//TIP To find text strings in your project, you can use the <shortcut actionId="FindInPath"/> shortcut. Press it and type in <b>counter</b> – you’ll get all matches in one place.
-setupCounter(document.getElementById('counter-value') as HTMLElement);
+function route(): void {
+  const [, view, ...rest] = location.hash.replace(/^#/, '').split('/');
+  const target = decodeURIComponent(rest.join('/'));
+  if (view === "crystal" && target) {
+    void showCrystal(target);
+  } else if ((view === "protocol" || view === "codex") && target) {
+    if (activeTab !== view) {
+      void loadSpecList(view);
+    }
+    void showSpec(view, target);
+  }
+}
+
+for (const button of document.querySelectorAll<HTMLButtonElement>("[data-tab]")) {
+  button.addEventListener("click", () => {
+    const tab = button.dataset.tab as Tab;
+    void (tab === "crystals" ? loadCrystalList() : loadSpecList(tab));
+  });
+}
+
+searchForm.addEventListener("submit", (event) => {
+  event.preventDefault();
+  const query = searchInput.value.trim();
+  void (query ? loadSearch(query) : loadCrystalList());
+});
+
+window.addEventListener("hashchange", route);
 
-//TIP There's much more in WebStorm to help you be more productive. Press <shortcut actionId="Shift"/> <shortcut actionId="Shift"/> and search for <b>Learn WebStorm</b> to open our learning hub with more things for you to try.
+const [, initialView] = location.hash.replace(/^#/, '').split('/');
+void (initialView === "protocol" || initialView === "codex" ? Promise.resolve() : loadCrystalList());
+route();
@@ -0,0 +1,316 @@
+/**
+ * File Matcher - one matching engine for protocol (.cp) and codex (.cx) lookup
+ *
+ * Queries mix name words with an optional version constraint:
+ * - "temporal crystallization 3.0"  exact version
+ * - "crystallization 2.x"           wildcard
+ * - "protocol >=2.0 <3"             ranges (all constraints must hold)
+ * - "mechanism awareness latest"    highest available version
+ *
+ * Name words are scored against filename words with exact, prefix, substring
+ * and edit-distance (typo) matching. Every score is bounded to [0, 1] and each
+ * candidate carries the reasons behind its score.
+ */
+
+import { readFileSync } from "fs";
+
+export interface MatcherConfig {
+  // Minimum score to accept the best candidate
+  threshold: number;
+  // Domain terms that weigh more when they appear in both query and filename
+  termBoosts: Record<string, number>;
+  // Share of the score taken by the version when the query names one
+  versionWeight: number;
+  maxCandidates: number;
+}
+
+// A file described by more than its name, e.g. by the identity declared in its header
+export interface CandidateName {
+  filename: string;
+  words: string[];
+  version: string | null;
+}
+
+export interface MatchCandidate {
+  filename: string;
+  score: number;
+  version: string | null;
+  reasons: string[];
+}
+
+export interface MatchResult {
+  match: string | null;
+  score: number;
+  candidates: MatchCandidate[];
+  suggestions: string[];
+}
+
+export interface MatchingConfigFile {
+  protocol?: Partial<MatcherConfig>;
+  codex?: Partial<MatcherConfig>;
+}
+
+type VersionOperator = "=" | ">" | ">=" | "<" | "<=" | "^" | "~" | "x" | "latest";
+
+interface VersionConstraint {
+  operator: VersionOperator;
+  version: number[];
+  text: string;
+}
+
+export const DEFAULT_MATCHER_CONFIG: MatcherConfig = {
+  threshold: 0.3,
+  termBoosts: {},
+  versionWeight: 0.3,
+  maxCandidates: 5
+};
+
+const VERSION_TOKEN = /^(>=|<=|>|<|\^|~|=)?v?(\d+(?:\.(?:\d+|x|\*))*)$/i;
+const TYPO_SIMILARITY = 0.75;
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Version helpers shared with the protocol registry and migrations: "v2.0" → [2, 0]
+export function parseVersion(text: string): number[] {
+  return text.replace(/^v/i, '').split('.').map(Number);
+}
+
+// "v2.0", "2.0" and "2" are the same version: "2"
+export function normalizeVersion(version: string): string {
+  const parts = parseVersion(version);
+  while (parts.length > 1 && parts[parts.length - 1] === 0) {
+    parts.pop();
+  }
+  return parts.join('.');
+}
+
+export function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function satisfies(version: number[], constraint: VersionConstraint): boolean {
+  const target = constraint.version;
+  switch (constraint.operator) {
+    case "latest":
+      return true;
+    case "x":
+      return target.every((part, i) => version[i] === part);
+    case "=":
+      return compareVersions(version, target) === 0;
+    case ">":
+      return compareVersions(version, target) > 0;
+    case ">=":
+      return compareVersions(version, target) >= 0;
+    case "<":
+      return compareVersions(version, target) < 0;
+    case "<=":
+      return compareVersions(version, target) <= 0;
+    case "^":
+      return version[0] === target[0] && compareVersions(version, target) >= 0;
+    case "~":
+      return version[0] === target[0] && (version[1] ?? 0) === (target[1] ?? 0) && compareVersions(version, target) >= 0;
+  }
+}
+
+// Split a query into name words and version constraints (">= 2.0" is accepted too)
+export function parseQuery(query: string): { words: string[]; constraints: VersionConstraint[] } {
+  const tokens = query
+    .toLowerCase()
+    .replace(/(>=|<=|>|<|\^|~|=)\s+(?=v?\d)/g, '$1')
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+
+  const words: string[] = [];
+  const constraints: VersionConstraint[] = [];
+  for (const token of tokens) {
+    if (token === "latest") {
+      constraints.push({ operator: "latest", version: [], text: token });
+      continue;
+    }
+    const versionMatch = token.match(VERSION_TOKEN);
+    if (versionMatch) {
+      const [, operator, versionText] = versionMatch;
+      const wildcard = versionText.search(/\.(x|\*)/i);
+      if (wildcard >= 0) {
+        constraints.push({ operator: "x", version: parseVersion(versionText.slice(0, wildcard)), text: token });
+      } else {
+        constraints.push({ operator: (operator as VersionOperator) || "=", version: parseVersion(versionText), text: token });
+      }
+      continue;
+    }
+    words.push(token.replace(/[^\p{L}\p{N}]+/gu, ''));
+  }
+  return { words: words.filter(Boolean), constraints };
+}
+
+// "CRYSTALLIZATION_PROTOCOL_2.0.cp" → words [crystallization, protocol], version 2.0
+export function parseCandidate(filename: string): { words: string[]; version: string | null } {
+  const base = filename.replace(/\.[^.]+$/, '');
+  const versionMatch = base.match(/[_\-\s.]v?(\d+(?:\.\d+)*)$/i);
+  const name = versionMatch ? base.slice(0, versionMatch.index) : base;
+  return {
+    words: name.toLowerCase().split(/[\s_.-]+/).filter(Boolean),
+    version: versionMatch ? versionMatch[1] : null
+  };
+}
+
+function scoreWord(queryWord: string, candidateWords: string[]): { score: number; reason: string | null } {
+  let best: { score: number; reason: string | null } = { score: 0, reason: null };
+  for (const word of candidateWords) {
+    let score = 0;
+    let reason: string | null = null;
+    if (word === queryWord) {
+      score = 1.0;
+      reason = `"${queryWord}" matches exactly`;
+    } else if (Math.min(word.length, queryWord.length) >= 3 && (word.startsWith(queryWord) || queryWord.startsWith(word))) {
+      score = 0.8;
+      reason = `"${queryWord}" is a prefix match for "${word}"`;
+    } else if (Math.min(word.length, queryWord.length) >= 3 && (word.includes(queryWord) || queryWord.includes(word))) {
+      score = 0.6;
+      reason = `"${queryWord}" partially matches "${word}"`;
+    } else {
+      const similarity = 1 - levenshtein(queryWord, word) / Math.max(queryWord.length, word.length);
+      if (similarity >= TYPO_SIMILARITY) {
+        score = 0.9 * similarity;
+        reason = `"${queryWord}" looks like a typo of "${word}"`;
+      }
+    }
+    if (score > best.score) {
+      best = { score, reason };
+    }
+  }
+  return best;
+}
+
+export class FileMatcher {
+  private readonly config: MatcherConfig;
+
+  constructor(config: Partial<MatcherConfig> = {}) {
+    this.config = { ...DEFAULT_MATCHER_CONFIG, ...config, termBoosts: { ...DEFAULT_MATCHER_CONFIG.termBoosts, ...config.termBoosts } };
+  }
+
+  match(query: string, availableFiles: (string | CandidateName)[]): MatchResult {
+    const { words, constraints } = parseQuery(query);
+    const names = availableFiles.map(file => typeof file === 'string' ? { filename: file, ...parseCandidate(file) } : file);
+    const scored = names.map(name => ({ name, candidate: this.scoreCandidate(name, words, constraints) }));
+
+    scored.sort(({ candidate: a }, { candidate: b }) => {
+      if (b.score !== a.score) {
+        return b.score - a.score;
+      }
+      // Ties go to the newest version
+      return compareVersions(b.version ? parseVersion(b.version) : [], a.version ? parseVersion(a.version) : []);
+    });
+
+    const ranked = scored.filter(({ candidate }) => candidate.score > 0).slice(0, this.config.maxCandidates);
+    const best = scored[0]?.candidate;
+    return {
+      match: best && best.score >= this.config.threshold ? best.filename : null,
+      score: best ? best.score : 0,
+      candidates: ranked.map(({ candidate }) => candidate),
+      suggestions: (ranked.length > 0 ? ranked : scored.slice(0, this.config.maxCandidates))
+        .map(({ name }) => [...name.words, name.version].filter(Boolean).join(' '))
+    };
+  }
+
+  // "patterns" and "probabilities" take the boost configured for "pattern" and "probability"
+  private termBoost(word: string): number {
+    const forms = [word];
+    if (word.endsWith('ies')) {
+      forms.push(`${word.slice(0, -3)}y`);
+    }
+    if (word.endsWith('es')) {
+      forms.push(word.slice(0, -2));
+    }
+    if (word.endsWith('s') && !word.endsWith('ss')) {
+      forms.push(word.slice(0, -1));
+    }
+    const term = forms.find(form => form in this.config.termBoosts);
+    return term ? this.config.termBoosts[term] : 0;
+  }
+
+  private scoreCandidate(candidate: CandidateName, queryWords: string[], constraints: VersionConstraint[]): MatchCandidate {
+    const { filename } = candidate;
+    const reasons: string[] = [];
+
+    // Weighted mean of per-word scores; configured domain terms carry extra weight
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const queryWord of queryWords) {
+      const { score, reason } = scoreWord(queryWord, candidate.words);
+      const boost = score > 0 ? this.termBoost(queryWord) : 0;
+      const weight = 1 + boost;
+      weighted += score * weight;
+      totalWeight += weight;
+      if (reason) {
+        reasons.push(boost > 0 ? `${reason} (domain term ×${weight.toFixed(1)})` : reason);
+      } else {
+        reasons.push(`"${queryWord}" not found`);
+      }
+    }
+    const nameScore = totalWeight > 0 ? weighted / totalWeight : 0;
+
+    if (constraints.length === 0) {
+      return { filename, score: nameScore, version: candidate.version, reasons };
+    }
+
+    const version = candidate.version ? parseVersion(candidate.version) : null;
+    const constraintText = constraints.map(c => c.text).join(' ');
+    if (!version) {
+      reasons.push(`no version in filename to check against ${constraintText}`);
+      return { filename, score: queryWords.length > 0 ? nameScore * (1 - this.config.versionWeight) : 0, version: null, reasons };
+    }
+    if (!constraints.every(c => satisfies(version, c))) {
+      reasons.push(`version ${candidate.version} does not satisfy ${constraintText}`);
+      return { filename, score: 0, version: candidate.version, reasons };
+    }
+
+    reasons.push(`version ${candidate.version} satisfies ${constraintText}`);
+    // A matching version alone must not rescue a file whose name matches nothing
+    const score = queryWords.length === 0
+      ? 1
+      : nameScore > 0 ? nameScore * (1 - this.config.versionWeight) + this.config.versionWeight : 0;
+    return { filename, score, version: candidate.version, reasons };
+  }
+}
+
+// Per-kind matcher settings from a JSON file, falling back to defaults when absent
+export function loadMatchingConfig(path: string): MatchingConfigFile {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as MatchingConfigFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Invalid matching config ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function formatCandidates(candidates: MatchCandidate[]): string {
+  if (candidates.length === 0) {
+    return 'No candidates scored above zero';
+  }
+  return candidates
+    .map((c, i) => `${i + 1}. ${c.filename} (score ${c.score.toFixed(2)})\n   ${c.reasons.join('; ')}`)
+    .join('\n');
+}
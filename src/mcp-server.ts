@@ -1,17 +1,46 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { readFile, writeFile, readdir, mkdir } from "fs/promises";
-import { join, resolve, dirname } from "path";
-import { fileURLToPath, pathToFileURL } from "url";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
 import { nanoid } from "nanoid";
+import { validateCrystal, formatValidationReport, parseCrystal, extractProtocolSection, layerSymbol, PROTOCOL_LAYERS } from "./crystal-parser.js";
+import type { CrystalData } from "./crystal-types.js";
+import { CrystalStore, CrystalNotFoundError } from "./crystal-store.js";
+import { BUNDLE_EXTENSION } from "./crystal-bundle.js";
+import { startHttpTransport, loadBearerToken, HttpTransportOptions } from "./http-transport.js";
+import { lineageOf, lineageHistory, ancestorChain, latestInLineage } from "./crystal-lineage.js";
+import { formatCandidates } from "./matching.js";
+import { ProtocolEntry } from "./protocol-registry.js";
+import { formatIntegrityReport, encodePublicKey } from "./crystal-integrity.js";
+import { diffCrystals, formatCrystalDiff } from "./crystal-diff.js";
+import { formatMergeReport } from "./crystal-merge.js";
+import { formatMigrationReport } from "./crystal-migration.js";
+import { CrystalService, SpecWriteResult, projectRoot } from "./crystal-service.js";
+import { CrystalConfig, CONFIG_ARG_OPTIONS, configOverridesFrom, loadCrystalConfig } from "./crystal-config.js";
+import { startCrystalApi, CrystalApiOptions } from "./crystal-api.js";
+import { SERVER_NAME, SERVER_VERSION, formatProvenance } from "./crystal-provenance.js";
+import {
+  ToolError, TOOL_ERROR_CODES, outputShape, toolResult, toolFailure, errorResult,
+  matchCandidateSchema, catalogueErrorSchema, specWriteSchema, provenanceSchema, provenanceFilterShape, crystalSummarySchema, validationSchema, integritySchema, migrationReportSchema, protectionSchema, crystalDiffSchema, mergeReportSchema,
+  crystalSummary, validationData, integrityData, mergeReportData
+} from "./tool-results.js";
 
-// Get current file directory for ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const projectRoot = resolve(__dirname, "..");
+// MIME types for resources served from public/
+const CRYSTAL_MIME_TYPE = "application/json";
+const PROTOCOL_MIME_TYPE = "text/plain";
+const CODEX_MIME_TYPE = "text/plain";
+
+// Streamable HTTP defaults (opt-in with --http or CRYSTAL_TRANSPORT=http)
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3333;
+
+// Crystal browser UI and its local API (opt-in with --ui or CRYSTAL_UI_PORT)
+const DEFAULT_UI_PORT = 3334;
 
 /**
  * Crystal MCP Server - A comprehensive MCP server implementation
@@ -21,17 +50,41 @@ const projectRoot = resolve(__dirname, "..");
  */
 class CrystalMCPServer {
   private server: McpServer;
+  private servers = new Set<McpServer>();
+  private core: CrystalService;
+
+  constructor(store?: CrystalStore, config?: CrystalConfig) {
+    this.core = new CrystalService(store, config);
+    this.core.onChange(() => this.notifyResourceListChanged());
+    this.setupErrorHandling();
+    this.server = this.createSessionServer();
+  }
 
-  constructor() {
-    this.server = new McpServer({
-      name: "crystal-mcp-server",
-      version: "1.0.0"
+  // One McpServer per connected client; stdio uses a single one, HTTP one per session
+  private createSessionServer(): McpServer {
+    const server = new McpServer({
+      name: SERVER_NAME,
+      version: SERVER_VERSION
     });
 
-    this.setupErrorHandling();
-    this.setupTools();
-    this.setupResources();
-    this.setupPrompts();
+    this.setupTools(server);
+    this.setupResources(server);
+    this.setupPrompts(server);
+
+    this.servers.add(server);
+    server.server.onclose = () => {
+      if (server !== this.server) {
+        this.servers.delete(server);
+      }
+    };
+    return server;
+  }
+
+  // Every session shares the store, so every connected client hears about changes
+  private notifyResourceListChanged() {
+    for (const server of this.servers) {
+      server.sendResourceListChanged();
+    }
   }
 
   private setupErrorHandling() {
@@ -45,505 +98,1380 @@ class CrystalMCPServer {
     });
   }
 
-  private setupTools() {
+  private setupTools(server: McpServer) {
+    // stdio has no transport session id; one id per connected client stands in for it
+    const fallbackSessionId = nanoid();
+
     // Crystal Import/Export Tools
-    this.server.tool(
+    server.registerTool(
       "import_crystal_spec",
       {
-        spec_query: z.string().describe("Crystal specification query (e.g., 'temporal crystallization 3.0', 'basic 2.0', 'advanced crystallization 4.0')")
+        inputSchema: {
+          spec_query: z.string().describe("Crystal specification query (e.g., 'temporal crystallization 3.0', 'basic 2.0', 'advanced crystallization 4.0')")
+        },
+        outputSchema: outputShape({
+          file: z.string(),
+          query: z.string(),
+          score: z.number(),
+          candidates: z.array(matchCandidateSchema),
+          content: z.string()
+        })
       },
       async ({ spec_query }) => {
         try {
-          const protocolsDir = this.getSafePath("public/protocols");
-          const availableFiles = await readdir(protocolsDir);
-          const protocolFiles = availableFiles.filter(f => f.endsWith('.cp'));
-          
-          if (protocolFiles.length === 0) {
-            return {
-              content: [{
-                type: "text",
-                text: "No crystal specification files found in public/protocols/ directory"
-              }]
-            };
+          const protocol = await this.core.resolveSpec("protocol", spec_query);
+
+          if (protocol.files.length === 0) {
+            return toolFailure("NOT_FOUND", `No crystal specification files found in ${this.core.describePath(this.core.config.paths.protocols)}/ directory`);
           }
 
-          // Smart matching against available protocol files
-          const matchResult = this.findBestProtocolMatch(spec_query, protocolFiles);
-          
-          if (!matchResult.match) {
-            return {
-              content: [{
-                type: "text",
-                text: `No matching crystal specification found for query: "${spec_query}"\n\nAvailable protocol files:\n${protocolFiles.map(f => `- ${f}`).join('\n')}\n\nSuggestions:\n${matchResult.suggestions.map(s => `- ${s}`).join('\n')}`
-              }]
-            };
+          if (!protocol.match || protocol.content === null) {
+            return toolFailure("NO_MATCH", `No matching crystal specification found for query: "${spec_query}"`, {
+              text: `No matching crystal specification found for query: "${spec_query}"\n\nAvailable protocol files:\n${protocol.files.map(f => `- ${f}`).join('\n')}\n\nClosest candidates:\n${formatCandidates(protocol.candidates)}\n\nSuggestions:\n${protocol.suggestions.map(s => `- ${s}`).join('\n')}`,
+              details: { query: spec_query, available: protocol.files, candidates: protocol.candidates, suggestions: protocol.suggestions }
+            });
           }
 
-          const specPath = join(protocolsDir, matchResult.match);
-          const specContent = await readFile(specPath, 'utf-8');
-          
-          return {
-            content: [{
-              type: "text",
-              text: `✅ Crystal Specification imported successfully!\n\n📁 File: ${matchResult.match}\n🔍 Query: "${spec_query}"\n📊 Match Score: ${matchResult.score.toFixed(2)}\n\n📋 Specification Content:\n${specContent}\n\n`
-            }]
-          };
+          return toolResult(
+            `✅ Crystal Specification imported successfully!\n\n📁 File: ${protocol.match}\n🔍 Query: "${spec_query}"\n📊 Match Score: ${protocol.score.toFixed(2)}\n💡 Why: ${protocol.candidates[0].reasons.join('; ')}\n\n📋 Specification Content:\n${protocol.content}\n\n`,
+            { file: protocol.match, query: spec_query, score: protocol.score, candidates: protocol.candidates, content: protocol.content }
+          );
         } catch (error) {
-          return {
-            content: [{
-              type: "text",
-              text: `Error importing crystal specification: ${error instanceof Error ? error.message : 'Unknown error'}`
-            }]
-          };
+          return errorResult(error, "importing crystal specification");
         }
       }
     );
 
-    this.server.tool(
+    server.registerTool(
       "import_codex",
       {
-        spec_query: z.string().describe("Codex specification query (e.g., 'mechanism awareness 2.0', 'agent transmission 1.0', 'probability patterns')")
+        inputSchema: {
+          spec_query: z.string().describe("Codex specification query (e.g., 'mechanism awareness 2.0', 'agent transmission 1.0', 'probability patterns')")
+        },
+        outputSchema: outputShape({
+          file: z.string(),
+          query: z.string(),
+          score: z.number(),
+          candidates: z.array(matchCandidateSchema),
+          content: z.string()
+        })
       },
       async ({ spec_query }) => {
         try {
-          const codexDir = this.getSafePath("public/codex");
-          const availableFiles = await readdir(codexDir);
-          const codexFiles = availableFiles.filter(f => f.endsWith('.cx'));
-          
-          if (codexFiles.length === 0) {
-            return {
-              content: [{
-                type: "text",
-                text: "No codex files found in public/codex/ directory"
-              }]
-            };
+          const codex = await this.core.resolveSpec("codex", spec_query);
+
+          if (codex.files.length === 0) {
+            return toolFailure("NOT_FOUND", `No codex files found in ${this.core.describePath(this.core.config.paths.codex)}/ directory`);
           }
 
-          // Smart matching against available codex files
-          const matchResult = this.findBestCodexMatch(spec_query, codexFiles);
-          
-          if (!matchResult.match) {
-            return {
-              content: [{
-                type: "text",
-                text: `No matching codex found for query: "${spec_query}"\n\nAvailable codex files:\n${codexFiles.map(f => `- ${f}`).join('\n')}\n\nSuggestions:\n${matchResult.suggestions.map(s => `- ${s}`).join('\n')}`
-              }]
-            };
+          if (!codex.match || codex.content === null) {
+            return toolFailure("NO_MATCH", `No matching codex found for query: "${spec_query}"`, {
+              text: `No matching codex found for query: "${spec_query}"\n\nAvailable codex files:\n${codex.files.map(f => `- ${f}`).join('\n')}\n\nClosest candidates:\n${formatCandidates(codex.candidates)}\n\nSuggestions:\n${codex.suggestions.map(s => `- ${s}`).join('\n')}`,
+              details: { query: spec_query, available: codex.files, candidates: codex.candidates, suggestions: codex.suggestions }
+            });
           }
 
-          const codexPath = join(codexDir, matchResult.match);
-          const codexContent = await readFile(codexPath, 'utf-8');
-          
-          return {
-            content: [{
-              type: "text",
-              text: `✅ Codex imported successfully!\n\n📁 File: ${matchResult.match}\n🔍 Query: "${spec_query}"\n📊 Match Score: ${matchResult.score.toFixed(2)}\n\n📋 Codex Content:\n${codexContent}\n\n`
-            }]
-          };
+          return toolResult(
+            `✅ Codex imported successfully!\n\n📁 File: ${codex.match}\n🔍 Query: "${spec_query}"\n📊 Match Score: ${codex.score.toFixed(2)}\n💡 Why: ${codex.candidates[0].reasons.join('; ')}\n\n📋 Codex Content:\n${codex.content}\n\n`,
+            { file: codex.match, query: spec_query, score: codex.score, candidates: codex.candidates, content: codex.content }
+          );
         } catch (error) {
-          return {
-            content: [{
-              type: "text",
-              text: `Error importing codex: ${error instanceof Error ? error.message : 'Unknown error'}`
-            }]
-          };
+          return errorResult(error, "importing codex");
         }
       }
     );
 
-    this.server.tool(
-      "export_crystal",
+    server.registerTool(
+      "list_protocols",
       {
-        title: z.string().optional().describe("Optional title override for the crystal"),
-        spec_version: z.string().default("3.0").describe("Crystal specification version"),
-        manual_content: z.string().optional().describe("Crystal content to export (optional - uses latest crystal artifact from context if not provided)")
+        inputSchema: {
+          kind: z.enum(["protocol", "codex", "all"]).default("all").describe("Which registry entries to list")
+        },
+        outputSchema: outputShape({
+          entries: z.array(z.object({
+            kind: z.enum(["protocol", "codex"]),
+            filename: z.string(),
+            identity: z.string(),
+            name: z.string(),
+            version: z.string().nullable(),
+            declared: z.boolean(),
+            sections: z.array(z.string()),
+            layers: z.array(z.object({ index: z.number(), name: z.string(), brackets: z.number().optional() })),
+            omega: z.string().nullable(),
+            delta: z.string().nullable()
+          })),
+          versions: z.array(z.string())
+        })
       },
-      async ({ title, spec_version, manual_content }) => {
+      async ({ kind }) => {
         try {
-          // Ensure crystals directory exists
-          const crystalsDir = this.getSafePath("public/crystals");
-          try {
-            await mkdir(crystalsDir, { recursive: true });
-          } catch (error) {
-            // Directory might already exist, that's fine
+          const registry = await this.core.loadRegistry();
+          const entries = registry.list(kind === "all" ? undefined : kind);
+          const versions = registry.versions();
+          const data = { entries: entries.map(({ content: _content, ...entry }) => entry), versions };
+          if (entries.length === 0) {
+            return toolResult(`No protocol or codex files found in ${this.core.describePath(this.core.config.paths.protocols)}/ or ${this.core.describePath(this.core.config.paths.codex)}/`, data);
           }
 
-          const crystalId = nanoid();
-          let crystalContent: string;
-          let crystalTitle: string;
+          const sections = (["protocol", "codex"] as const)
+            .filter(entryKind => entries.some(entry => entry.kind === entryKind))
+            .map(entryKind => {
+              const list = entries.filter(entry => entry.kind === entryKind).map(entry => this.formatProtocolEntry(entry)).join('\n\n');
+              return `${entryKind === "protocol" ? '📋 Protocols' : '📚 Codex'}:\n\n${list}`;
+            });
 
-          if (manual_content) {
-            // Use manually provided content
-            crystalContent = manual_content;
-            crystalTitle = title || `Manual_Crystal_${crystalId.slice(0, 8)}`;
-          } else {
-            // Extract latest crystal artifact from context window
-            const contextArtifact = await this.extractLatestCrystalArtifact();
-            
-            if (contextArtifact) {
-              crystalContent = contextArtifact;
-              crystalTitle = title || `Auto_Crystal_${crystalId.slice(0, 8)}`;
-            } else {
-              throw new Error("No crystal artifact found in context window. Please provide manual_content or ensure there's a crystal artifact in the conversation.");
-            }
+          return toolResult(`${sections.join('\n\n')}\n\nValid spec_version values: ${versions.length > 0 ? versions.join(', ') : 'none'}`, data);
+        } catch (error) {
+          return errorResult(error, "listing protocols");
+        }
+      }
+    );
+
+    for (const kind of ["protocol", "codex"] as const) {
+      const label = kind === "protocol" ? "Protocol" : "Codex";
+      server.registerTool(
+        `create_${kind}`,
+        {
+          inputSchema: {
+            content: z.string().describe(kind === "protocol"
+              ? "Full protocol content: a versioned ⟨⟨NAME_vX.Y⟩⟩ header, then ⟨CRYSTAL_STRUCTURE⟩ (with LAYERS), ⟨SYMBOL_SEMANTICS⟩, ⟨EXTRACTION_RULES⟩, ⟨COMPRESSION_STRATEGY⟩, ⟨QUALITY_CRITERIA⟩ and ⟨RECONSTRUCTION_GUARANTEES⟩. The file is named after the header; a registered version is never overwritten"
+              : "Full codex content: a versioned ⟨⟨NAME_vX.Y⟩⟩ header and a ⟨SYMBOL_SEMANTICS⟩ section. The file is named after the header; a registered version is never overwritten"),
+            dry_run: z.boolean().default(false).describe("Only check the content and report the file name it would get")
+          },
+          outputSchema: outputShape(specWriteSchema.shape)
+        },
+        async ({ content, dry_run }) => {
+          try {
+            const created = await this.core.createSpec({ kind, content, dry_run });
+            const verb = created.written ? `${label} created` : `${label} passed all checks (dry run, nothing written)`;
+            return toolResult(`✅ ${verb}!\n\n${this.formatSpecWrite(created)}`, this.specWriteData(created));
+          } catch (error) {
+            return errorResult(error, `creating ${kind}`);
           }
+        }
+      );
+    }
 
-          // Create crystal metadata
-          const crystalData = {
-            id: crystalId,
-            title: crystalTitle,
-            spec_version: spec_version,
-            created_at: new Date().toISOString(),
-            auto_detected: !manual_content,
-            content: crystalContent
-          };
+    server.registerTool(
+      "bump_spec_version",
+      {
+        inputSchema: {
+          kind: z.enum(["protocol", "codex"]).default("protocol").describe("Whether to bump a protocol or a codex file"),
+          spec: z.string().describe("Protocol or codex to publish a new version of, by filename or query; the original stays untouched (e.g. 'CRYSTALLIZATION_PROTOCOL_2.0.cp' or 'crystallization 2.0')"),
+          version: z.string().optional().describe("New version, e.g. '2.1'; must be newer than the source (defaults to incrementing it)"),
+          increment: z.enum(["major", "minor", "patch"]).default("minor").describe("Which part of the version to increment when no version is given"),
+          sections: z.record(z.unknown()).optional().describe("Sections to replace or add, keyed by name (e.g. EXTRACTION_RULES, or Ω/∂); null removes a section. Needs a strict JSON body"),
+          dry_run: z.boolean().default(false).describe("Only check the new version and report the file name it would get")
+        },
+        outputSchema: outputShape({
+          ...specWriteSchema.shape,
+          source: z.object({ filename: z.string(), version: z.string() }),
+          layers_changed: z.boolean()
+        })
+      },
+      async (options) => {
+        try {
+          const bumped = await this.core.bumpSpec(options);
+          const label = bumped.kind === "protocol" ? "Protocol" : "Codex";
+          const verb = bumped.written ? `${label} bumped` : `${label} bump passed all checks (dry run, nothing written)`;
+          const migrationNote = bumped.layersChanged
+            ? `\n\n⚠️ The layer model changed: add a migration rule for ${bumped.source.version} → ${bumped.header.version} to ${this.core.describePath(this.core.config.paths.migrations)}/ so migrate_crystal can move existing crystals`
+            : '';
+          return toolResult(
+            `✅ ${verb}: ${bumped.source.filename} (v${bumped.source.version}) → ${bumped.filename}\n\n${this.formatSpecWrite(bumped)}${migrationNote}`,
+            { ...this.specWriteData(bumped), source: bumped.source, layers_changed: bumped.layersChanged }
+          );
+        } catch (error) {
+          return errorResult(error, "bumping spec version");
+        }
+      }
+    );
 
-          // Write crystal to file
-          const filename = `${crystalId}.crystal`;
-          const filepath = join(crystalsDir, filename);
-          await writeFile(filepath, JSON.stringify(crystalData, null, 2), 'utf-8');
+    server.registerTool(
+      "export_crystal",
+      {
+        inputSchema: {
+          title: z.string().optional().describe("Optional title override for the crystal"),
+          spec_version: z.string().optional().describe("Crystal specification version; must be declared by a registered protocol (defaults to the latest, see list_protocols)"),
+          manual_content: z.string().optional().describe("Crystal content to export (optional - uses the latest crystal artifact in the transcript if not provided)"),
+          transcript_path: z.string().optional().describe("JSON/JSONL conversation export to take the latest crystal from, relative to the data root"),
+          transcript: z.string().optional().describe("Conversation transcript text (or JSON/JSONL) to take the latest crystal from"),
+          validation: z.enum(["off", "warn", "strict"]).default("warn").describe("Structural validation mode: 'strict' refuses malformed crystals, 'warn' saves them with a report, 'off' skips validation"),
+          parent_id: z.string().optional().describe("UUID of the crystal this one continues (records lineage)"),
+          supersedes: z.string().optional().describe("UUID of the crystal this one replaces (records lineage and marks the old version as superseded)"),
+          tags: z.array(z.string()).optional().describe("Free-form tags to store with the crystal"),
+          namespace: z.string().optional().describe("Namespace to store the crystal in, e.g. one per repository (defaults to the server's namespace); parent_id and supersedes refer to crystals in the same namespace"),
+          cwd: z.string().optional().describe("Your working directory, recorded as provenance (the server cannot see it)"),
+          git_head: z.string().optional().describe("Commit hash checked out in cwd (output of `git rev-parse HEAD`), recorded as provenance")
+        },
+        outputSchema: outputShape({
+          crystal: crystalSummarySchema,
+          namespace: z.string(),
+          store: z.object({ kind: z.string(), location: z.string() }),
+          auto_detected: z.boolean(),
+          source: z.object({ kind: z.enum(["manual", "transcript"]), location: z.string().optional() }),
+          protection: protectionSchema,
+          validation: validationSchema.nullable()
+        })
+      },
+      async ({ cwd, git_head, ...options }, extra) => {
+        try {
+          const exported = await this.core.exportCrystal({
+            ...options,
+            provenance: { client: server.server.getClientVersion(), session_id: extra.sessionId ?? fallbackSessionId, cwd, git_head }
+          });
+          if (!exported.crystal) {
+            return toolFailure("INVALID_FORMAT", "Crystal export refused: content is malformed", {
+              text: `Crystal export refused: content is malformed.\n\n${exported.validationNote}`,
+              details: { validation: validationData(exported.validation!) }
+            });
+          }
+          const crystalData = exported.crystal;
+          const lineage = lineageOf(crystalData);
+          const sourceNote = exported.source.location
+            ? `🎯 Latest crystal artifact was automatically detected: ${exported.source.location}`
+            : '📝 Manual content was provided.';
 
-          return {
-            content: [{
-              type: "text",
-              text: `✅ Crystal exported successfully!\n\n🆔 Crystal UUID: ${crystalId}\n📁 File: public/crystals/${filename}\n📝 Title: ${crystalTitle}\n🔧 Spec: ${spec_version}\n⏰ Created: ${new Date().toISOString()}\n🤖 Auto-detected: ${!manual_content}\n\n${!manual_content ? '🎯 Latest crystal artifact was automatically detected from context!' : '📝 Manual content was provided.'}\n\n🔗 Use this UUID to import: import_crystal ${crystalId}\n\n.`
-            }]
-          };
+          return toolResult(
+            `✅ Crystal exported successfully!\n\n🆔 Crystal UUID: ${crystalData.id}\n🗂️ Namespace: ${exported.namespace}\n📁 Store: ${exported.store.kind} (${exported.store.location})\n📝 Title: ${crystalData.title}\n🔧 Spec: ${crystalData.spec_version}\n⏰ Created: ${crystalData.created_at}\n🤖 Auto-detected: ${crystalData.auto_detected}\n🧬 Lineage: ${lineage.parent_id ? `v${lineage.version} of ${lineage.root_id} (${lineage.supersedes ? 'supersedes' : 'parent'} ${lineage.parent_id})` : 'new root'}\n🧾 Provenance: ${crystalData.provenance ? formatProvenance(crystalData.provenance) : 'none'}\n${this.describeProtection(crystalData)}\n\n${sourceNote}\n\n🔗 Use this UUID to import: import_crystal ${crystalData.id}${exported.namespace !== this.core.namespace ? ` (namespace ${exported.namespace})` : ''}${exported.validationNote ? `\n\n⚠️ Validation report:\n${exported.validationNote}` : ''}\n\n.`,
+            {
+              crystal: crystalSummary(crystalData),
+              namespace: exported.namespace,
+              store: exported.store,
+              auto_detected: crystalData.auto_detected,
+              source: exported.source,
+              protection: this.core.protectionOf(crystalData),
+              validation: exported.validation ? validationData(exported.validation) : null
+            }
+          );
         } catch (error) {
-          return {
-            content: [{
-              type: "text",
-              text: `Error exporting crystal: ${error instanceof Error ? error.message : 'Unknown error'}`
-            }]
-          };
+          return errorResult(error, "exporting crystal");
         }
       }
     );
 
-    this.server.tool(
+    server.registerTool(
       "import_crystal",
       {
-        crystal_id: z.string().describe("UUID of the crystal to import"),
-        spec_version: z.string().default("3.0").describe("Crystal specification version to use for reconstruction")
+        inputSchema: {
+          crystal_id: z.string().describe("UUID of the crystal to import"),
+          spec_version: z.string().optional().describe("Crystal specification version to use for reconstruction; must be declared by a registered protocol (defaults to the crystal's own)"),
+          latest: z.boolean().default(false).describe("Import the latest non-superseded crystal in the lineage of crystal_id instead of crystal_id itself"),
+          require_trusted: z.boolean().default(false).describe("Refuse crystals whose content hash fails or that are not signed by a trusted key"),
+          namespace: z.string().optional().describe("Namespace to import from (defaults to the server's namespace, see list_crystals with namespace '*')"),
+          layers: z.array(z.string()).optional().describe("Only these layers, e.g. ['L₉'] or ['6', 'RECONSTRUCTION_PROTOCOL']; the header, Ω and ∂ are always included"),
+          max_tokens: z.number().int().positive().optional().describe("Estimated token budget for the returned content; the rest is available through next_cursor"),
+          strategy: z.enum(["truncate", "summary"]).default("truncate").describe("When the content exceeds max_tokens: 'truncate' returns the first page, 'summary' returns an outline of the layers to choose from"),
+          cursor: z.string().optional().describe("next_cursor from a previous import_crystal response; continues with the same crystal, spec and layers")
+        },
+        outputSchema: outputShape({
+          crystal: crystalSummarySchema,
+          namespace: z.string(),
+          requested_id: z.string(),
+          spec_version: z.string(),
+          integrity: integritySchema,
+          migration: migrationReportSchema.nullable(),
+          layers: z.array(z.string()).nullable(),
+          missing_layers: z.array(z.string()),
+          page: z.object({
+            strategy: z.enum(["truncate", "summary"]),
+            offset: z.number(),
+            tokens: z.number(),
+            total_tokens: z.number(),
+            next_cursor: z.string().nullable()
+          }).nullable(),
+          content: z.string()
+        })
       },
-      async ({ crystal_id, spec_version }) => {
+      async ({ crystal_id, spec_version, latest, require_trusted, namespace, layers, max_tokens, strategy, cursor }) => {
         try {
-          const crystalsDir = this.getSafePath("public/crystals");
-          const filepath = join(crystalsDir, `${crystal_id}.crystal`);
-          
-          const crystalFileContent = await readFile(filepath, 'utf-8');
-          const crystalData = JSON.parse(crystalFileContent);
-
-          // Verify crystal format
-          if (!crystalData.content) {
-            throw new Error("Invalid crystal format: missing content field");
+          const imported = await this.core.importCrystal({ crystal_id, spec_version, latest, namespace, layers, max_tokens, strategy, cursor });
+          const { crystal: crystalData, integrity, migration } = imported;
+          if (require_trusted && !(integrity.ok && integrity.signature === "trusted")) {
+            return toolFailure(integrity.ok ? "UNTRUSTED" : "INTEGRITY_FAILED", `Crystal import refused: ${crystalData.id} is not verified and signed by a trusted key`, {
+              text: `Crystal import refused: ${crystalData.id} is not verified and signed by a trusted key.\n\nIntegrity: ${formatIntegrityReport(integrity)}`,
+              details: { crystal_id: crystalData.id, integrity: integrityData(integrity) }
+            });
           }
 
-          return {
-            content: [{
-              type: "text",
-              text: `Crystal imported successfully using spec ${spec_version}!\n\nCrystal ID: ${crystal_id}\nTitle: ${crystalData.title || 'Untitled'}\nOriginal Spec Version: ${crystalData.spec_version || 'Unknown'}\nCreated: ${crystalData.created_at || 'Unknown'}\n\nCrystal Content for Reconstruction:\n\n${crystalData.content}`
-            }]
-          };
+          const resolvedNote = imported.resolvedFrom
+            ? `Resolved latest in lineage: ${imported.resolvedFrom} → ${crystalData.id} (v${lineageOf(crystalData).version})\n`
+            : '';
+          const migrationNote = migration && migration.report.path.length > 0
+            ? `${formatMigrationReport(migration.report)}\n\n`
+            : '';
+          const layersNote = imported.layers
+            ? `Layers: ${imported.layers.join(', ')}${imported.missingLayers.length > 0 ? ` (not in this crystal: ${imported.missingLayers.join(', ')})` : ''}\n`
+            : '';
+          const { page } = imported;
+          const pageNote = !page ? ''
+            : page.strategy === "summary"
+              ? `Outline only: the crystal is ~${page.totalTokens} tokens, over the max_tokens budget. Import selected layers, or continue with cursor "${page.nextCursor}" to read it in pages.\n\n`
+              : `Page: ~${page.tokens} of ~${page.totalTokens} tokens from offset ${page.offset}${page.nextCursor ? `; continue with cursor "${page.nextCursor}"` : ' (end of content)'}\n\n`;
+
+          return toolResult(
+            `Crystal imported successfully using spec ${imported.spec_version}!\n\n${resolvedNote}Crystal ID: ${crystalData.id || crystal_id}\nNamespace: ${imported.namespace}\nTitle: ${crystalData.title || 'Untitled'}\nOriginal Spec Version: ${crystalData.spec_version || 'Unknown'}\nCreated: ${crystalData.created_at || 'Unknown'}\nLineage: v${lineageOf(crystalData).version} of ${lineageOf(crystalData).root_id}\n${crystalData.provenance ? `Provenance: ${formatProvenance(crystalData.provenance)}\n` : ''}Integrity: ${formatIntegrityReport(integrity)}\n${layersNote}\n${migrationNote}${pageNote}${page?.strategy === "summary" ? 'Crystal Outline' : 'Crystal Content for Reconstruction'}:\n\n${imported.content}`,
+            {
+              crystal: crystalSummary(crystalData),
+              namespace: imported.namespace,
+              requested_id: crystal_id,
+              spec_version: imported.spec_version,
+              integrity: integrityData(integrity),
+              migration: migration ? migration.report : null,
+              layers: imported.layers,
+              missing_layers: imported.missingLayers,
+              page: page ? { strategy: page.strategy, offset: page.offset, tokens: page.tokens, total_tokens: page.totalTokens, next_cursor: page.nextCursor } : null,
+              content: imported.content
+            }
+          );
         } catch (error) {
-          if (error instanceof Error && error.message.includes('ENOENT')) {
+          if (error instanceof CrystalNotFoundError && error.crystalId === crystal_id) {
             // List available crystals
             try {
-              const crystalsDir = this.getSafePath("public/crystals");
-              const crystalFiles = await readdir(crystalsDir);
-              const availableCrystals = crystalFiles
-                .filter(f => f.endsWith('.crystal'))
-                .map(f => f.replace('.crystal', ''));
-              
-              return {
-                content: [{
-                  type: "text",
-                  text: `Crystal not found: ${crystal_id}\n\nAvailable crystals:\n${availableCrystals.length > 0 ? availableCrystals.join('\n') : 'No crystals found'}`
-                }]
-              };
+              const inNamespace = namespace ?? this.core.namespace;
+              const availableCrystals = (await this.core.storeFor(inNamespace).list()).map(crystal => crystal.id);
+
+              return toolFailure("NOT_FOUND", error.message, {
+                text: `Crystal not found in namespace ${inNamespace}: ${crystal_id}\n\nAvailable crystals:\n${availableCrystals.length > 0 ? availableCrystals.join('\n') : 'No crystals found'}`,
+                details: { crystal_id, namespace: inNamespace, available: availableCrystals }
+              });
             } catch (listError) {
-              return {
-                content: [{
-                  type: "text",
-                  text: `Crystal not found: ${crystal_id}\nError listing available crystals: ${listError instanceof Error ? listError.message : 'Unknown error'}`
-                }]
-              };
+              return toolFailure("NOT_FOUND", error.message, {
+                text: `Crystal not found: ${crystal_id}\nError listing available crystals: ${listError instanceof Error ? listError.message : 'Unknown error'}`,
+                details: { crystal_id }
+              });
             }
           }
 
-          return {
-            content: [{
-              type: "text",
-              text: `Error importing crystal: ${error instanceof Error ? error.message : 'Unknown error'}`
-            }]
-          };
+          return errorResult(error, "importing crystal");
         }
       }
     );
 
-    this.server.tool(
-      "list_crystals",
-      {},
-      async () => {
+    server.registerTool(
+      "update_crystal",
+      {
+        inputSchema: {
+          crystal_id: z.string().describe("UUID of the crystal to update"),
+          title: z.string().optional().describe("New title"),
+          content: z.string().optional().describe("Replacement crystal content"),
+          tags: z.array(z.string()).optional().describe("Replace all tags"),
+          add_tags: z.array(z.string()).optional().describe("Tags to add"),
+          remove_tags: z.array(z.string()).optional().describe("Tags to remove"),
+          notes: z.string().optional().describe("Free-form notes (an empty string clears them)"),
+          validation: z.enum(["off", "warn", "strict"]).default("warn").describe("Structural validation of new content, as for export_crystal")
+        },
+        outputSchema: outputShape({
+          crystal: crystalSummarySchema,
+          changes: z.array(z.string()),
+          validation: validationSchema.nullable()
+        })
+      },
+      async (options) => {
         try {
-          const crystalsDir = this.getSafePath("public/crystals");
-          const crystalFiles = await readdir(crystalsDir);
-          const crystals = [];
-
-          for (const file of crystalFiles) {
-            if (file.endsWith('.crystal')) {
-              try {
-                const filepath = join(crystalsDir, file);
-                const crystalContent = await readFile(filepath, 'utf-8');
-                const crystalData = JSON.parse(crystalContent);
-                
-                crystals.push({
-                  id: crystalData.id || file.replace('.crystal', ''),
-                  title: crystalData.title || 'Untitled',
-                  spec_version: crystalData.spec_version || 'Unknown',
-                  created_at: crystalData.created_at || 'Unknown',
-                  size: crystalContent.length
-                });
-              } catch (parseError) {
-                crystals.push({
-                  id: file.replace('.crystal', ''),
-                  title: 'Parse Error',
-                  spec_version: 'Unknown',
-                  created_at: 'Unknown',
-                  size: 0,
-                  error: 'Failed to parse crystal file'
-                });
-              }
+          const { crystal: updated, changes, validation, validationNote } = await this.core.updateCrystal(options);
+          if (!updated) {
+            return toolFailure("INVALID_FORMAT", "Crystal update refused: content is malformed", {
+              text: `Crystal update refused: content is malformed.\n\n${validationNote}`,
+              details: { crystal_id: options.crystal_id, validation: validationData(validation!) }
+            });
+          }
+
+          return toolResult(
+            `✏️ Crystal ${options.crystal_id} updated\n\nChanged: ${changes.join('; ')}\nUpdated: ${updated.updated_at}${validationNote ? `\n\n⚠️ Validation report:\n${validationNote}` : ''}`,
+            { crystal: crystalSummary(updated), changes, validation: validation ? validationData(validation) : null }
+          );
+        } catch (error) {
+          return errorResult(error, "updating crystal");
+        }
+      }
+    );
+
+    server.registerTool(
+      "delete_crystal",
+      {
+        inputSchema: {
+          crystal_id: z.string().describe("UUID of the crystal to delete"),
+          permanent: z.boolean().default(false).describe("Delete for good instead of moving to the trash; also purges a crystal that is already in the trash"),
+          namespace: z.string().optional().describe("Namespace of the crystal (defaults to the server's namespace); it moves to that namespace's trash")
+        },
+        outputSchema: outputShape({
+          id: z.string(),
+          namespace: z.string(),
+          permanent: z.boolean(),
+          trash_location: z.string().nullable()
+        })
+      },
+      async ({ crystal_id, permanent, namespace }) => {
+        try {
+          const deleted = await this.core.deleteCrystal(crystal_id, permanent, namespace);
+          const inNamespace = deleted.namespace !== this.core.namespace ? ` (namespace ${deleted.namespace})` : '';
+          return toolResult(
+            permanent
+              ? `🔥 Crystal ${crystal_id} permanently deleted${inNamespace}`
+              : `🗑️ Crystal ${crystal_id} moved to the trash (${deleted.trashLocation})\n\nRestore it with restore_crystal ${crystal_id}${inNamespace}`,
+            { id: crystal_id, namespace: deleted.namespace, permanent, trash_location: deleted.trashLocation }
+          );
+        } catch (error) {
+          return errorResult(error, "deleting crystal");
+        }
+      }
+    );
+
+    server.registerTool(
+      "restore_crystal",
+      {
+        inputSchema: {
+          crystal_id: z.string().describe("UUID of a crystal in the trash"),
+          namespace: z.string().optional().describe("Namespace whose trash holds the crystal (defaults to the server's namespace)")
+        },
+        outputSchema: outputShape({
+          crystal: crystalSummarySchema,
+          namespace: z.string(),
+          deleted_at: z.string().nullable()
+        })
+      },
+      async ({ crystal_id, namespace = this.core.namespace }) => {
+        try {
+          const { crystal: crystalData, deletedAt } = await this.core.restoreCrystal(crystal_id, namespace);
+          return toolResult(
+            `♻️ Crystal ${crystal_id} restored\n\nNamespace: ${namespace}\nTitle: ${crystalData.title}\nDeleted: ${deletedAt ?? 'Unknown'}`,
+            { crystal: crystalSummary(crystalData), namespace, deleted_at: deletedAt }
+          );
+        } catch (error) {
+          return errorResult(error, "restoring crystal");
+        }
+      }
+    );
+
+    server.registerTool(
+      "verify_crystals",
+      {
+        inputSchema: {
+          crystal_ids: z.array(z.string()).optional().describe("Crystals to verify (defaults to the whole store)"),
+          only_problems: z.boolean().default(false).describe("List only crystals that fail verification or are not signed by a trusted key"),
+          namespace: z.string().optional().describe("Namespace to verify (defaults to the server's namespace)")
+        },
+        outputSchema: outputShape({
+          namespace: z.string(),
+          checked: z.number(),
+          counts: z.object({
+            verified: z.number(),
+            failed: z.number(),
+            unsealed: z.number(),
+            trusted: z.number(),
+            untrusted: z.number(),
+            unreadable: z.number()
+          }),
+          trusted_keys: z.number(),
+          local_key: z.object({ key_id: z.string(), public_key: z.string() }).nullable(),
+          results: z.array(z.object({
+            id: z.string(),
+            title: z.string().optional(),
+            status: z.enum(["verified", "failed", "unsealed", "locked", "unreadable"]),
+            integrity: integritySchema.optional(),
+            error: z.string().optional()
+          }))
+        })
+      },
+      async ({ crystal_ids, only_problems, namespace = this.core.namespace }) => {
+        try {
+          const { counts, entries, signingKey, trustedKeys } = await this.core.verifyCrystals(crystal_ids, namespace);
+          const listed = entries.filter(entry => !only_problems || entry.problem);
+          const lines = listed.map(({ id, title, status, integrity, error }) => {
+            if (status === "unreadable") {
+              return `✗ ${id}: unreadable (${error})`;
+            }
+            if (status === "locked") {
+              return `🔒 ${id} (${title}): ${error}`;
             }
+            return `${!integrity!.ok ? '✗' : integrity!.signature !== "trusted" ? '⚠' : '✓'} ${id} (${title}): ${formatIntegrityReport(integrity!)}`;
+          });
+
+          const keyNote = signingKey
+            ? `🔑 Local signing key: ${signingKey.keyId}\n   Public key (share for trusted-keys.json): ${encodePublicKey(signingKey.publicKey)}`
+            : '🔑 No local signing key (set CRYSTAL_SIGNING_KEY_FILE)';
+          const summary = `🔏 Verified ${entries.length} crystal(s) in namespace ${namespace}: ${counts.verified} intact, ${counts.failed} failed, ${counts.unsealed} without a hash, ${counts.unreadable} unreadable\n✍️ Signatures: ${counts.trusted} trusted, ${counts.untrusted} untrusted (${trustedKeys} trusted key(s))`;
+
+          return toolResult(`${summary}\n${keyNote}\n\n${lines.join('\n') || (only_problems ? 'No problems found' : 'No crystals found')}`, {
+            namespace,
+            checked: entries.length,
+            counts,
+            trusted_keys: trustedKeys,
+            local_key: signingKey ? { key_id: signingKey.keyId, public_key: encodePublicKey(signingKey.publicKey) } : null,
+            results: listed.map(({ problem: _problem, integrity, ...entry }) => ({ ...entry, ...(integrity ? { integrity: integrityData(integrity) } : {}) }))
+          });
+        } catch (error) {
+          return errorResult(error, "verifying crystals");
+        }
+      }
+    );
+
+    server.registerTool(
+      "rotate_encryption_key",
+      {
+        inputSchema: {
+          new_key_file: z.string().optional().describe("File inside the data root holding the new 32-byte key (base64 or hex); omit to re-encrypt with the current key"),
+          encrypt_plaintext: z.boolean().default(true).describe("Also encrypt crystals that are stored as plaintext")
+        },
+        outputSchema: outputShape({
+          active_key_id: z.string().nullable(),
+          previous_key_id: z.string().nullable(),
+          rewritten: z.number(),
+          locked: z.number(),
+          stores: z.array(z.object({
+            namespace: z.string().nullable(),
+            store: z.enum(["store", "trash", "backup"]),
+            backup: z.string().nullable(),
+            rewritten: z.array(z.string()),
+            current: z.number(),
+            plaintext: z.array(z.string()),
+            locked: z.array(z.string())
+          }))
+        })
+      },
+      async ({ new_key_file, encrypt_plaintext }) => {
+        try {
+          const rotation = await this.core.rotateEncryptionKey({ new_key_file, encrypt_plaintext });
+          const lines = rotation.stores.flatMap(result => {
+            const label = result.backup ? `backup ${result.backup}` : `${result.namespace} ${result.store}`;
+            return [
+              `${label}: ${result.rewritten.length} re-encrypted, ${result.current} already current, ${result.plaintext.length} left as plaintext, ${result.locked.length} locked`,
+              ...(result.locked.length > 0 ? [`   🔒 No key for: ${result.locked.join(', ')} (add the old key file to CRYSTAL_ENCRYPTION_PREVIOUS_KEY_FILES and run again)`] : [])
+            ];
+          });
+
+          const keyNote = rotation.keyFile && rotation.activeKeyId !== rotation.previousKeyId
+            ? `🔑 Active key: ${rotation.previousKeyId ?? 'none'} → ${rotation.activeKeyId}\n⚠️ Set CRYSTAL_ENCRYPTION_KEY_FILE=${rotation.keyFile} before restarting the server${rotation.locked > 0 ? ' and keep the old key until no crystal is locked' : ''}`
+            : `🔑 Active key: ${rotation.activeKeyId}`;
+
+          return toolResult(
+            `🔄 Encryption key rotation complete: ${rotation.rewritten} crystal(s) rewritten, ${rotation.locked} locked\n${keyNote}\n\n${lines.join('\n')}`,
+            { active_key_id: rotation.activeKeyId, previous_key_id: rotation.previousKeyId, rewritten: rotation.rewritten, locked: rotation.locked, stores: rotation.stores }
+          );
+        } catch (error) {
+          return errorResult(error, "rotating encryption key");
+        }
+      }
+    );
+
+    server.registerTool(
+      "validate_crystal",
+      {
+        inputSchema: {
+          crystal_id: z.string().optional().describe("UUID of a stored crystal to validate"),
+          content: z.string().optional().describe("Raw crystal content to validate (used when crystal_id is not provided)")
+        },
+        outputSchema: outputShape({
+          crystal_id: z.string().nullable(),
+          valid: z.boolean(),
+          issues: validationSchema.shape.issues,
+          header: z.string().nullable(),
+          omega: z.string().nullable(),
+          delta: z.string().nullable(),
+          layers: z.array(z.object({
+            index: z.number(),
+            symbol: z.string(),
+            name: z.string(),
+            present: z.boolean(),
+            entries: z.number()
+          }))
+        })
+      },
+      async ({ crystal_id, content }) => {
+        try {
+          let crystalContent: string;
+          let source: string;
+          let layerModel = PROTOCOL_LAYERS;
+
+          if (crystal_id) {
+            const crystalData = await this.core.loadCrystal(crystal_id);
+            crystalContent = crystalData.content;
+            source = `Crystal ID: ${crystal_id}`;
+            layerModel = (await this.core.loadRegistry()).layerModel(crystalData.spec_version);
+          } else if (content) {
+            crystalContent = content;
+            source = "Inline content";
+          } else {
+            throw new ToolError("INVALID_ARGUMENT", "Provide either crystal_id or content to validate");
           }
 
-          return {
-            content: [{
-              type: "text",
-              text: `Available Crystals (${crystals.length}):\n\n${crystals.length > 0 ? JSON.stringify(crystals, null, 2) : 'No crystals found'}`
-            }]
-          };
+          const result = validateCrystal(crystalContent, layerModel);
+
+          return toolResult(`${source}\n\n${formatValidationReport(result)}`, {
+            crystal_id: crystal_id ?? null,
+            ...validationData(result),
+            header: result.crystal.header,
+            omega: result.crystal.coreTransform.omega,
+            delta: result.crystal.coreTransform.delta,
+            layers: result.crystal.layers.map(layer => ({
+              index: layer.index,
+              symbol: layer.symbol,
+              name: layer.name,
+              present: layer.present,
+              entries: layer.entries.length
+            }))
+          });
         } catch (error) {
-          return {
-            content: [{
-              type: "text",
-              text: `Error listing crystals: ${error instanceof Error ? error.message : 'Unknown error'}`
-            }]
+          return errorResult(error, "validating crystal");
+        }
+      }
+    );
+
+    server.registerTool(
+      "diff_crystals",
+      {
+        inputSchema: {
+          from_id: z.string().describe("UUID of the earlier crystal"),
+          to_id: z.string().describe("UUID of the later crystal"),
+          format: z.enum(["text", "json", "both"]).default("text").describe("Human-readable summary, structured JSON, or both (structuredContent always carries the JSON)")
+        },
+        outputSchema: outputShape({
+          diff: crystalDiffSchema
+        })
+      },
+      async ({ from_id, to_id, format }) => {
+        try {
+          const [from, to] = await Promise.all([this.core.loadCrystal(from_id), this.core.loadCrystal(to_id)]);
+          const registry = await this.core.loadRegistry();
+          const diff = diffCrystals(from, to, registry.layerModel(from.spec_version), registry.layerModel(to.spec_version));
+
+          const sections: string[] = [];
+          if (format !== "json") {
+            sections.push(`🔀 Crystal diff\n\n${formatCrystalDiff(diff)}`);
+          }
+          if (format !== "text") {
+            sections.push(JSON.stringify(diff, null, 2));
+          }
+
+          return toolResult(sections.join('\n\n'), { diff });
+        } catch (error) {
+          return errorResult(error, "comparing crystals");
+        }
+      }
+    );
+
+    server.registerTool(
+      "merge_crystals",
+      {
+        inputSchema: {
+          crystal_ids: z.array(z.string()).min(2).describe("UUIDs of the crystals to merge (at least two)"),
+          title: z.string().optional().describe("Title of the merged crystal"),
+          spec_version: z.string().optional().describe("Spec version of the merged crystal (defaults to the latest registered); sources in other versions are migrated first"),
+          tags: z.array(z.string()).optional().describe("Tags for the merged crystal (defaults to the union of the sources' tags)"),
+          validation: z.enum(["off", "warn", "strict"]).default("warn").describe("Structural validation of the merged crystal, as for export_crystal"),
+          namespace: z.string().optional().describe("Namespace of the crystals to merge, where the merged crystal is stored too (defaults to the server's namespace)"),
+          cwd: z.string().optional().describe("Your working directory, recorded as provenance (the server cannot see it)"),
+          git_head: z.string().optional().describe("Commit hash checked out in cwd (output of `git rev-parse HEAD`), recorded as provenance")
+        },
+        outputSchema: outputShape({
+          crystal: crystalSummarySchema,
+          namespace: z.string(),
+          protection: protectionSchema,
+          report: mergeReportSchema,
+          migrations: z.array(z.object({ crystal_id: z.string(), report: migrationReportSchema })),
+          validation: validationSchema.nullable()
+        })
+      },
+      async ({ cwd, git_head, namespace = this.core.namespace, ...options }, extra) => {
+        try {
+          const merged = await this.core.mergeCrystals({
+            ...options,
+            namespace,
+            provenance: { client: server.server.getClientVersion(), session_id: extra.sessionId ?? fallbackSessionId, cwd, git_head }
+          });
+          const { report, migrations } = merged;
+          if (!merged.crystal) {
+            return toolFailure("INVALID_FORMAT", "Crystal merge refused: the merged crystal is malformed", {
+              text: `Crystal merge refused: the merged crystal is malformed.\n\n${formatMergeReport(report)}\n\n${merged.validationNote}`,
+              details: { report: mergeReportData(report), validation: validationData(merged.validation!) }
+            });
+          }
+          const crystalData = merged.crystal;
+          const migrationNotes = migrations.map(migration => `${migration.crystal_id}: ${formatMigrationReport(migration.report).split('\n')[0]}`);
+
+          return toolResult(
+            `⊕ Crystals merged successfully!\n\n🆔 Crystal UUID: ${crystalData.id}\n🗂️ Namespace: ${namespace}\n📝 Title: ${crystalData.title}\n🔧 Spec: ${merged.spec_version}\n🧾 Provenance: ${crystalData.provenance ? formatProvenance(crystalData.provenance) : 'none'}\n${this.describeProtection(crystalData)}\n\n${formatMergeReport(report)}${migrationNotes.length > 0 ? `\n\nMigrated sources:\n${migrationNotes.map(note => `- ${note}`).join('\n')}` : ''}${merged.validationNote ? `\n\n⚠️ Validation report:\n${merged.validationNote}` : ''}\n\n🔗 Use this UUID to import: import_crystal ${crystalData.id}${namespace !== this.core.namespace ? ` (namespace ${namespace})` : ''}`,
+            {
+              crystal: crystalSummary(crystalData),
+              namespace,
+              protection: this.core.protectionOf(crystalData),
+              report: mergeReportData(report),
+              migrations,
+              validation: merged.validation ? validationData(merged.validation) : null
+            }
+          );
+        } catch (error) {
+          return errorResult(error, "merging crystals");
+        }
+      }
+    );
+
+    server.registerTool(
+      "search_crystals",
+      {
+        inputSchema: {
+          query: z.string().default("").describe("Full-text query over crystal titles and layers (e.g., 'auth refactor token expiry')"),
+          spec_version: z.string().optional().describe("Only crystals exported with this spec version"),
+          created_after: z.string().optional().describe("Only crystals created at or after this ISO date"),
+          created_before: z.string().optional().describe("Only crystals created at or before this ISO date"),
+          tags: z.array(z.string()).optional().describe("Only crystals carrying all of these tags"),
+          ...provenanceFilterShape,
+          limit: z.number().int().min(1).max(100).default(10).describe("Maximum number of results")
+        },
+        outputSchema: outputShape({
+          query: z.string(),
+          indexed: z.number(),
+          hits: z.array(z.object({
+            id: z.string(),
+            title: z.string(),
+            spec_version: z.string(),
+            created_at: z.string(),
+            tags: z.array(z.string()),
+            provenance: provenanceSchema.optional(),
+            score: z.number(),
+            field_scores: z.record(z.number()),
+            snippet: z.string()
+          }))
+        })
+      },
+      async (filters) => {
+        const { query } = filters;
+        try {
+          const { hits, indexed } = await this.core.searchCrystals(filters);
+          const data = {
+            query,
+            indexed,
+            hits: hits.map(({ fieldScores, ...hit }) => ({ ...hit, field_scores: fieldScores }))
           };
+
+          if (hits.length === 0) {
+            return toolResult(`No crystals found for query: "${query}" (${indexed} crystals indexed)`, data);
+          }
+
+          const results = hits.map((hit, i) => {
+            const layers = Object.entries(hit.fieldScores)
+              .sort((a, b) => b[1] - a[1])
+              .map(([field, score]) => `${field} ${score.toFixed(2)}`)
+              .join(', ');
+            return `${i + 1}. ${hit.title} (${hit.id})\n   Score: ${hit.score.toFixed(2)}${layers ? ` [${layers}]` : ''}\n   Spec: ${hit.spec_version} | Created: ${hit.created_at}${hit.tags.length > 0 ? ` | Tags: ${hit.tags.join(', ')}` : ''}\n   ${hit.snippet}`;
+          });
+
+          return toolResult(`Search Results for "${query}" (${hits.length} of ${indexed} crystals):\n\n${results.join('\n\n')}`, data);
+        } catch (error) {
+          return errorResult(error, "searching crystals");
         }
       }
     );
-  }
 
-  private setupResources() {
-    // No resources currently configured
-  }
+    server.registerTool(
+      "export_bundle",
+      {
+        inputSchema: {
+          crystal_ids: z.array(z.string()).optional().describe("UUIDs of the crystals to bundle (all crystals if omitted)"),
+          codex_queries: z.array(z.string()).optional().describe("Additional codex queries to include (codex files named in crystal content are included automatically)"),
+          output_path: z.string().optional().describe(`Where to write the bundle, relative to the data root (default: bundles/bundle-<timestamp>${BUNDLE_EXTENSION})`),
+          allow_plaintext: z.boolean().default(false).describe("Bundle crystals that are encrypted at rest; the bundle holds them as plaintext"),
+          namespace: z.string().optional().describe("Namespace to bundle crystals from (defaults to the server's namespace)")
+        },
+        outputSchema: outputShape({
+          path: z.string(),
+          size: z.number(),
+          created_at: z.string(),
+          crystals: z.array(z.object({
+            id: z.string(),
+            title: z.string(),
+            spec_version: z.string(),
+            protocol: z.string().nullable(),
+            codex: z.array(z.string())
+          })),
+          files: z.array(z.object({
+            path: z.string(),
+            kind: z.enum(["crystal", "protocol", "codex"]),
+            sha256: z.string(),
+            size: z.number()
+          })),
+          missing_protocols: z.array(z.string()),
+          decrypted: z.array(z.string())
+        })
+      },
+      async (options) => {
+        try {
+          const { path, size, manifest, missingProtocols, decrypted } = await this.core.exportBundle(options);
+          const fileLines = manifest.files.map(f => `- ${f.path} (${f.size} bytes, sha256 ${f.sha256.slice(0, 16)}…)`);
+          const missingLines = missingProtocols.map(id => `- ${id} (spec ${manifest.crystals.find(crystal => crystal.id === id)!.spec_version})`);
+          const plaintextNote = decrypted.length > 0
+            ? `\n\n⚠️ ${decrypted.length} crystal(s) encrypted at rest are in this bundle as plaintext: ${decrypted.join(', ')}`
+            : '';
+          return toolResult(
+            `✅ Bundle exported successfully!\n\n📦 File: ${path}\n💎 Crystals: ${manifest.crystals.length}\n📏 Size: ${size} bytes\n\nContents:\n${fileLines.join('\n')}${missingLines.length > 0 ? `\n\n⚠️ No protocol file found for:\n${missingLines.join('\n')}` : ''}${plaintextNote}`,
+            {
+              path,
+              size,
+              created_at: manifest.created_at,
+              crystals: manifest.crystals.map(({ path: _path, ...entry }) => entry),
+              files: manifest.files,
+              missing_protocols: missingProtocols,
+              decrypted
+            }
+          );
+        } catch (error) {
+          return errorResult(error, "exporting bundle");
+        }
+      }
+    );
 
-  private setupPrompts() {
-    // No prompts currently configured
-  }
+    server.registerTool(
+      "import_bundle",
+      {
+        inputSchema: {
+          bundle_path: z.string().describe("Path of the bundle archive, relative to the data root"),
+          on_collision: z.enum(["skip", "overwrite", "reid"]).default("skip").describe("What to do when a crystal id already exists: keep the local crystal, replace it, or import under a new id (protocol and codex files are never replaced)"),
+          namespace: z.string().optional().describe("Namespace to import the crystals into (defaults to the server's namespace)")
+        },
+        outputSchema: outputShape({
+          path: z.string(),
+          namespace: z.string(),
+          created_at: z.string(),
+          files_verified: z.number(),
+          on_collision: z.enum(["skip", "overwrite", "reid"]),
+          collisions: z.array(z.string()),
+          crystals: z.array(z.object({
+            id: z.string(),
+            action: z.enum(["added", "overwritten", "reid", "skipped"]),
+            original_id: z.string().optional()
+          })),
+          dependencies: z.array(z.object({
+            path: z.string(),
+            action: z.enum(["added", "unchanged", "kept_local"])
+          }))
+        })
+      },
+      async ({ bundle_path, on_collision, namespace = this.core.namespace }) => {
+        try {
+          const { manifest, crystals, collisions, dependencies } = await this.core.importBundle({ bundle_path, on_collision, namespace });
+          const dependencyLines = dependencies.map(({ path, action, localSha256 }) =>
+            action === "added" ? `+ ${path}`
+              : action === "unchanged" ? `= ${path} (already present)`
+                : localSha256 ? `⚠️ ${path} differs locally (sha256 ${localSha256.slice(0, 16)}…), kept local version`
+                  : `⚠️ ${path} appeared locally during the import, kept local version`);
+          const crystalLines = crystals.map(({ id, action, original_id }) =>
+            action === "skipped" ? `= crystal ${id} (exists, skipped)`
+              : action === "reid" ? `+ crystal ${id} (re-id of ${original_id})`
+                : `${action === "overwritten" ? '~' : '+'} crystal ${id}`);
+          const written = crystals.filter(crystal => crystal.action !== "skipped").length;
 
-  // Smart protocol file matching
-  private findBestProtocolMatch(query: string, availableFiles: string[]): {
-    match: string | null;
-    score: number;
-    suggestions: string[];
-  } {
-    const normalizedQuery = query.toLowerCase().trim();
-    const queryWords = normalizedQuery.split(/\s+/);
-    
-    // Score each available file
-    const scoredFiles = availableFiles.map(filename => {
-      const normalizedFilename = filename.toLowerCase().replace(/[_.-]/g, ' ');
-      const score = this.calculateProtocolMatchScore(queryWords, normalizedFilename);
-      return { filename, score };
-    });
+          return toolResult(
+            `✅ Bundle imported successfully!\n\n📦 File: ${bundle_path}\n🗂️ Namespace: ${namespace}\n⏰ Bundle created: ${manifest.created_at}\n🔐 Checksums verified: ${manifest.files.length} files\n💎 Crystals imported: ${written} of ${manifest.crystals.length}\n🔀 Collisions: ${collisions.length} (${on_collision})\n\n${[...dependencyLines, ...crystalLines].join('\n')}`,
+            {
+              path: bundle_path,
+              namespace,
+              created_at: manifest.created_at,
+              files_verified: manifest.files.length,
+              on_collision,
+              collisions,
+              crystals,
+              dependencies: dependencies.map(({ path, action }) => ({ path, action }))
+            }
+          );
+        } catch (error) {
+          return errorResult(error, "importing bundle");
+        }
+      }
+    );
 
-    // Sort by score (highest first)
-    scoredFiles.sort((a, b) => b.score - a.score);
-    
-    const bestMatch = scoredFiles[0];
-    const threshold = 0.3; // Minimum score to consider a match
-    
-    // Generate suggestions for better matches
-    const suggestions = this.generateProtocolSuggestions(availableFiles);
-    
-    return {
-      match: bestMatch && bestMatch.score >= threshold ? bestMatch.filename : null,
-      score: bestMatch ? bestMatch.score : 0,
-      suggestions
-    };
+    server.registerTool(
+      "migrate_crystals",
+      {
+        inputSchema: {
+          target_version: z.string().describe("Spec version to migrate to; must be declared by a registered protocol"),
+          crystal_ids: z.array(z.string()).optional().describe("Crystals to migrate (defaults to every stored crystal)"),
+          dry_run: z.boolean().default(false).describe("Report what would change without writing anything"),
+          namespace: z.string().optional().describe("Namespace to migrate (defaults to the server's namespace)")
+        },
+        outputSchema: outputShape({
+          target_version: z.string(),
+          namespace: z.string(),
+          dry_run: z.boolean(),
+          migrated: z.number(),
+          failed: z.number(),
+          backup_dir: z.string().nullable(),
+          results: z.array(z.object({
+            id: z.string(),
+            status: z.enum(["migrated", "current", "failed"]),
+            report: migrationReportSchema.optional(),
+            error: z.object({ code: z.enum(TOOL_ERROR_CODES), message: z.string() }).optional()
+          }))
+        })
+      },
+      async ({ namespace = this.core.namespace, ...options }) => {
+        try {
+          const { spec_version: targetSpec, entries, migrated, failed, backupDir } = await this.core.migrateCrystals({ ...options, namespace });
+          const lines = entries.map(({ id, title, status, report, error }) =>
+            status === "failed" ? `❌ ${id}: ${error!.message}`
+              : status === "current" ? `⏭️ ${id}: already at spec ${targetSpec}`
+                : `✅ ${id} (${title})\n${formatMigrationReport(report!).split('\n').map(line => `   ${line}`).join('\n')}`);
+          const summary = options.dry_run
+            ? `🔍 Dry run: ${migrated} crystal(s) in namespace ${namespace} would be migrated to spec ${targetSpec}, ${failed} cannot be`
+            : `🔄 Migrated ${migrated} crystal(s) in namespace ${namespace} to spec ${targetSpec}, ${failed} failed${backupDir ? `\n💾 Originals kept in ${backupDir}` : ''}`;
+
+          return toolResult(`${summary}\n\n${lines.join('\n\n') || 'No crystals found'}`, {
+            target_version: targetSpec,
+            namespace,
+            dry_run: options.dry_run,
+            migrated,
+            failed,
+            backup_dir: backupDir,
+            results: entries.map(({ title: _title, ...entry }) => entry)
+          });
+        } catch (error) {
+          return errorResult(error, "migrating crystals");
+        }
+      }
+    );
+
+    server.registerTool(
+      "crystal_history",
+      {
+        inputSchema: {
+          crystal_id: z.string().describe("UUID of any crystal in the lineage"),
+          namespace: z.string().optional().describe("Namespace of the lineage (defaults to the server's namespace)")
+        },
+        outputSchema: outputShape({
+          root_id: z.string(),
+          versions: z.array(z.object({
+            id: z.string(),
+            title: z.string(),
+            created_at: z.string(),
+            version: z.number(),
+            root_id: z.string(),
+            parent_id: z.string().optional(),
+            supersedes: z.string().optional(),
+            superseded: z.boolean()
+          })),
+          ancestry: z.array(z.string()),
+          latest_id: z.string().nullable()
+        })
+      },
+      async ({ crystal_id, namespace }) => {
+        try {
+          const crystals = await this.core.readAllCrystals(namespace);
+          const history = lineageHistory(crystals, crystal_id);
+          if (history.length === 0) {
+            throw new CrystalNotFoundError(crystal_id);
+          }
+
+          const chain = ancestorChain(crystals, crystal_id).map(c => c.id);
+          const latest = latestInLineage(crystals, crystal_id);
+          const lines = history.map(entry => {
+            const markers = [
+              entry.id === crystal_id ? 'requested' : null,
+              entry.id === latest?.id ? 'latest' : null,
+              entry.superseded ? 'superseded' : null
+            ].filter(Boolean);
+            return `v${entry.version} ${entry.id} - ${entry.title} (${entry.created_at})${entry.parent_id ? ` ← ${entry.parent_id}` : ''}${markers.length > 0 ? ` [${markers.join(', ')}]` : ''}`;
+          });
+
+          return toolResult(
+            `Crystal Lineage (root ${history[0].root_id}, ${history.length} versions):\n\n${lines.join('\n')}\n\nAncestry of ${crystal_id}:\n${chain.join(' → ')}\n\nLatest in lineage: ${latest ? latest.id : 'Unknown'}`,
+            { root_id: history[0].root_id, versions: history, ancestry: chain, latest_id: latest?.id ?? null }
+          );
+        } catch (error) {
+          return errorResult(error, "reading crystal history");
+        }
+      }
+    );
+
+    server.registerTool(
+      "list_crystals",
+      {
+        inputSchema: {
+          collapse_superseded: z.boolean().default(false).describe("Hide crystals that a newer version supersedes"),
+          tags: z.array(z.string()).optional().describe("Only crystals carrying all of these tags"),
+          sort_by: z.enum(["created_at", "title", "tags"]).optional().describe("Sort field ('tags' groups crystals by their sorted tag list); store order when omitted"),
+          order: z.enum(["asc", "desc"]).default("asc").describe("Sort direction"),
+          trashed: z.boolean().default(false).describe("List the trash instead of stored crystals"),
+          namespace: z.string().optional().describe("Namespace to list, or '*' for every namespace (defaults to the server's namespace)"),
+          ...provenanceFilterShape
+        },
+        outputSchema: outputShape({
+          trashed: z.boolean(),
+          namespaces: z.array(z.string()),
+          crystals: z.array(z.object({
+            id: z.string(),
+            namespace: z.string(),
+            title: z.string(),
+            spec_version: z.string(),
+            created_at: z.string(),
+            tokens: z.number().nullable(),
+            tags: z.array(z.string()),
+            updated_at: z.string().optional(),
+            deleted_at: z.string().optional(),
+            merged_from: z.array(z.string()).optional(),
+            provenance: provenanceSchema.optional(),
+            encrypted: z.boolean().optional(),
+            key_id: z.string().optional(),
+            locked: z.boolean().optional(),
+            root_id: z.string().optional(),
+            version: z.number().optional(),
+            parent_id: z.string().optional(),
+            supersedes: z.string().optional()
+          })),
+          errors: z.array(catalogueErrorSchema.extend({ namespace: z.string() }))
+        })
+      },
+      async (options) => {
+        const { trashed, namespace } = options;
+        try {
+          const { crystals, errors } = await this.core.listCrystals(options);
+          const namespaces = namespace === "*" ? await this.core.listNamespaces() : [namespace ?? this.core.namespace];
+          const errorNote = errors.length > 0
+            ? `\n\n⚠️ Unreadable crystals (${errors.length}):\n${errors.map(error => `- ${error.namespace}/${error.name}: ${error.message}`).join('\n')}`
+            : '';
+
+          return toolResult(
+            `${trashed ? 'Crystals in Trash' : 'Available Crystals'} in ${namespaces.length === 1 ? `namespace ${namespaces[0]}` : `namespaces ${namespaces.join(', ')}`} (${crystals.length}):\n\n${crystals.length > 0 ? JSON.stringify(crystals, null, 2) : 'No crystals found'}${errorNote}`,
+            { trashed, namespaces, crystals, errors }
+          );
+        } catch (error) {
+          return errorResult(error, "listing crystals");
+        }
+      }
+    );
   }
 
-  private calculateProtocolMatchScore(queryWords: string[], filename: string): number {
-    let score = 0;
-    const filenameWords = filename.split(/\s+/);
-    
-    // Exact word matches get high score
-    for (const queryWord of queryWords) {
-      for (const filenameWord of filenameWords) {
-        if (filenameWord.includes(queryWord) || queryWord.includes(filenameWord)) {
-          if (filenameWord === queryWord) {
-            score += 1.0; // Exact match
-          } else if (filenameWord.includes(queryWord) || queryWord.includes(filenameWord)) {
-            score += 0.7; // Partial match
+  private setupResources(server: McpServer) {
+    // Stored crystals: crystal://{id}
+    server.resource(
+      "crystal",
+      new ResourceTemplate("crystal://{id}", {
+        list: async () => {
+          const crystals = await this.core.readCrystalCatalogue();
+          return {
+            resources: crystals.map(crystal => ({
+              uri: `crystal://${crystal.id}`,
+              name: crystal.title,
+              description: `Crystal (spec ${crystal.spec_version}, created ${crystal.created_at})`,
+              mimeType: CRYSTAL_MIME_TYPE
+            }))
+          };
+        },
+        complete: {
+          id: async (value) => {
+            const crystals = await this.core.store.list();
+            return crystals.map(crystal => crystal.id).filter(id => id.startsWith(value));
           }
         }
+      }),
+      { description: "Stored crystal artifacts", mimeType: CRYSTAL_MIME_TYPE },
+      async (uri, { id }) => {
+        const crystalData = await this.core.loadCrystal(String(id));
+        return {
+          contents: [{ uri: uri.href, mimeType: CRYSTAL_MIME_TYPE, text: JSON.stringify(crystalData, null, 2) }]
+        };
       }
-    }
-    
-    // Version number matching (look for patterns like "3.0", "2.1", etc.)
-    const versionRegex = /\d+\.?\d*/g;
-    const queryVersions = queryWords.filter(word => versionRegex.test(word));
-    const filenameVersions = filename.match(versionRegex) || [];
-    
-    for (const queryVersion of queryVersions) {
-      for (const filenameVersion of filenameVersions) {
-        if (queryVersion === filenameVersion) {
-          score += 0.8; // Version exact match
+    );
+
+    // Crystals of another namespace: crystal://{namespace}/{id} (list_crystals lists them)
+    server.resource(
+      "namespaced-crystal",
+      new ResourceTemplate("crystal://{namespace}/{id}", {
+        list: undefined,
+        complete: {
+          namespace: async (value) => (await this.core.listNamespaces()).filter(namespace => namespace.startsWith(value))
         }
+      }),
+      { description: "Stored crystal artifacts of a namespace", mimeType: CRYSTAL_MIME_TYPE },
+      async (uri, { namespace, id }) => {
+        const crystalData = await this.core.loadCrystal(String(id), String(namespace));
+        return {
+          contents: [{ uri: uri.href, mimeType: CRYSTAL_MIME_TYPE, text: JSON.stringify(crystalData, null, 2) }]
+        };
       }
-    }
-    
-    // Normalize score by query length to prevent bias toward longer queries
-    return queryWords.length > 0 ? score / queryWords.length : 0;
+    );
+
+    // Crystallization protocols: protocol://{name}/{version}
+    server.resource(
+      "protocol",
+      new ResourceTemplate("protocol://{name}/{version}", {
+        list: async () => {
+          const protocolFiles = await this.core.listSpecFiles("protocol");
+          return {
+            resources: protocolFiles.map(filename => {
+              const { name, version } = this.splitVersionedFilename(filename, '.cp');
+              return {
+                uri: `protocol://${name}/${version}`,
+                name: filename,
+                description: `Crystallization protocol ${name} v${version}`,
+                mimeType: PROTOCOL_MIME_TYPE
+              };
+            })
+          };
+        },
+        complete: {
+          name: async (value) => {
+            const protocolFiles = await this.core.listSpecFiles("protocol");
+            const names = protocolFiles.map(f => this.splitVersionedFilename(f, '.cp').name);
+            return [...new Set(names)].filter(name => name.toLowerCase().startsWith(value.toLowerCase()));
+          }
+        }
+      }),
+      { description: "Crystallization protocol specifications", mimeType: PROTOCOL_MIME_TYPE },
+      async (uri, { name, version }) => {
+        const protocolFiles = await this.core.listSpecFiles("protocol");
+        const filename = protocolFiles.find(f => {
+          const parts = this.splitVersionedFilename(f, '.cp');
+          return parts.name.toLowerCase() === String(name).toLowerCase() && parts.version === String(version);
+        });
+        if (!filename) {
+          throw new Error(`Protocol not found: ${name} v${version}`);
+        }
+
+        const protocol = (await this.core.loadRegistry()).get("protocol", filename)!;
+        return {
+          contents: [{ uri: uri.href, mimeType: PROTOCOL_MIME_TYPE, text: protocol.content }]
+        };
+      }
+    );
+
+    // Codex entries: codex://{name}
+    server.resource(
+      "codex",
+      new ResourceTemplate("codex://{name}", {
+        list: async () => {
+          const codexFiles = await this.core.listSpecFiles("codex");
+          return {
+            resources: codexFiles.map(filename => ({
+              uri: `codex://${filename.replace(/\.cx$/, '')}`,
+              name: filename,
+              description: "Codex entry",
+              mimeType: CODEX_MIME_TYPE
+            }))
+          };
+        },
+        complete: {
+          name: async (value) => {
+            const codexFiles = await this.core.listSpecFiles("codex");
+            return codexFiles
+              .map(f => f.replace(/\.cx$/, ''))
+              .filter(name => name.toLowerCase().startsWith(value.toLowerCase()));
+          }
+        }
+      }),
+      { description: "Codex files for mechanism awareness and agent protocols", mimeType: CODEX_MIME_TYPE },
+      async (uri, { name }) => {
+        const codexFiles = await this.core.listSpecFiles("codex");
+        const filename = codexFiles.find(f => f.replace(/\.cx$/, '').toLowerCase() === String(name).toLowerCase());
+        if (!filename) {
+          throw new Error(`Codex not found: ${name}`);
+        }
+
+        const codex = (await this.core.loadRegistry()).get("codex", filename)!;
+        return {
+          contents: [{ uri: uri.href, mimeType: CODEX_MIME_TYPE, text: codex.content }]
+        };
+      }
+    );
+  }
+
+  private setupPrompts(server: McpServer) {
+    server.prompt(
+      "crystallize",
+      "Crystallize the current conversation into a crystal using a matched protocol",
+      {
+        protocol_query: z.string().describe("Crystal specification query (e.g., 'crystallization 2.0')")
+      },
+      async ({ protocol_query }) => {
+        const protocol = await this.core.requireProtocol(protocol_query);
+        const extractionRules = extractProtocolSection(protocol.content, "EXTRACTION_RULES");
+
+        return {
+          description: `Crystallize using ${protocol.match}`,
+          messages: [
+            {
+              role: "user",
+              content: this.protocolResource(protocol.match, protocol.content)
+            },
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: this.crystallizeInstructions(protocol.match, extractionRules)
+              }
+            }
+          ]
+        };
+      }
+    );
+
+    server.prompt(
+      "reconstruct",
+      "Reconstruct working context from a stored crystal",
+      {
+        crystal_id: z.string().describe("UUID of the crystal to reconstruct")
+      },
+      async ({ crystal_id }) => {
+        const crystalData = await this.core.loadCrystal(crystal_id);
+        const messages = await this.reconstructMessages(crystalData);
+
+        return {
+          description: `Reconstruct crystal ${crystal_id}`,
+          messages
+        };
+      }
+    );
+
+    server.prompt(
+      "handoff",
+      "Hand work over to another agent: reconstruct a crystal, then re-crystallize when done",
+      {
+        crystal_id: z.string().describe("UUID of the crystal to hand over"),
+        protocol_query: z.string().optional().describe("Protocol to re-crystallize with (defaults to the crystal's original spec_version)")
+      },
+      async ({ crystal_id, protocol_query }) => {
+        const crystalData = await this.core.loadCrystal(crystal_id);
+        const messages = await this.reconstructMessages(crystalData);
+        const protocol = await this.core.requireProtocol(protocol_query || crystalData.spec_version);
+        const extractionRules = extractProtocolSection(protocol.content, "EXTRACTION_RULES");
+
+        return {
+          description: `Agent handoff for crystal ${crystal_id}`,
+          messages: [
+            ...messages,
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `When the handed-over work is complete, produce a successor crystal.\n\n${this.crystallizeInstructions(protocol.match, extractionRules)}\n\nExport it with export_crystal (spec_version "${crystalData.spec_version}") so the next agent can continue from it.`
+              }
+            }
+          ]
+        };
+      }
+    );
   }
 
-  private generateProtocolSuggestions(availableFiles: string[]): string[] {
-    return availableFiles.map(filename => {
-      // Convert filename to suggested query format
-      const nameWithoutExt = filename.replace('.cp', '');
-      const parts = nameWithoutExt.split(/[_.-]/);
-      
-      // Try to create a natural query from the filename
-      const suggestion = parts
-        .map(part => part.toLowerCase())
-        .filter(part => part !== 'crystallization') // Remove common word
-        .join(' crystallization ') // Add crystallization between parts
-        .replace(/crystallization\s*$/, '') // Remove trailing crystallization
-        .trim();
-        
-      return suggestion || nameWithoutExt.toLowerCase().replace(/[_.-]/g, ' ');
-    }).slice(0, 5); // Limit to top 5 suggestions
+  private crystallizeInstructions(protocolFile: string, extractionRules: string | null): string {
+    return `Crystallize this conversation following ${protocolFile}.\n\n1. Apply the extraction rules below to the conversation.\n2. Format the result as ⟨CRYSTAL_STRUCTURE⟩: a ⟨⟨DOMAIN_PURPOSE_CRYSTAL⟩⟩ header, the Ω/∂ core transform and layers L₁–L₉.\n3. Make sure every problem in L₁ has a step in L₂ and that L₇ is not empty.\n\n${extractionRules ? `Extraction rules:\n${extractionRules}` : 'The protocol declares no ⟨EXTRACTION_RULES⟩ section; follow its structure directly.'}`;
   }
 
-  // Smart codex file matching
-  private findBestCodexMatch(query: string, availableFiles: string[]): {
-    match: string | null;
-    score: number;
-    suggestions: string[];
-  } {
-    const normalizedQuery = query.toLowerCase().trim();
-    const queryWords = normalizedQuery.split(/\s+/);
-    
-    // Score each available file
-    const scoredFiles = availableFiles.map(filename => {
-      const normalizedFilename = filename.toLowerCase().replace(/[_.-]/g, ' ');
-      const score = this.calculateCodexMatchScore(queryWords, normalizedFilename);
-      return { filename, score };
+  // Messages shared by the reconstruct and handoff prompts
+  private async reconstructMessages(crystalData: CrystalData) {
+    const protocol = await this.core.resolveSpec("protocol", crystalData.spec_version);
+    const reconstruction = parseCrystal(crystalData.content).layers.find(l => l.index === 9);
+    const steps = reconstruction && reconstruction.present && reconstruction.entries.length > 0
+      ? reconstruction.entries.map((entry, i) => `${entry.key ?? i + 1}. ${entry.text}`).join('\n')
+      : null;
+
+    const messages: PromptMessage[] = [];
+    if (protocol.match && protocol.content !== null) {
+      messages.push({ role: "user", content: this.protocolResource(protocol.match, protocol.content) });
+    }
+    messages.push({
+      role: "user",
+      content: {
+        type: "resource",
+        resource: {
+          uri: `crystal://${crystalData.id}`,
+          mimeType: CRYSTAL_MIME_TYPE,
+          text: JSON.stringify(crystalData, null, 2)
+        }
+      }
+    });
+    messages.push({
+      role: "user",
+      content: {
+        type: "text",
+        text: `Reconstruct the working context from crystal "${crystalData.title}" (${crystalData.id}).\n\n${protocol.match ? `Original protocol: ${protocol.match} (spec ${crystalData.spec_version})` : `No protocol file matches the original spec_version "${crystalData.spec_version}"; interpret the layers using the ⟨CRYSTAL_STRUCTURE⟩ model.`}\n\nParse the layers, then follow the L₉ ⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩ steps:\n${steps ?? 'The crystal has no L₉ reconstruction steps; rebuild the context from L₁–L₈ in order.'}`
+      }
     });
+    return messages;
+  }
 
-    // Sort by score (highest first)
-    scoredFiles.sort((a, b) => b.score - a.score);
-    
-    const bestMatch = scoredFiles[0];
-    const threshold = 0.3; // Minimum score to consider a match
-    
-    // Generate suggestions for better matches
-    const suggestions = this.generateCodexSuggestions(availableFiles);
-    
+  private protocolResource(filename: string, content: string) {
+    const { name, version } = this.splitVersionedFilename(filename, '.cp');
     return {
-      match: bestMatch && bestMatch.score >= threshold ? bestMatch.filename : null,
-      score: bestMatch ? bestMatch.score : 0,
-      suggestions
+      type: "resource" as const,
+      resource: {
+        uri: `protocol://${name}/${version}`,
+        mimeType: PROTOCOL_MIME_TYPE,
+        text: content
+      }
     };
   }
 
-  private calculateCodexMatchScore(queryWords: string[], filename: string): number {
-    let score = 0;
-    const filenameWords = filename.split(/\s+/);
-    
-    // Exact word matches get high score
-    for (const queryWord of queryWords) {
-      for (const filenameWord of filenameWords) {
-        if (filenameWord.includes(queryWord) || queryWord.includes(filenameWord)) {
-          if (filenameWord === queryWord) {
-            score += 1.0; // Exact match
-          } else if (filenameWord.includes(queryWord) || queryWord.includes(filenameWord)) {
-            score += 0.7; // Partial match
-          }
-        }
-      }
+  private formatProtocolEntry(entry: ProtocolEntry): string {
+    const lines = [
+      `${entry.name}${entry.version ? ` v${entry.version}` : ''} (${entry.filename})`,
+      `   Header: ${entry.declared ? `⟨⟨${entry.identity}⟩⟩` : 'none declared - identity taken from the filename'}`
+    ];
+    if (entry.delta || entry.omega) {
+      lines.push(`   ∂: ${entry.delta ?? '-'} | Ω: ${entry.omega ?? '-'}`);
     }
-    
-    // Version number matching (look for patterns like "3.0", "2.1", etc.)
-    const versionRegex = /\d+\.?\d*/g;
-    const queryVersions = queryWords.filter(word => versionRegex.test(word));
-    const filenameVersions = filename.match(versionRegex) || [];
-    
-    for (const queryVersion of queryVersions) {
-      for (const filenameVersion of filenameVersions) {
-        if (queryVersion === filenameVersion) {
-          score += 0.8; // Version exact match
-        }
-      }
+    lines.push(`   Sections: ${entry.sections.length > 0 ? entry.sections.map(section => `⟨${section}⟩`).join(', ') : 'none'}`);
+    if (entry.layers.length > 0) {
+      lines.push(`   Layers: ${entry.layers.map(layer => `${layerSymbol(layer.index)} ⟨${layer.name}⟩`).join(', ')}`);
     }
-    
-    // Codex-specific term boosting
-    const codexTerms = ['mechanism', 'awareness', 'agent', 'transmission', 'protocol', 'probability', 'pattern'];
-    for (const term of codexTerms) {
-      if (queryWords.includes(term) && filename.includes(term)) {
-        score += 0.5; // Codex term bonus
-      }
+    return lines.join('\n');
+  }
+
+  private formatSpecWrite(result: SpecWriteResult): string {
+    const { header } = result;
+    const lines = [
+      `📁 File: ${result.path}`,
+      `🏷️ Header: ⟨⟨${header.identity}⟩⟩ (${header.name} v${header.version})`,
+      `📑 Sections: ${header.sections.map(section => `⟨${section}⟩`).join(', ')}`
+    ];
+    if (header.layers.length > 0) {
+      lines.push(`🧱 Layers: ${header.layers.map(layer => `${layerSymbol(layer.index)} ⟨${layer.name}⟩`).join(', ')}`);
     }
-    
-    // Normalize score by query length to prevent bias toward longer queries
-    return queryWords.length > 0 ? score / queryWords.length : 0;
+    if (result.warnings.length > 0) {
+      lines.push('', '⚠️ Warnings:', ...result.warnings.map(warning => `- ${warning}`));
+    }
+    return lines.join('\n');
   }
 
-  private generateCodexSuggestions(availableFiles: string[]): string[] {
-    return availableFiles.map(filename => {
-      // Convert filename to suggested query format
-      const nameWithoutExt = filename.replace('.cx', '');
-      const parts = nameWithoutExt.split(/[_.-]/);
-      
-      // Try to create a natural query from the filename
-      const suggestion = parts
-        .map(part => part.toLowerCase())
-        .join(' ')
-        .trim();
-        
-      return suggestion || nameWithoutExt.toLowerCase().replace(/[_.-]/g, ' ');
-    }).slice(0, 5); // Limit to top 5 suggestions
+  private specWriteData(result: SpecWriteResult): z.infer<typeof specWriteSchema> {
+    const { header } = result;
+    return {
+      kind: result.kind,
+      filename: result.filename,
+      path: result.path,
+      written: result.written,
+      identity: header.identity,
+      name: header.name,
+      version: header.version,
+      sections: header.sections,
+      layers: header.layers,
+      warnings: result.warnings
+    };
   }
 
-  // Extract latest crystal artifact from conversation context
-  private async extractLatestCrystalArtifact(): Promise<string | null> {
-    // In a real implementation, this would access the conversation context
-    // and extract the most recent crystal artifact content
-    // For now, this is a placeholder that would need integration with the conversation system
-    
-    // TODO: Implement actual context window access to find crystal artifacts
-    // This would scan for patterns like:
-    // - Code blocks with crystal content
-    // - Structured crystal data
-    // - Mathematical formulations
-    // - Complex analysis results
-    // - Any other artifact-like content
-    
-    return null; // Placeholder - no context access available yet
+  private describeProtection(crystal: CrystalData): string {
+    const protection = this.core.protectionOf(crystal);
+    return `🔏 Integrity: sha256 ${protection.content_hash.slice(0, 16)}…, ${protection.signed_with ? `signed with key ${protection.signed_with}` : 'unsigned (set CRYSTAL_SIGNING_KEY_FILE to sign)'}\n🔒 Encryption: ${protection.encrypted_with ? `aes-256-gcm with key ${protection.encrypted_with}` : 'none (stored as plaintext)'}`;
   }
 
-  // Security: Ensure paths are within project root
-  private getSafePath(inputPath: string): string {
-    const resolvedPath = resolve(projectRoot, inputPath);
-    if (!resolvedPath.startsWith(projectRoot)) {
-      throw new Error("Path is outside project root");
-    }
-    return resolvedPath;
+  // Split "CRYSTALLIZATION_PROTOCOL_2.0.cp" into name and version parts
+  private splitVersionedFilename(filename: string, extension: string): { name: string; version: string } {
+    const base = filename.slice(0, -extension.length);
+    const match = base.match(/^(.*?)[_.-]v?(\d+(?:\.\d+)*)$/i);
+    return match ? { name: match[1], version: match[2] } : { name: base, version: "latest" };
   }
 
-  async start() {
+  async start(options: StartOptions = { transport: "stdio" }) {
+    await this.core.watchCatalogue();
+
+    if (options.ui) {
+      const api = await startCrystalApi(this.core, options.ui);
+      console.error(`Crystal UI and API available at ${api.url}`);
+    }
+
+    if (options.transport === "http") {
+      await this.startHttp(options.http);
+      return;
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error("Crystal MCP Server started successfully!");
@@ -555,16 +1483,98 @@ class CrystalMCPServer {
       process.exit(0);
     });
   }
+
+  private async startHttp(options: HttpTransportOptions) {
+    const http = await startHttpTransport(options, () => this.createSessionServer());
+    console.error(`Crystal MCP Server listening on ${http.url}${options.token ? ' (bearer token required)' : ''}`);
+
+    const shutdown = async () => {
+      console.error("Shutting down Crystal MCP Server...");
+      await http.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  }
+}
+
+type StartOptions = (
+  | { transport: "stdio" }
+  | { transport: "http"; http: HttpTransportOptions }
+) & { ui?: CrystalApiOptions };
+
+// Flags override environment: --http, --host, --port, --token-file, --ui, --ui-port
+async function resolveStartOptions(argv: string[], env: NodeJS.ProcessEnv): Promise<StartOptions> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      http: { type: "boolean" },
+      host: { type: "string" },
+      port: { type: "string" },
+      "token-file": { type: "string" },
+      ui: { type: "boolean" },
+      "ui-port": { type: "string" }
+    },
+    strict: false
+  });
+
+  let ui: CrystalApiOptions | undefined;
+  if (values.ui === true || values["ui-port"] !== undefined || env.CRYSTAL_UI_PORT) {
+    const uiPort = Number(values["ui-port"] ?? env.CRYSTAL_UI_PORT ?? DEFAULT_UI_PORT);
+    if (!Number.isInteger(uiPort) || uiPort < 0 || uiPort > 65535) {
+      throw new Error(`Invalid UI port: ${values["ui-port"] ?? env.CRYSTAL_UI_PORT}`);
+    }
+    ui = { host: env.CRYSTAL_UI_HOST || DEFAULT_HTTP_HOST, port: uiPort, staticDir: join(projectRoot, "dist") };
+  }
+
+  const useHttp = values.http === true || env.CRYSTAL_TRANSPORT === "http";
+  if (!useHttp) {
+    return { transport: "stdio", ui };
+  }
+
+  const port = Number(values.port ?? env.CRYSTAL_HTTP_PORT ?? DEFAULT_HTTP_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${values.port ?? env.CRYSTAL_HTTP_PORT}`);
+  }
+
+  const idleSeconds = env.CRYSTAL_HTTP_SESSION_IDLE ? Number(env.CRYSTAL_HTTP_SESSION_IDLE) : undefined;
+  if (idleSeconds !== undefined && !(idleSeconds > 0)) {
+    throw new Error(`Invalid HTTP session idle timeout: ${env.CRYSTAL_HTTP_SESSION_IDLE}`);
+  }
+
+  const tokenFile = typeof values["token-file"] === "string" ? values["token-file"] : env.CRYSTAL_HTTP_TOKEN_FILE;
+  return {
+    transport: "http",
+    ui,
+    http: {
+      host: String(values.host ?? env.CRYSTAL_HTTP_HOST ?? DEFAULT_HTTP_HOST),
+      port,
+      path: "/mcp",
+      token: await loadBearerToken(env.CRYSTAL_HTTP_TOKEN, tokenFile),
+      sessionIdleMs: idleSeconds !== undefined ? idleSeconds * 1000 : undefined
+    }
+  };
+}
+
+// Data roots and namespace: --config, --data-root, --protocols-dir, --codex-dir, --crystals-dir, --db-path, --store, --namespace
+function resolveConfig(argv: string[], env: NodeJS.ProcessEnv): CrystalConfig {
+  const { values } = parseArgs({ args: argv, options: CONFIG_ARG_OPTIONS, strict: false });
+  return loadCrystalConfig(projectRoot, configOverridesFrom(values), env);
 }
 
 // Start the server - only when run directly
 const isMainModule = import.meta.url === pathToFileURL(process.argv[1]).href;
 if (isMainModule) {
-  const server = new CrystalMCPServer();
-  server.start().catch((error) => {
-    console.error("Failed to start server:", error);
-    process.exit(1);
-  });
+  const argv = process.argv.slice(2);
+  Promise.resolve()
+    .then(async () => {
+      const server = new CrystalMCPServer(undefined, resolveConfig(argv, process.env));
+      await server.start(await resolveStartOptions(argv, process.env));
+    })
+    .catch((error) => {
+      console.error("Failed to start server:", error);
+      process.exit(1);
+    });
 }
 
 export default CrystalMCPServer;
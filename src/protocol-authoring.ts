@@ -0,0 +1,134 @@
+/**
+ * Protocol Authoring - checks, file names and version bumps for new protocol and codex files
+ *
+ * A protocol or codex file is only written when its first line declares a
+ * versioned identity (⟨⟨NAME_vX.Y⟩⟩) and the body has the sections the
+ * server relies on: the layer model comes from a protocol's
+ * ⟨CRYSTAL_STRUCTURE⟩, symbol legends from ⟨SYMBOL_SEMANTICS⟩. The file name
+ * is derived from that header, never chosen by the caller, and a version
+ * that is already registered is never replaced: changing a protocol means
+ * publishing a new version of it.
+ */
+
+import { PROTOCOL_EXTENSIONS, ProtocolHeader, ProtocolKind, parseProtocolHeader } from "./protocol-registry.js";
+import { ToolError } from "./tool-results.js";
+
+export type VersionIncrement = "major" | "minor" | "patch";
+
+// Sections a new file must declare
+export const REQUIRED_SECTIONS: Record<ProtocolKind, string[]> = {
+  protocol: ["CRYSTAL_STRUCTURE", "SYMBOL_SEMANTICS", "EXTRACTION_RULES", "COMPRESSION_STRATEGY", "QUALITY_CRITERIA", "RECONSTRUCTION_GUARANTEES"],
+  codex: ["SYMBOL_SEMANTICS"]
+};
+
+// Sections reported as warnings when missing
+export const RECOMMENDED_SECTIONS: Record<ProtocolKind, string[]> = {
+  protocol: ["USAGE_PROTOCOL", "META_PROTOCOL"],
+  codex: []
+};
+
+export interface SpecCheck {
+  header: ProtocolHeader | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// The body after "⟨⟨IDENTITY⟩⟩ =" as a JSON object, or null when it is not strict JSON
+function parseSpecBody(content: string): { identity: string; body: Record<string, unknown> } | null {
+  const header = content.match(/^\s*⟨⟨([^⟨⟩]+)⟩⟩\s*=?\s*/u);
+  if (!header) {
+    return null;
+  }
+  try {
+    const body = JSON.parse(content.slice(header[0].length));
+    return body && typeof body === 'object' && !Array.isArray(body) ? { identity: header[1].trim(), body } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function checkSpecContent(kind: ProtocolKind, content: string): SpecCheck {
+  const header = parseProtocolHeader(content);
+  if (!header) {
+    return { header: null, errors: [`No ⟨⟨NAME_vX.Y⟩⟩ header at the start of the ${kind}`], warnings: [] };
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!header.version) {
+    errors.push(`Header ⟨⟨${header.identity}⟩⟩ declares no version (expected e.g. ⟨⟨${header.identity}_v1.0⟩⟩)`);
+  }
+  for (const section of REQUIRED_SECTIONS[kind].filter(section => !header.sections.includes(section))) {
+    errors.push(`Missing required section ⟨${section}⟩`);
+  }
+  if (kind === "protocol" && header.sections.includes("CRYSTAL_STRUCTURE") && header.layers.length === 0) {
+    errors.push(`⟨CRYSTAL_STRUCTURE⟩ declares no layers (expected "LAYERS": { "L₁": "⟨NAME⟩: ...", ... })`);
+  }
+  for (const section of RECOMMENDED_SECTIONS[kind].filter(section => !header.sections.includes(section))) {
+    warnings.push(`No ⟨${section}⟩ section`);
+  }
+  if (header.omega === null) {
+    warnings.push("No Ω (core transform) entry");
+  }
+  if (header.delta === null) {
+    warnings.push("No ∂ (domain) entry");
+  }
+  if (!parseSpecBody(content)) {
+    warnings.push("Body is not strict JSON: sections were read line by line, and later versions cannot be bumped with section changes");
+  }
+  return { header, errors, warnings };
+}
+
+// "CONTEXT_CRYSTALLIZATION_PROTOCOL" version "2.1" → "CONTEXT_CRYSTALLIZATION_PROTOCOL_2.1.cp"
+export function canonicalFilename(kind: ProtocolKind, header: ProtocolHeader): string {
+  const name = header.name.trim().replace(/[^A-Za-z0-9.-]+/g, '_').replace(/^[_.]+|_+$/g, '');
+  if (!name || !header.version) {
+    throw new ToolError("INVALID_FORMAT", `Cannot derive a file name from header ⟨⟨${header.identity}⟩⟩`);
+  }
+  return `${name}_${header.version}${PROTOCOL_EXTENSIONS[kind]}`;
+}
+
+export function incrementVersion(version: string, increment: VersionIncrement): string {
+  const [major = 0, minor = 0, patch = 0] = version.replace(/^v/i, '').split('.').map(Number);
+  switch (increment) {
+    case "major":
+      return `${major + 1}.0`;
+    case "minor":
+      return `${major}.${minor + 1}`;
+    case "patch":
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+/**
+ * Content of a new version: the header identity carries `version`, and the
+ * given sections ("EXTRACTION_RULES" or "⟨EXTRACTION_RULES⟩", or "Ω"/"∂")
+ * are replaced, added, or removed when set to null. Section changes need a
+ * strict JSON body; the result is re-serialized with two-space indentation.
+ */
+export function bumpSpecContent(content: string, version: string, sections: Record<string, unknown> = {}): string {
+  const header = parseProtocolHeader(content);
+  if (!header?.version) {
+    throw new ToolError("INVALID_FORMAT", "Source file declares no versioned ⟨⟨NAME_vX.Y⟩⟩ header");
+  }
+  const identity = header.identity.replace(/\d+(?:\.\d+)*$/, version);
+
+  if (Object.keys(sections).length === 0) {
+    return content.replace(`⟨⟨${header.identity}⟩⟩`, `⟨⟨${identity}⟩⟩`);
+  }
+
+  const parsed = parseSpecBody(content);
+  if (!parsed) {
+    throw new ToolError("INVALID_FORMAT", "Section changes need a strict JSON body; pass the full new content to create_protocol or create_codex instead");
+  }
+  const body = { ...parsed.body };
+  for (const [section, value] of Object.entries(sections)) {
+    const key = section === "Ω" || section === "∂" || /^⟨[^⟨⟩]+⟩$/u.test(section) ? section : `⟨${section}⟩`;
+    if (value === null) {
+      delete body[key];
+    } else {
+      body[key] = value;
+    }
+  }
+  return `⟨⟨${identity}⟩⟩ = ${JSON.stringify(body, null, 2)}\n`;
+}
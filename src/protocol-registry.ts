@@ -0,0 +1,201 @@
+/**
+ * Protocol Registry - protocol (.cp) and codex (.cx) identities read from file headers
+ *
+ * Every protocol declares itself in its first line, e.g.
+ *   ⟨⟨CONTEXT_CRYSTALLIZATION_PROTOCOL_v2.0⟩⟩ = { ... }
+ * The registry parses that header into a name and version and lists the
+ * top-level sections the file declares (⟨SYMBOL_SEMANTICS⟩, ⟨EXTRACTION_RULES⟩, ...),
+ * so lookups and spec_version checks no longer depend on filenames.
+ */
+
+import { readFile, readdir } from "fs/promises";
+import { join } from "path";
+import { parseCandidate, parseVersion, normalizeVersion, compareVersions, CandidateName } from "./matching.js";
+import { PROTOCOL_LAYERS, LayerDefinition, fromSubscript } from "./crystal-parser.js";
+
+export type ProtocolKind = "protocol" | "codex";
+
+export interface ProtocolHeader {
+  identity: string;
+  name: string;
+  version: string | null;
+  sections: string[];
+  // ⟨CRYSTAL_STRUCTURE⟩.LAYERS; empty for codex and protocols that declare none
+  layers: LayerDefinition[];
+  omega: string | null;
+  delta: string | null;
+}
+
+export interface ProtocolEntry extends ProtocolHeader {
+  kind: ProtocolKind;
+  filename: string;
+  // false when the file has no ⟨⟨...⟩⟩ header and its identity came from the filename
+  declared: boolean;
+  content: string;
+}
+
+export class UnknownSpecVersionError extends Error {
+  constructor(public readonly specVersion: string, public readonly available: string[]) {
+    super(`Unknown spec_version "${specVersion}". Registered protocol versions: ${available.length > 0 ? available.join(', ') : 'none'}`);
+    this.name = "UnknownSpecVersionError";
+  }
+}
+
+export const PROTOCOL_EXTENSIONS: Record<ProtocolKind, string> = {
+  protocol: ".cp",
+  codex: ".cx"
+};
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+// "CONTEXT_CRYSTALLIZATION_PROTOCOL_v2.0" → name + version
+function splitIdentity(identity: string): { name: string; version: string | null } {
+  const match = identity.match(/^(.*?)[_\s-]v?(\d+(?:\.\d+)*)$/i);
+  return match ? { name: match[1], version: match[2] } : { name: identity, version: null };
+}
+
+export function parseProtocolHeader(content: string): ProtocolHeader | null {
+  const header = content.match(/^\s*⟨⟨([^⟨⟩]+)⟩⟩/u);
+  if (!header || header.index === undefined) {
+    return null;
+  }
+
+  const identity = header[1].trim();
+  const body = content.slice(header.index + header[0].length).replace(/^\s*=\s*/, '').trim();
+  let sections: string[] = [];
+  let omega: string | null = null;
+  let delta: string | null = null;
+
+  try {
+    const root = JSON.parse(body) as Record<string, unknown>;
+    sections = Object.keys(root)
+      .map(key => key.trim().match(/^⟨([^⟨⟩]+)⟩$/u)?.[1])
+      .filter((section): section is string => Boolean(section));
+    omega = stringOrNull(root["Ω"]);
+    delta = stringOrNull(root["∂"]);
+  } catch {
+    // Not strict JSON: take section keys that open a line at the top indentation level
+    sections = [...body.matchAll(/^ {0,2}"?⟨([^⟨⟩]+)⟩"?\s*:/gmu)].map(match => match[1]);
+    omega = body.match(/"Ω"\s*:\s*"([^"]*)"/u)?.[1] ?? null;
+    delta = body.match(/"∂"\s*:\s*"([^"]*)"/u)?.[1] ?? null;
+  }
+
+  return { identity, ...splitIdentity(identity), sections, layers: parseLayerModel(body), omega, delta };
+}
+
+// "L₁": "⟨PROBLEM_MANIFOLD⟩: ..." entries of the declared layer structure
+function parseLayerModel(body: string): LayerDefinition[] {
+  const layers = new Map<number, LayerDefinition>();
+  for (const match of body.matchAll(/"L([₀-₉0-9]+)"\s*:\s*"(⟨{1,2})([^⟨⟩]+)⟩{1,2}/gu)) {
+    const index = Number(fromSubscript(match[1]));
+    if (!layers.has(index)) {
+      layers.set(index, { index, name: match[3].trim(), ...(match[2].length === 2 ? { brackets: 2 as const } : {}) });
+    }
+  }
+  return [...layers.values()].sort((a, b) => a.index - b.index);
+}
+
+export class ProtocolRegistry {
+  constructor(private readonly entries: ProtocolEntry[]) {}
+
+  // Read every .cp/.cx file in the given directories; a missing directory is empty
+  static async load(directories: Record<ProtocolKind, string>): Promise<ProtocolRegistry> {
+    const entries: ProtocolEntry[] = [];
+    for (const kind of Object.keys(directories) as ProtocolKind[]) {
+      const dir = directories[kind];
+      let files: string[];
+      try {
+        files = (await readdir(dir)).filter(f => f.endsWith(PROTOCOL_EXTENSIONS[kind])).sort();
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+
+      for (const filename of files) {
+        const content = await readFile(join(dir, filename), 'utf-8');
+        const header = parseProtocolHeader(content);
+        if (header) {
+          entries.push({ kind, filename, declared: true, content, ...header });
+        } else {
+          const fromName = parseCandidate(filename);
+          const identity = filename.slice(0, -PROTOCOL_EXTENSIONS[kind].length);
+          entries.push({
+            kind,
+            filename,
+            declared: false,
+            content,
+            identity,
+            name: fromName.words.join('_').toUpperCase(),
+            version: fromName.version,
+            sections: [],
+            layers: [],
+            omega: null,
+            delta: null
+          });
+        }
+      }
+    }
+    return new ProtocolRegistry(entries);
+  }
+
+  list(kind?: ProtocolKind): ProtocolEntry[] {
+    return kind ? this.entries.filter(entry => entry.kind === kind) : [...this.entries];
+  }
+
+  get(kind: ProtocolKind, filename: string): ProtocolEntry | undefined {
+    return this.entries.find(entry => entry.kind === kind && entry.filename === filename);
+  }
+
+  // Declared protocol versions, oldest first
+  versions(): string[] {
+    const versions = new Set(this.list("protocol").flatMap(entry => entry.version ? [entry.version] : []));
+    return [...versions].sort((a, b) => compareVersions(parseVersion(a), parseVersion(b)));
+  }
+
+  latestVersion(): string | null {
+    return this.versions().at(-1) ?? null;
+  }
+
+  /**
+   * Resolve a spec_version ("2.0", "2", "v2.0" or a full identity such as
+   * "CONTEXT_CRYSTALLIZATION_PROTOCOL_v2.0") to the version a protocol declares.
+   */
+  resolveSpecVersion(specVersion: string): string {
+    const requested = specVersion.trim();
+    const byIdentity = this.list("protocol").find(entry => entry.identity === requested && entry.version);
+    if (byIdentity?.version) {
+      return byIdentity.version;
+    }
+    if (/^v?\d+(\.\d+)*$/i.test(requested)) {
+      const normalized = normalizeVersion(requested);
+      const declared = this.versions().find(version => normalizeVersion(version) === normalized);
+      if (declared) {
+        return declared;
+      }
+    }
+    throw new UnknownSpecVersionError(specVersion, this.versions());
+  }
+
+  // Layer model of the protocol declaring this version, or the v2.0 model when none declares one
+  layerModel(version: string): LayerDefinition[] {
+    const normalized = normalizeVersion(version);
+    const entry = this.list("protocol").find(e => e.version && normalizeVersion(e.version) === normalized && e.layers.length > 0);
+    return entry ? entry.layers : PROTOCOL_LAYERS;
+  }
+
+  // Matcher candidates named by both the filename and the declared identity
+  matchCandidates(kind: ProtocolKind): CandidateName[] {
+    return this.list(kind).map(entry => {
+      const fromFilename = parseCandidate(entry.filename);
+      return {
+        filename: entry.filename,
+        words: [...new Set([...entry.name.toLowerCase().split(/[\s_.-]+/).filter(Boolean), ...fromFilename.words])],
+        version: entry.version ?? fromFilename.version
+      };
+    });
+  }
+}
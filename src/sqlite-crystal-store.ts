@@ -0,0 +1,214 @@
+/**
+ * SQLite Crystal Store - all crystals in one embedded database file
+ *
+ * Uses sql.js (SQLite compiled to WebAssembly), so no native build is needed.
+ * The database lives in memory while an operation runs; every write reloads
+ * the file under an exclusive lock, applies the change in a transaction and
+ * replaces the file atomically. Concurrent server instances therefore never
+ * lose each other's writes or read a partially written database.
+ */
+
+import initSqlJs from "sql.js";
+import type { Database, SqlJsStatic } from "sql.js";
+import { readFile, mkdir, open, stat, unlink } from "fs/promises";
+import { dirname } from "path";
+import type { CrystalData } from "./crystal-types.js";
+import {
+  CrystalStore,
+  StoredCrystal,
+  CrystalNotFoundError,
+  assertCrystalId,
+  parseCrystalJson,
+  writeFileAtomic,
+  isNotFound
+} from "./crystal-store.js";
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10000;
+// A lock older than this belongs to a crashed process
+const STALE_LOCK_MS = 30000;
+
+const CRYSTAL_TABLE = "crystals";
+const TRASH_TABLE = "trash";
+
+const SCHEMA = [CRYSTAL_TABLE, TRASH_TABLE].map(table => `
+  CREATE TABLE IF NOT EXISTS ${table} (
+    id TEXT PRIMARY KEY,
+    created_at TEXT,
+    data TEXT NOT NULL
+  )
+`).join(';');
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
+
+export class SqliteCrystalStore implements CrystalStore {
+  readonly kind = "sqlite";
+
+  constructor(
+    private readonly databasePath: string,
+    private readonly table: typeof CRYSTAL_TABLE | typeof TRASH_TABLE = CRYSTAL_TABLE
+  ) {}
+
+  get location(): string {
+    return this.table === CRYSTAL_TABLE ? this.databasePath : `${this.databasePath} (${this.table})`;
+  }
+
+  async list(): Promise<StoredCrystal[]> {
+    return this.read(db => {
+      const crystals: StoredCrystal[] = [];
+      const statement = db.prepare(`SELECT id, data FROM ${this.table} ORDER BY created_at`);
+      try {
+        while (statement.step()) {
+          const [id, raw] = statement.get() as [string, string];
+          crystals.push(this.toEntry(id, raw));
+        }
+      } finally {
+        statement.free();
+      }
+      return crystals;
+    });
+  }
+
+  async entry(id: string): Promise<StoredCrystal | null> {
+    assertCrystalId(id);
+    const raw = await this.read(db => this.selectData(db, id));
+    return raw === null ? null : this.toEntry(id, raw);
+  }
+
+  async get(id: string): Promise<CrystalData> {
+    assertCrystalId(id);
+    const raw = await this.read(db => this.selectData(db, id));
+    if (raw === null) {
+      throw new CrystalNotFoundError(id);
+    }
+    return parseCrystalJson(raw);
+  }
+
+  async has(id: string): Promise<boolean> {
+    assertCrystalId(id);
+    return this.read(db => this.selectData(db, id) !== null);
+  }
+
+  async put(crystal: CrystalData): Promise<void> {
+    assertCrystalId(crystal.id);
+    await this.write(db => {
+      db.run(
+        `INSERT INTO ${this.table} (id, created_at, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET created_at = excluded.created_at, data = excluded.data`,
+        [crystal.id, crystal.created_at, JSON.stringify(crystal, null, 2)]
+      );
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    assertCrystalId(id);
+    await this.write(db => {
+      if (this.selectData(db, id) === null) {
+        throw new CrystalNotFoundError(id);
+      }
+      db.run(`DELETE FROM ${this.table} WHERE id = ?`, [id]);
+    });
+  }
+
+  // The trash is a second table in the same database file, sharing its lock
+  trash(): CrystalStore {
+    return new SqliteCrystalStore(this.databasePath, TRASH_TABLE);
+  }
+
+  private toEntry(id: string, raw: string): StoredCrystal {
+    try {
+      return { id, data: { ...parseCrystalJson(raw), id }, size: raw.length };
+    } catch (parseError) {
+      return { id, data: null, size: raw.length, error: parseError instanceof Error ? parseError.message : 'Failed to parse crystal row' };
+    }
+  }
+
+  private selectData(db: Database, id: string): string | null {
+    const statement = db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`, [id]);
+    try {
+      return statement.step() ? (statement.get()[0] as string) : null;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private async openDatabase(): Promise<Database> {
+    const SQL = await loadSqlJs();
+    let db: Database;
+    try {
+      db = new SQL.Database(await readFile(this.databasePath));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+      db = new SQL.Database();
+    }
+    db.run(SCHEMA);
+    return db;
+  }
+
+  // Readers need no lock: the file is only ever replaced by rename
+  private async read<T>(operation: (db: Database) => T): Promise<T> {
+    const db = await this.openDatabase();
+    try {
+      return operation(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  private async write(operation: (db: Database) => void): Promise<void> {
+    await mkdir(dirname(this.databasePath), { recursive: true });
+    const release = await this.acquireLock();
+    try {
+      const db = await this.openDatabase();
+      try {
+        db.run("BEGIN");
+        try {
+          operation(db);
+          db.run("COMMIT");
+        } catch (error) {
+          db.run("ROLLBACK");
+          throw error;
+        }
+        await writeFileAtomic(this.databasePath, db.export());
+      } finally {
+        db.close();
+      }
+    } finally {
+      await release();
+    }
+  }
+
+  private async acquireLock(): Promise<() => Promise<void>> {
+    const lockPath = `${this.databasePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        const handle = await open(lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return () => unlink(lockPath).catch(() => undefined);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const lockAge = await stat(lockPath).then(s => Date.now() - s.mtimeMs, () => 0);
+      if (lockAge > STALE_LOCK_MS) {
+        await unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for crystal database lock: ${lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+}
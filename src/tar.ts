@@ -0,0 +1,112 @@
+/**
+ * Minimal ustar archive support for crystal bundles
+ *
+ * Only regular files with short relative paths are written or read, which is
+ * all a bundle contains. Archives are gzip-compressed and readable by `tar`.
+ */
+
+import { gzipSync, gunzipSync } from "zlib";
+
+export interface TarEntry {
+  path: string;
+  data: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value.slice(0, length), offset, length, 'utf-8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeString(header, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const raw = header.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+function assertSafeEntryPath(path: string): void {
+  if (!path || path.startsWith('/') || path.includes('\\') || path.split('/').some(part => part === '..' || part === '')) {
+    throw new Error(`Unsafe archive path: ${path}`);
+  }
+}
+
+function createHeader(entry: TarEntry, mtime: number): Buffer {
+  if (Buffer.byteLength(entry.path) > 100) {
+    throw new Error(`Archive path too long: ${entry.path}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, entry.path, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, entry.data.length, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(' ', 148, 156);
+  writeString(header, '0', 156, 1);
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+  return header;
+}
+
+export function createTarGz(entries: TarEntry[]): Buffer {
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    assertSafeEntryPath(entry.path);
+    blocks.push(createHeader(entry, mtime), entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return gzipSync(Buffer.concat(blocks));
+}
+
+export function readTarGz(archive: Buffer): TarEntry[] {
+  const tar = gunzipSync(archive);
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    const storedChecksum = parseInt(readString(header, 148, 8).trim(), 8);
+    const computedChecksum = header.reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 0x20 : byte), 0);
+    if (storedChecksum !== computedChecksum) {
+      throw new Error("Corrupt archive: header checksum mismatch");
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = prefix ? `${prefix}/${name}` : name;
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = readString(header, 156, 1);
+    const dataStart = offset + BLOCK_SIZE;
+
+    if (dataStart + size > tar.length) {
+      throw new Error(`Corrupt archive: truncated entry ${path}`);
+    }
+    if (type === '0' || type === '') {
+      assertSafeEntryPath(path);
+      entries.push({ path, data: Buffer.from(tar.subarray(dataStart, dataStart + size)) });
+    }
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
@@ -0,0 +1,301 @@
+/**
+ * Tool Results - structured tool output and typed tool errors
+ *
+ * Every tool declares an output schema built with `outputShape` and returns
+ * its data as `structuredContent` next to the readable text. Failures set
+ * `isError` and carry `error.code` from TOOL_ERROR_CODES, so clients can tell
+ * a missing crystal from a malformed one without reading the text.
+ */
+
+import { z, ZodRawShape } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { CrystalNotFoundError, InvalidCrystalIdError } from "./crystal-store.js";
+import { UnknownSpecVersionError } from "./protocol-registry.js";
+import { CrystalLockedError, CrystalDecryptionError } from "./crystal-encryption.js";
+import { InvalidBundleError } from "./crystal-bundle.js";
+import { lineageOf } from "./crystal-lineage.js";
+import type { ValidationResult } from "./crystal-parser.js";
+import type { IntegrityReport } from "./crystal-integrity.js";
+import type { MergeReport } from "./crystal-merge.js";
+import type { CrystalData } from "./crystal-types.js";
+
+export const TOOL_ERROR_CODES = [
+  "NOT_FOUND",            // no crystal, file or trash entry with that id or path
+  "NO_MATCH",             // a protocol or codex query matched nothing
+  "INVALID_ARGUMENT",     // arguments that contradict each other or are missing
+  "INVALID_FORMAT",       // malformed crystal content, bundle or transcript
+  "UNKNOWN_SPEC_VERSION", // spec_version not declared by a registered protocol
+  "NO_MIGRATION_PATH",    // no migration rules lead to the requested spec
+  "INTEGRITY_FAILED",     // content hash, signature or ciphertext does not check out
+  "UNTRUSTED",            // not signed by a trusted key where one is required
+  "LOCKED",               // encrypted with a key that is not configured
+  "CONFLICT",             // the target id already exists
+  "INTERNAL"              // anything else
+] as const;
+
+export type ToolErrorCode = typeof TOOL_ERROR_CODES[number];
+
+export class ToolError extends Error {
+  constructor(public readonly code: ToolErrorCode, message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+export const toolErrorSchema = z.object({
+  code: z.enum(TOOL_ERROR_CODES),
+  message: z.string(),
+  details: z.record(z.unknown()).optional()
+});
+
+/**
+ * Output schema of a tool: `ok`, then the tool's own fields on success or
+ * `error` on failure. The SDK checks error results against the schema as
+ * well, which is why every tool field is optional.
+ */
+export function outputShape(shape: ZodRawShape): ZodRawShape {
+  const fields = Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.optional()]));
+  return { ok: z.boolean(), error: toolErrorSchema.optional(), ...fields };
+}
+
+export function toolResult(text: string, data: Record<string, unknown>): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: { ok: true, ...data }
+  };
+}
+
+export function toolFailure(
+  code: ToolErrorCode,
+  message: string,
+  options: { text?: string; details?: Record<string, unknown> } = {}
+): CallToolResult {
+  return {
+    content: [{ type: "text", text: options.text ?? message }],
+    structuredContent: { ok: false, error: { code, message, ...(options.details ? { details: options.details } : {}) } },
+    isError: true
+  };
+}
+
+export function errorCodeOf(error: unknown): ToolErrorCode {
+  if (error instanceof ToolError) {
+    return error.code;
+  }
+  if (error instanceof CrystalNotFoundError) {
+    return "NOT_FOUND";
+  }
+  if (error instanceof InvalidCrystalIdError) {
+    return "INVALID_ARGUMENT";
+  }
+  if (error instanceof UnknownSpecVersionError) {
+    return "UNKNOWN_SPEC_VERSION";
+  }
+  if (error instanceof CrystalLockedError) {
+    return "LOCKED";
+  }
+  if (error instanceof CrystalDecryptionError) {
+    return "INTEGRITY_FAILED";
+  }
+  if (error instanceof InvalidBundleError || error instanceof SyntaxError) {
+    return "INVALID_FORMAT";
+  }
+  if (error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT") {
+    return "NOT_FOUND";
+  }
+  return "INTERNAL";
+}
+
+function errorDetails(error: unknown): Record<string, unknown> | undefined {
+  if (error instanceof ToolError) {
+    return error.details;
+  }
+  if (error instanceof CrystalNotFoundError || error instanceof InvalidCrystalIdError || error instanceof CrystalDecryptionError) {
+    return { crystal_id: error.crystalId };
+  }
+  if (error instanceof CrystalLockedError) {
+    return { crystal_id: error.crystalId, key_id: error.keyId };
+  }
+  if (error instanceof UnknownSpecVersionError) {
+    return { spec_version: error.specVersion, available: error.available };
+  }
+  return undefined;
+}
+
+// The catch-all of every tool handler: "Crystal not found: <id>" or "Error <action>: <message>"
+export function errorResult(error: unknown, action: string): CallToolResult {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return toolFailure(errorCodeOf(error), message, {
+    text: error instanceof CrystalNotFoundError ? message : `Error ${action}: ${message}`,
+    details: errorDetails(error)
+  });
+}
+
+// Shapes shared by several tools
+
+export const matchCandidateSchema = z.object({
+  filename: z.string(),
+  score: z.number(),
+  version: z.string().nullable(),
+  reasons: z.array(z.string())
+});
+
+export const provenanceSchema = z.object({
+  client: z.object({ name: z.string(), version: z.string() }).optional(),
+  session_id: z.string().optional(),
+  cwd: z.string().optional(),
+  git_head: z.string().optional(),
+  server: z.object({ name: z.string(), version: z.string() })
+});
+
+// Provenance filters of list_crystals and search_crystals
+export const provenanceFilterShape = {
+  client: z.string().optional().describe("Only crystals exported by this MCP client, by name or 'name@version'"),
+  session_id: z.string().optional().describe("Only crystals exported in this session"),
+  cwd: z.string().optional().describe("Only crystals exported from this working directory or one below it"),
+  git_head: z.string().optional().describe("Only crystals exported at this commit (full hash or a prefix of 4+ characters)"),
+  server_version: z.string().optional().describe("Only crystals exported by this server version")
+};
+
+export const crystalSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  spec_version: z.string(),
+  created_at: z.string(),
+  updated_at: z.string().optional(),
+  tags: z.array(z.string()),
+  root_id: z.string(),
+  version: z.number(),
+  parent_id: z.string().optional(),
+  supersedes: z.string().optional(),
+  merged_from: z.array(z.string()).optional(),
+  provenance: provenanceSchema.optional()
+});
+
+export const validationSchema = z.object({
+  valid: z.boolean(),
+  issues: z.array(z.object({
+    severity: z.enum(["error", "warning"]),
+    criterion: z.string(),
+    message: z.string(),
+    layer: z.string().optional()
+  }))
+});
+
+export const integritySchema = z.object({
+  ok: z.boolean(),
+  content: z.enum(["verified", "mismatch", "missing"]),
+  signature: z.enum(["trusted", "untrusted", "invalid", "unsigned"]),
+  key_id: z.string().optional(),
+  signer: z.string().optional()
+});
+
+export const migrationReportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  path: z.array(z.string()),
+  changes: z.array(z.string()),
+  warnings: z.array(z.string())
+});
+
+export const protectionSchema = z.object({
+  content_hash: z.string(),
+  signed_with: z.string().nullable(),
+  encrypted_with: z.string().nullable()
+});
+
+export const catalogueErrorSchema = z.object({
+  kind: z.enum(["crystal", "protocol", "codex"]),
+  name: z.string(),
+  message: z.string()
+});
+
+export const specWriteSchema = z.object({
+  kind: z.enum(["protocol", "codex"]),
+  filename: z.string(),
+  path: z.string(),
+  written: z.boolean(),
+  identity: z.string(),
+  name: z.string(),
+  version: z.string().nullable(),
+  sections: z.array(z.string()),
+  layers: z.array(z.object({ index: z.number(), name: z.string(), brackets: z.number().optional() })),
+  warnings: z.array(z.string())
+});
+
+export const crystalEntrySchema = z.object({
+  key: z.string().nullable(),
+  text: z.string()
+});
+
+const valueChangeSchema = z.object({ before: z.string().nullable(), after: z.string().nullable() }).nullable();
+const diffSideSchema = z.object({ id: z.string(), title: z.string(), spec_version: z.string(), created_at: z.string() });
+
+export const crystalDiffSchema = z.object({
+  from: diffSideSchema,
+  to: diffSideSchema,
+  header: valueChangeSchema,
+  omega: valueChangeSchema,
+  delta: valueChangeSchema,
+  layers: z.array(z.object({
+    index: z.number(),
+    symbol: z.string(),
+    name: z.string(),
+    status: z.enum(["absent", "added", "removed", "changed", "unchanged"]),
+    added: z.array(crystalEntrySchema),
+    removed: z.array(crystalEntrySchema),
+    changed: z.array(z.object({ key: z.string(), before: z.string(), after: z.string() })),
+    unchanged: z.number()
+  })),
+  totals: z.object({ added: z.number(), removed: z.number(), changed: z.number() })
+});
+
+export const mergeReportSchema = z.object({
+  sources: z.array(z.string()),
+  problems: z.number(),
+  steps: z.number(),
+  artifacts: z.number(),
+  duplicates: z.number(),
+  conflicts: z.array(z.object({
+    key: z.string(),
+    variants: z.array(z.object({ crystal_id: z.string(), text: z.string() }))
+  })),
+  warnings: z.array(z.string())
+});
+
+export function crystalSummary(crystal: CrystalData): z.infer<typeof crystalSummarySchema> {
+  return {
+    id: crystal.id,
+    title: crystal.title || 'Untitled',
+    spec_version: crystal.spec_version || 'Unknown',
+    created_at: crystal.created_at || 'Unknown',
+    ...(crystal.updated_at ? { updated_at: crystal.updated_at } : {}),
+    tags: crystal.tags ?? [],
+    ...lineageOf(crystal),
+    ...(crystal.merged_from ? { merged_from: crystal.merged_from } : {}),
+    ...(crystal.provenance ? { provenance: crystal.provenance } : {})
+  };
+}
+
+export function validationData(result: ValidationResult): z.infer<typeof validationSchema> {
+  return { valid: result.valid, issues: result.issues };
+}
+
+export function mergeReportData(report: MergeReport): z.infer<typeof mergeReportSchema> {
+  return {
+    ...report,
+    conflicts: report.conflicts.map(conflict => ({
+      key: conflict.key,
+      variants: conflict.variants.map(variant => ({ crystal_id: variant.crystalId, text: variant.text }))
+    }))
+  };
+}
+
+export function integrityData(report: IntegrityReport): z.infer<typeof integritySchema> {
+  return {
+    ok: report.ok,
+    content: report.content,
+    signature: report.signature,
+    ...(report.keyId ? { key_id: report.keyId } : {}),
+    ...(report.signer ? { signer: report.signer } : {})
+  };
+}
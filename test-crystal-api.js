@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+import { request } from "http";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { startCrystalApi } from "./src/crystal-api.js";
+import { CrystalService, projectRoot } from "./src/crystal-service.js";
+import { loadCrystalConfig } from "./src/crystal-config.js";
+
+/**
+ * Local JSON API of the crystal browser: routes, status codes and host checks (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+// fetch() will not send a forged Host header, so raw requests go through http
+function rawRequest(url, headers) {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { headers }, res => {
+      res.resume();
+      res.on("end", () => resolve(res.statusCode));
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+async function testApi() {
+  console.log("🌐 Testing crystal API\n");
+
+  const root = await mkdtemp(join(tmpdir(), "crystal-api-"));
+  const service = new CrystalService(undefined, loadCrystalConfig(projectRoot, { dataRoot: root }, {}));
+  const api = await startCrystalApi(service, { host: "127.0.0.1", port: 0 });
+  const call = async (path, init) => {
+    const res = await fetch(new URL(path, api.url), init);
+    return { status: res.status, body: await res.json() };
+  };
+
+  try {
+    const { crystal } = await service.exportCrystal({
+      title: "API crystal",
+      manual_content: "⟨⟨API_CRYSTAL⟩⟩ = {\"Ω\": \"served\", \"L₁⟨PROBLEM_MANIFOLD⟩\": {\"P₁\": \"browser needs data\"}}",
+      validation: "off",
+    });
+
+    await check("crystals are listed, read with their layers and searched", async () => {
+      const listing = await call("/api/crystals");
+      assert.equal(listing.status, 200);
+      assert.deepEqual(listing.body.crystals.map(c => c.id), [crystal.id]);
+      const read = await call(`/api/crystals/${crystal.id}`);
+      assert.equal(read.body.parsed.omega, "served");
+      assert.deepEqual(read.body.parsed.layers[0].entries, [{ key: "P₁", text: "browser needs data" }]);
+      assert.equal(read.body.integrity.content, "verified");
+      const search = await call("/api/search?q=browser");
+      assert.deepEqual(search.body.hits.map(hit => hit.id), [crystal.id]);
+      assert.ok("field_scores" in search.body.hits[0]);
+    });
+
+    await check("tags are patched with a JSON body", async () => {
+      const patched = await call(`/api/crystals/${crystal.id}/tags`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ add: ["ui", "UI"] }),
+      });
+      assert.equal(patched.status, 200);
+      assert.deepEqual(patched.body.crystal.tags, ["ui"]);
+      assert.deepEqual((await call("/api/crystals?tag=ui")).body.crystals.map(c => c.id), [crystal.id]);
+    });
+
+    await check("protocols are listed and read with their legend", async () => {
+      const specs = await call("/api/specs?kind=protocol");
+      assert.ok(specs.body.entries.some(entry => entry.filename === "CRYSTALLIZATION_PROTOCOL_2.0.cp"));
+      const spec = await call("/api/specs/protocol/CRYSTALLIZATION_PROTOCOL_2.0.cp");
+      assert.equal(spec.status, 200);
+      assert.equal(typeof spec.body.content, "string");
+    });
+
+    await check("errors use tool error codes with a matching status", async () => {
+      const cases = [
+        ["/api/crystals/missing", 404, "NOT_FOUND"],
+        ["/api/crystals?sort=size", 400, "INVALID_ARGUMENT"],
+        ["/api/search?limit=0", 400, "INVALID_ARGUMENT"],
+        ["/api/specs/protocol/%E0", 400, "INVALID_ARGUMENT"],
+        ["/api/specs/codex/missing.cx", 404, "NOT_FOUND"],
+        ["/api/unknown", 404, "NOT_FOUND"],
+      ];
+      for (const [path, status, code] of cases) {
+        const { status: actual, body } = await call(path);
+        assert.deepEqual([actual, body.ok, body.error.code], [status, false, code], path);
+      }
+      const wrongMethod = await fetch(new URL("/api/search", api.url), { method: "DELETE" });
+      assert.equal(wrongMethod.status, 405);
+      assert.equal(wrongMethod.headers.get("allow"), "GET");
+      await wrongMethod.body?.cancel();
+    });
+
+    await check("requests naming another host are refused", async () => {
+      assert.equal(await rawRequest(new URL("/api/crystals", api.url), { Host: "evil.com" }), 403);
+      await assert.rejects(startCrystalApi(service, { host: "0.0.0.0", port: 0 }), /^Error: Refusing to serve the crystal UI on 0\.0\.0\.0/);
+    });
+  } finally {
+    await api.close();
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} API check(s) failed` : "\n✅ All API checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testApi().catch(error => {
+  console.error("❌ API test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import {
+  estimateTokens,
+  encodeCursor,
+  decodeCursor,
+  resolveLayerRefs,
+  selectLayers,
+  outlineCrystal,
+  pageText,
+} from "./src/crystal-budget.js";
+import { parseCrystal, PROTOCOL_LAYERS } from "./src/crystal-parser.js";
+
+/**
+ * Token budgets for import_crystal: layer selection, paging and cursors (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function isInvalidArgument(pattern) {
+  return error => error.name === "ToolError" && error.code === "INVALID_ARGUMENT" && pattern.test(error.message);
+}
+
+console.log("🪙 Testing crystal budgets\n");
+
+const content = `⟨⟨BUDGET_CRYSTAL⟩⟩ = ${JSON.stringify({
+  "Ω": "paged",
+  "L₁⟨PROBLEM_MANIFOLD⟩": { "P₁": "too long to import", "P₂": "agents need a subset" },
+  "L₂⟨RESOLUTION_TRAJECTORY⟩": { "T₁": "page by lines", "T₂": "select layers" },
+  "L₉⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩": ["import with max_tokens"],
+}, null, 2)}`;
+
+check("token estimates count four ASCII characters or one symbol per token", () => {
+  assert.equal(estimateTokens(""), 0);
+  assert.equal(estimateTokens("abcde"), 2);
+  assert.equal(estimateTokens("L₁⟨⟩"), 4);
+});
+
+check("pages cover the text exactly once and respect the budget", () => {
+  const pages = [];
+  let offset = 0;
+  while (offset !== null) {
+    const page = pageText(content, offset, 12);
+    assert.ok(page.tokens <= 12, `page at ${offset} has ${page.tokens} tokens`);
+    assert.equal(page.totalTokens, estimateTokens(content));
+    pages.push(page.text);
+    offset = page.nextOffset;
+  }
+  assert.ok(pages.length > 1);
+  assert.equal(pages.join(""), content);
+});
+
+check("a line longer than the budget is cut mid-line", () => {
+  const page = pageText("x".repeat(40), 0, 3);
+  assert.equal(page.text, "xxx");
+  assert.equal(page.nextOffset, 3);
+  assert.equal(pageText("x".repeat(40), 37, 3).nextOffset, null);
+  assert.throws(() => pageText("short", 6, 3), isInvalidArgument(/^Cursor offset 6 is past the end/));
+});
+
+check("cursors round-trip and tampered cursors are rejected", () => {
+  const cursor = { id: "a", requested: "latest", namespace: "default", spec: "2.0", layers: [1, 9], offset: 42, fingerprint: "abc" };
+  assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  assert.throws(() => decodeCursor(encodeCursor({ ...cursor, offset: -1 })), isInvalidArgument(/^Invalid cursor/));
+  assert.throws(() => decodeCursor("not a cursor"), isInvalidArgument(/^Invalid cursor/));
+});
+
+check("layer references resolve in model order and unknown ones are rejected", () => {
+  assert.deepEqual(resolveLayerRefs(["RECONSTRUCTION_PROTOCOL", "L₁", "2", "1"], PROTOCOL_LAYERS), [1, 2, 9]);
+  assert.throws(() => resolveLayerRefs(["L₁₂"], PROTOCOL_LAYERS), isInvalidArgument(/^Unknown layer: L₁₂/));
+});
+
+check("selecting layers keeps the core transform and reports missing layers", () => {
+  const { content: selected, missing } = selectLayers(content, PROTOCOL_LAYERS, [1, 3]);
+  const crystal = parseCrystal(selected, PROTOCOL_LAYERS);
+  assert.equal(crystal.header, "BUDGET_CRYSTAL");
+  assert.equal(crystal.coreTransform.omega, "paged");
+  assert.deepEqual(crystal.layers.filter(layer => layer.present).map(layer => layer.index), [1]);
+  assert.deepEqual(missing.map(layer => layer.name), ["MODIFIED_ARTIFACTS"]);
+});
+
+check("the outline lists every layer with its keys", () => {
+  const outline = outlineCrystal(content, PROTOCOL_LAYERS).split("\n");
+  assert.match(outline[0], /^⟨⟨BUDGET_CRYSTAL⟩⟩ \(~\d+ tokens\)$/);
+  assert.ok(outline.includes("Ω: paged"));
+  assert.ok(outline.some(line => /^L₁⟨PROBLEM_MANIFOLD⟩: 2 entries, ~\d+ tokens: P₁, P₂$/.test(line)));
+  assert.ok(outline.includes("L₃⟨MODIFIED_ARTIFACTS⟩: absent"));
+  assert.ok(outline.some(line => /^L₉⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩: 1 entry, ~\d+ tokens: import with max_tokens$/.test(line)));
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} budget check(s) failed` : "\n✅ All budget checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { createTarGz, readTarGz } from "./src/tar.js";
+import { createBundle, openBundle, reidCrystals, InvalidBundleError } from "./src/crystal-bundle.js";
+
+/**
+ * Crystal bundles: tar round-trips, checksum verification and id remapping (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function crystal(id, extra = {}) {
+  return {
+    id,
+    title: `Crystal ${id}`,
+    content: "⟨⟨CRYSTAL⟩⟩ = {\"Ω\": \"bundle test\"}",
+    spec_version: "2.0",
+    created_at: "2026-01-01T00:00:00.000Z",
+    auto_detected: false,
+    ...extra,
+  };
+}
+
+console.log("📦 Testing crystal bundles\n");
+
+check("tar archives round-trip files of any size", () => {
+  const entries = [
+    { path: "manifest.json", data: Buffer.from("{}") },
+    { path: "crystals/empty.crystal", data: Buffer.alloc(0) },
+    { path: "codex/large.md", data: Buffer.from("x".repeat(1500)) },
+    { path: "protocols/ünïcode.cp", data: Buffer.from("Ω ∴ ⟨⟨CRYSTAL⟩⟩") },
+  ];
+  const read = readTarGz(createTarGz(entries));
+  assert.deepEqual(read.map(entry => entry.path), entries.map(entry => entry.path));
+  read.forEach((entry, i) => assert.ok(entry.data.equals(entries[i].data), entry.path));
+});
+
+check("a bundle round-trips crystals and their dependencies", () => {
+  const dependencies = {
+    protocol: { filename: "CRYSTALLIZATION_PROTOCOL_2.0.cp", content: "protocol body" },
+    codex: [{ filename: "CODEX.md", content: "codex body" }],
+  };
+  const { archive, manifest } = createBundle([
+    { crystal: crystal("a"), dependencies },
+    { crystal: crystal("b"), dependencies },
+  ]);
+  assert.equal(manifest.crystals.length, 2);
+  // Shared dependencies are stored once
+  assert.equal(manifest.files.length, 4);
+
+  const opened = openBundle(archive);
+  assert.deepEqual(opened.crystals, [crystal("a"), crystal("b")]);
+  assert.equal(opened.protocols.get("CRYSTALLIZATION_PROTOCOL_2.0.cp"), "protocol body");
+  assert.equal(opened.codex.get("CODEX.md"), "codex body");
+});
+
+check("a modified file fails the manifest checksum", () => {
+  const { archive } = createBundle([{ crystal: crystal("a"), dependencies: { protocol: null, codex: [] } }]);
+  const tampered = readTarGz(archive).map(entry =>
+    entry.path === "crystals/a.crystal"
+      ? { ...entry, data: Buffer.from(JSON.stringify(crystal("a", { title: "Changed" }))) }
+      : entry
+  );
+  assert.throws(() => openBundle(createTarGz(tampered)), error =>
+    error instanceof InvalidBundleError && /^Checksum mismatch for crystals\/a\.crystal/.test(error.message));
+});
+
+check("an archive without a manifest is rejected", () => {
+  assert.throws(() => openBundle(createTarGz([{ path: "crystals/a.crystal", data: Buffer.from("{}") }])),
+    /^InvalidBundleError: Invalid bundle: missing manifest\.json$/);
+  assert.throws(() => openBundle(Buffer.from("not a bundle")), InvalidBundleError);
+});
+
+check("colliding crystals get new ids and lineage links follow them", () => {
+  const { crystals, idMap } = reidCrystals(
+    [crystal("root"), crystal("child", { root_id: "root", parent_id: "root", supersedes: "root" }), crystal("other")],
+    new Set(["root"]),
+    () => "fresh"
+  );
+  assert.deepEqual([...idMap], [["root", "fresh"]]);
+  assert.deepEqual(crystals.map(c => c.id), ["fresh", "child", "other"]);
+  assert.equal(crystals[1].root_id, "fresh");
+  assert.equal(crystals[1].parent_id, "fresh");
+  assert.equal(crystals[1].supersedes, "fresh");
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} bundle check(s) failed` : "\n✅ All bundle checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { FileCrystalStore } from "./src/crystal-store.js";
+import { CrystalCatalogue } from "./src/crystal-catalogue.js";
+
+/**
+ * Catalogue refresh checks: writes reported by id, and watched files (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+function crystal(id, title) {
+  return { id, title, content: "⟨⟨CRYSTAL⟩⟩", spec_version: "2.0", created_at: new Date().toISOString(), auto_detected: false };
+}
+
+async function testCatalogue() {
+  console.log("🗂️ Testing the crystal catalogue\n");
+
+  const root = await mkdtemp(join(tmpdir(), "crystal-catalogue-"));
+  const directories = { protocol: join(root, "protocols"), codex: join(root, "codex") };
+  await mkdir(directories.protocol, { recursive: true });
+  await mkdir(directories.codex, { recursive: true });
+  const store = new FileCrystalStore(join(root, "crystals"));
+  await store.put(crystal("first", "First"));
+
+  let fullReads = 0;
+  const list = store.list.bind(store);
+  store.list = async () => {
+    fullReads++;
+    return list();
+  };
+
+  const catalogue = new CrystalCatalogue(store, directories);
+  const changes = [];
+  catalogue.onChange(change => changes.push(change));
+
+  try {
+    await check("initial load reads the store once and announces nothing", async () => {
+      assert.deepEqual((await catalogue.crystals()).map(entry => entry.id), ["first"]);
+      assert.equal(fullReads, 1);
+      assert.equal(changes.length, 0);
+    });
+
+    await check("a write reported by id updates only that entry", async () => {
+      await store.put(crystal("second", "Second"));
+      await catalogue.refreshCrystals(["second"]);
+      assert.deepEqual((await catalogue.crystals()).map(entry => entry.id).sort(), ["first", "second"]);
+      assert.equal(fullReads, 1);
+      assert.deepEqual(changes.pop(), { kind: "crystal", changed: ["second"], removed: [] });
+    });
+
+    catalogue.watch();
+
+    await check("a spec file and a crystal file changing together are both catalogued", async () => {
+      // The specs timer is armed first and fires while the crystal id is still pending
+      await writeFile(join(directories.codex, "TEST_CODEX_1.0.cx"), "⟨⟨TEST_CODEX_v1.0⟩⟩\n⟨SYMBOL_SEMANTICS⟩");
+      await wait(20);
+      await writeFile(join(root, "crystals", "third.crystal"), JSON.stringify(crystal("third", "Third")));
+      await wait(400);
+      assert.ok((await catalogue.crystals()).some(entry => entry.id === "third"), "third.crystal is not in the catalogue");
+      assert.ok(changes.some(change => change.kind === "crystal" && change.changed.includes("third")), "no change announced for third");
+      assert.ok(changes.some(change => change.kind === "codex" && change.changed.includes("TEST_CODEX_1.0.cx")), "no change announced for the codex file");
+      assert.equal(fullReads, 1);
+    });
+
+    await check("a removed crystal file is announced as removed", async () => {
+      await rm(join(root, "crystals", "first.crystal"));
+      await wait(400);
+      assert.ok(!(await catalogue.crystals()).some(entry => entry.id === "first"));
+      assert.ok(changes.some(change => change.kind === "crystal" && change.removed.includes("first")));
+    });
+  } finally {
+    catalogue.close();
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} catalogue check(s) failed` : "\n✅ All catalogue checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testCatalogue().catch(error => {
+  console.error("❌ Catalogue test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+
+import { mkdtemp, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { main } from "./src/crystal-cli.js";
+
+/**
+ * Crystal CLI subcommands against a temporary data root (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+// Run the CLI in-process and collect what it prints
+async function cli(...argv) {
+  const output = { stdout: [], stderr: [] };
+  const { log, error } = console;
+  console.log = (...parts) => output.stdout.push(parts.join(" "));
+  console.error = (...parts) => output.stderr.push(parts.join(" "));
+  try {
+    const code = await main(argv);
+    return { code, stdout: output.stdout.join("\n"), stderr: output.stderr.join("\n") };
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+}
+
+async function testCli() {
+  console.log("⌨️ Testing crystal CLI\n");
+
+  const root = await mkdtemp(join(tmpdir(), "crystal-cli-"));
+  const file = join(root, "session.crystal.txt");
+  const json = async (...argv) => {
+    const result = await cli(...argv, "--data-root", root, "--json");
+    return { code: result.code, body: JSON.parse(result.stdout) };
+  };
+
+  try {
+    await writeFile(file, "⟨⟨CLI_CRYSTAL⟩⟩ = {\"Ω\": \"from the terminal\", \"L₁⟨PROBLEM_MANIFOLD⟩\": {\"P₁\": \"shell users\"}}");
+    const exported = await json("export", "--file", file, "--title", "CLI crystal", "--tag", "cli", "--validation", "off", "--git-head", "abcdef12");
+
+    await check("export stores a crystal with CLI provenance", async () => {
+      assert.equal(exported.code, 0);
+      assert.equal(exported.body.ok, true);
+      assert.equal(exported.body.crystal.title, "CLI crystal");
+      assert.deepEqual(exported.body.crystal.tags, ["cli"]);
+      assert.equal(exported.body.crystal.provenance.client.name, "crystal-cli");
+      assert.equal(exported.body.crystal.provenance.git_head, "abcdef12");
+    });
+
+    await check("list, show and search find the exported crystal", async () => {
+      const id = exported.body.crystal.id;
+      assert.deepEqual((await json("list", "--client", "crystal-cli")).body.crystals.map(c => c.id), [id]);
+      const shown = await json("show", id, "--layer", "L1");
+      assert.deepEqual(shown.body.layers, ["L₁⟨PROBLEM_MANIFOLD⟩"]);
+      assert.match(shown.body.content, /"P₁": "shell users"/);
+      assert.deepEqual((await json("search", "shell")).body.hits.map(hit => hit.id), [id]);
+    });
+
+    await check("text output is readable without --json", async () => {
+      const listed = await cli("list", "--data-root", root);
+      assert.equal(listed.code, 0);
+      assert.match(listed.stdout, /^Available Crystals in default \(1\)/);
+      assert.match(listed.stdout, /CLI crystal {2}\[cli\]$/m);
+    });
+
+    await check("bad arguments fail with INVALID_ARGUMENT and point at --help", async () => {
+      assert.deepEqual(await json("export"), {
+        code: 1,
+        body: { ok: false, error: { code: "INVALID_ARGUMENT", message: "export needs --file <path|-> or --transcript <path>" } },
+      });
+      assert.equal((await json("list", "--sort", "size")).body.error.code, "INVALID_ARGUMENT");
+      assert.equal((await json("show", "missing")).body.error.code, "NOT_FOUND");
+      const unknown = await cli("frobnicate", "--data-root", root);
+      assert.equal(unknown.code, 1);
+      assert.equal(unknown.stderr, "Error running frobnicate: Unknown command: frobnicate\nRun 'crystal --help' for usage.");
+      assert.equal((await cli("--bogus")).code, 1);
+      assert.match((await cli("--help")).stdout, /^Usage: crystal <command> \[options\]/);
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} CLI check(s) failed` : "\n✅ All CLI checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testCli().catch(error => {
+  console.error("❌ CLI test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import assert from "assert/strict";
+import { loadCrystalConfig, namespaceLocation, namespaceFromLocation, resolveWithin, displayPath } from "./src/crystal-config.js";
+
+/**
+ * Data root configuration: precedence, path resolution and namespace locations (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function isInvalidArgument(pattern) {
+  return error => error.name === "ToolError" && error.code === "INVALID_ARGUMENT" && pattern.test(error.message);
+}
+
+async function testConfig() {
+  console.log("⚙️ Testing crystal config\n");
+
+  const project = await mkdtemp(join(tmpdir(), "crystal-config-"));
+  try {
+    await mkdir(join(project, "conf"));
+    await writeFile(join(project, "conf", "crystal.config.json"), JSON.stringify({
+      root: "../data",
+      crystals: "store",
+      store: "sqlite",
+      namespace: "repo",
+      namespaces: { pinned: "elsewhere/pinned.sqlite" },
+    }));
+    await writeFile(join(project, "crystal.config.json"), JSON.stringify({ crystals: "from-default-file" }));
+    const data = join(project, "data");
+
+    await check("without overrides the project's config file and defaults apply", async () => {
+      const config = loadCrystalConfig(project, {}, {});
+      assert.equal(config.source, join(project, "crystal.config.json"));
+      assert.equal(config.paths.root, project);
+      assert.equal(config.paths.crystals, join(project, "from-default-file"));
+      assert.equal(config.paths.protocols, join(project, "public/protocols"));
+      assert.equal(config.store, "file");
+      assert.equal(config.namespace, "default");
+    });
+
+    await check("config file paths resolve against the data root, the root against the file", async () => {
+      const config = loadCrystalConfig(project, {}, { CRYSTAL_CONFIG: "conf/crystal.config.json" });
+      assert.equal(config.paths.root, data);
+      assert.equal(config.paths.crystals, join(data, "store"));
+      assert.equal(config.paths.database, join(data, "data/crystals.sqlite"));
+      assert.equal(config.store, "sqlite");
+      assert.equal(config.namespace, "repo");
+      assert.deepEqual(config.namespaces, { pinned: join(data, "elsewhere/pinned.sqlite") });
+    });
+
+    await check("flags beat the environment, which beats the config file", async () => {
+      const env = { CRYSTAL_CONFIG: "conf/crystal.config.json", CRYSTAL_CRYSTALS_DIR: "env-store", CRYSTAL_STORE: "file" };
+      const fromEnv = loadCrystalConfig(project, {}, env);
+      assert.equal(fromEnv.paths.crystals, join(data, "env-store"));
+      assert.equal(fromEnv.store, "file");
+      const fromFlags = loadCrystalConfig(project, { crystalsDir: "flag-store", namespace: "cli" }, env);
+      assert.equal(fromFlags.paths.crystals, resolve("flag-store"));
+      assert.equal(fromFlags.namespace, "cli");
+    });
+
+    await check("bad values are rejected", async () => {
+      assert.throws(() => loadCrystalConfig(project, { store: "redis" }, {}), /^Error: Unknown CRYSTAL_STORE: redis/);
+      assert.throws(() => loadCrystalConfig(project, { config: join(project, "missing.json") }, {}), /^Error: Invalid crystal config .*missing\.json: /);
+      assert.throws(() => loadCrystalConfig(project, { namespace: "../up" }, {}), isInvalidArgument(/^Invalid namespace: \.\.\/up/));
+    });
+
+    await check("namespaces live next to the default store unless placed explicitly", async () => {
+      const sqlite = loadCrystalConfig(project, {}, { CRYSTAL_CONFIG: "conf/crystal.config.json" });
+      assert.equal(namespaceLocation(sqlite, "default"), join(data, "data/crystals.sqlite"));
+      assert.equal(namespaceLocation(sqlite, "pinned"), join(data, "elsewhere/pinned.sqlite"));
+      assert.equal(namespaceLocation(sqlite, "team"), join(data, "data/crystals.team.sqlite"));
+      assert.equal(namespaceFromLocation(sqlite, "crystals.team.sqlite", false), "team");
+      assert.equal(namespaceFromLocation(sqlite, "crystals.sqlite", false), null);
+
+      const files = loadCrystalConfig(project, {}, {});
+      assert.equal(namespaceLocation(files, "team"), join(project, "from-default-file", "team"));
+      assert.equal(namespaceFromLocation(files, "team", true), "team");
+      assert.equal(namespaceFromLocation(files, ".trash", true), null);
+      assert.throws(() => namespaceLocation(files, ".."), isInvalidArgument(/^Invalid namespace/));
+    });
+
+    await check("tool paths must stay inside the data root", async () => {
+      assert.equal(resolveWithin(data, "bundles/a.tar.gz"), join(data, "bundles/a.tar.gz"));
+      assert.throws(() => resolveWithin(data, "../outside"), isInvalidArgument(/^Path is outside the data root: \.\.\/outside$/));
+      assert.throws(() => resolveWithin(data, `${data}-sibling`), isInvalidArgument(/^Path is outside the data root/));
+      const config = loadCrystalConfig(project, {}, { CRYSTAL_CONFIG: "conf/crystal.config.json" });
+      assert.equal(displayPath(config, join(data, "store", "a.crystal")), join("store", "a.crystal"));
+      assert.equal(displayPath(config, "/etc/hosts"), "/etc/hosts");
+    });
+  } finally {
+    await rm(project, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} config check(s) failed` : "\n✅ All config checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testConfig().catch(error => {
+  console.error("❌ Config test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { diffCrystals, formatCrystalDiff } from "./src/crystal-diff.js";
+import { PROTOCOL_LAYERS } from "./src/crystal-parser.js";
+
+/**
+ * Layer-wise crystal comparison for diff_crystals (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function crystal(id, body) {
+  return {
+    id,
+    title: `Crystal ${id}`,
+    content: `⟨⟨SESSION_CRYSTAL⟩⟩ = ${JSON.stringify(body)}`,
+    spec_version: "2.0",
+    created_at: "2026-01-01T00:00:00.000Z",
+    auto_detected: false,
+  };
+}
+
+console.log("🔀 Testing crystal diffs\n");
+
+const before = crystal("before", {
+  "Ω": "cache fixed",
+  "L₁⟨PROBLEM_MANIFOLD⟩": { "P₁": "stale cache", "P₂": "slow  startup" },
+  "L₇⟨ENHANCEMENT_VECTORS⟩": ["add metrics", "shard the cache"],
+});
+const after = crystal("after", {
+  "Ω": "cache fixed",
+  "∂": "stale → fresh",
+  "L₁⟨PROBLEM_MANIFOLD⟩": { "P1": "stale cache entries", "P₂": "slow startup", "P₃": "memory growth" },
+  "L₇⟨ENHANCEMENT_VECTORS⟩": ["shard the cache", "add tracing"],
+  "L₉⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩": ["rerun the benchmark"],
+});
+const diff = diffCrystals(before, after, PROTOCOL_LAYERS, PROTOCOL_LAYERS);
+const layer = name => diff.layers.find(l => l.name === name);
+
+check("keyed entries are matched by key, whatever its digits or spacing", () => {
+  const problems = layer("PROBLEM_MANIFOLD");
+  assert.equal(problems.status, "changed");
+  assert.deepEqual(problems.changed, [{ key: "P1", before: "stale cache", after: "stale cache entries" }]);
+  assert.deepEqual(problems.added.map(entry => entry.key), ["P₃"]);
+  assert.deepEqual(problems.removed, []);
+  assert.equal(problems.unchanged, 1);
+});
+
+check("unkeyed entries are matched by text", () => {
+  const vectors = layer("ENHANCEMENT_VECTORS");
+  assert.deepEqual(vectors.added.map(entry => entry.text), ["add tracing"]);
+  assert.deepEqual(vectors.removed.map(entry => entry.text), ["add metrics"]);
+  assert.equal(vectors.unchanged, 1);
+});
+
+check("layer status, core transform and totals are reported", () => {
+  assert.equal(layer("RECONSTRUCTION_PROTOCOL").status, "added");
+  assert.equal(layer("META_CONTEXT").status, "absent");
+  assert.equal(diff.header, null);
+  assert.equal(diff.omega, null);
+  assert.deepEqual(diff.delta, { before: null, after: "stale → fresh" });
+  assert.deepEqual(diff.totals, { added: 3, removed: 1, changed: 1 });
+});
+
+check("the summary uses each layer's vocabulary", () => {
+  const text = formatCrystalDiff(diff);
+  assert.match(text, /^Totals: \+3 -1 ~1$/m);
+  assert.match(text, /^∂: \(none\) → stale → fresh$/m);
+  assert.match(text, /^  \+ new problem: P₃: memory growth$/m);
+  assert.match(text, /^  ~ restated problem P1: stale cache → stale cache entries$/m);
+  assert.match(text, /^  - dropped enhancement vector: add metrics$/m);
+});
+
+check("a crystal compared with itself has no changes", () => {
+  const same = diffCrystals(before, before, PROTOCOL_LAYERS, PROTOCOL_LAYERS);
+  assert.deepEqual(same.totals, { added: 0, removed: 0, changed: 0 });
+  assert.ok(same.layers.every(l => l.status === "unchanged" || l.status === "absent"));
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} diff check(s) failed` : "\n✅ All diff checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+
+import { randomBytes, createCipheriv } from "crypto";
+import { mkdtemp, readFile, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { FileCrystalStore } from "./src/crystal-store.js";
+import { CrystalCipher, CrystalDecryptionError, EncryptedCrystalStore, parseEncryptionKey } from "./src/crystal-encryption.js";
+import { sealCrystal, verifyCrystal } from "./src/crystal-integrity.js";
+
+/**
+ * Encryption at rest checks: round trips, tampered metadata and older files (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function crystal(id) {
+  return sealCrystal({ id, title: "Secret", content: "⟨⟨CRYSTAL⟩⟩ secret text", spec_version: "2.0", created_at: "2026-01-01T00:00:00.000Z", tags: ["a"] }, null);
+}
+
+async function testEncryption() {
+  console.log("🔒 Testing crystal encryption\n");
+
+  const root = await mkdtemp(join(tmpdir(), "crystal-encryption-"));
+  const key = parseEncryptionKey(randomBytes(32).toString("base64"), "test");
+  const inner = new FileCrystalStore(root);
+  const store = new EncryptedCrystalStore(inner, new CrystalCipher(key));
+  const file = (id) => join(root, `${id}.crystal`);
+  const tamper = async (id, edit) => writeFile(file(id), JSON.stringify(edit(JSON.parse(await readFile(file(id), "utf-8")))));
+
+  try {
+    await check("content and integrity are stored only as ciphertext", async () => {
+      await store.put(crystal("plain1"));
+      const raw = await readFile(file("plain1"), "utf-8");
+      assert.ok(!raw.includes("secret text"));
+      assert.equal(JSON.parse(raw).integrity, undefined);
+      const back = await store.get("plain1");
+      assert.equal(back.content, "⟨⟨CRYSTAL⟩⟩ secret text");
+      assert.equal(verifyCrystal(back, []).content, "verified");
+    });
+
+    for (const [name, edit] of [
+      ["an edited title", data => ({ ...data, title: "Changed" })],
+      ["an added tag", data => ({ ...data, tags: [...data.tags, "b"] })],
+      ["a stripped payload marker", data => ({ ...data, encryption: { ...data.encryption, payload: undefined } })],
+      ["an integrity record added outside the ciphertext", data => ({ ...data, integrity: { algorithm: "sha256", content_hash: "0".repeat(64) } })]
+    ]) {
+      await check(`${name} fails decryption`, async () => {
+        await store.put(crystal("tampered"));
+        await tamper("tampered", edit);
+        await assert.rejects(store.get("tampered"), CrystalDecryptionError);
+      });
+    }
+
+    await check("older files (id-only associated data) stay readable and are rewritten by reencrypt", async () => {
+      const { integrity, ...legacy } = crystal("legacy1");
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", key.key, iv);
+      cipher.setAAD(Buffer.from(legacy.id, "utf-8"));
+      const ciphertext = Buffer.concat([cipher.update(legacy.content, "utf-8"), cipher.final()]);
+      await inner.put({
+        ...legacy,
+        integrity,
+        content: ciphertext.toString("base64"),
+        encryption: { algorithm: "aes-256-gcm", key_id: key.keyId, iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64") }
+      });
+      assert.equal((await store.get("legacy1")).content, legacy.content);
+      const result = await store.reencrypt(true);
+      assert.ok(result.rewritten.includes("legacy1"));
+      const raw = JSON.parse(await readFile(file("legacy1"), "utf-8"));
+      assert.equal(raw.encryption.aad, "metadata");
+      assert.equal(raw.integrity, undefined);
+      assert.equal(verifyCrystal(await store.get("legacy1"), []).content, "verified");
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} encryption check(s) failed` : "\n✅ All encryption checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testEncryption().catch(error => {
+  console.error("❌ Encryption test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+import { generateKeyPairSync } from "crypto";
+import { mkdtemp, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { sealCrystal, verifyCrystal, loadSigningKey, loadTrustedKeys, encodePublicKey, formatIntegrityReport } from "./src/crystal-integrity.js";
+
+/**
+ * Content hashes and Ed25519 signatures: sealing, verification and trust (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function crystal(id) {
+  return { id, title: "Signed", content: "⟨⟨CRYSTAL⟩⟩ signed text", spec_version: "2.0", created_at: "2026-01-01T00:00:00.000Z" };
+}
+
+function pem(key) {
+  return key.export({ format: "pem", type: key.type === "private" ? "pkcs8" : "spki" });
+}
+
+async function testIntegrity() {
+  console.log("🔏 Testing crystal integrity\n");
+
+  const root = await mkdtemp(join(tmpdir(), "crystal-integrity-"));
+  const local = generateKeyPairSync("ed25519");
+  const stranger = generateKeyPairSync("ed25519");
+
+  try {
+    await writeFile(join(root, "signing.pem"), pem(local.privateKey));
+    await writeFile(join(root, "rsa.pem"), pem(generateKeyPairSync("rsa", { modulusLength: 1024 }).privateKey));
+    await writeFile(join(root, "trusted.json"), JSON.stringify({
+      keys: [{ name: "local", public_key: pem(local.publicKey) }, { public_key: encodePublicKey(stranger.publicKey) }],
+    }));
+    const signingKey = await loadSigningKey(join(root, "signing.pem"));
+    const trusted = await loadTrustedKeys(join(root, "trusted.json"));
+
+    await check("keys load from PEM and base64 SPKI", async () => {
+      assert.equal(signingKey.keyId.length, 16);
+      assert.deepEqual(trusted.map(key => key.name), ["local", trusted[1].keyId]);
+      assert.equal(trusted[0].keyId, signingKey.keyId);
+      await assert.rejects(loadSigningKey(join(root, "rsa.pem")), /is rsa, expected ed25519$/);
+      assert.deepEqual(await loadTrustedKeys(join(root, "missing.json")), []);
+    });
+
+    await check("unsealed and hash-only crystals verify their content", async () => {
+      assert.deepEqual(verifyCrystal(crystal("a"), trusted), { content: "missing", signature: "unsigned", ok: true });
+      const sealed = sealCrystal(crystal("a"), null);
+      assert.deepEqual(verifyCrystal(sealed, trusted), { content: "verified", signature: "unsigned", ok: true });
+      assert.deepEqual(verifyCrystal({ ...sealed, content: "edited" }, trusted), { content: "mismatch", signature: "unsigned", ok: false });
+    });
+
+    await check("signatures are trusted, untrusted or invalid", async () => {
+      const signed = sealCrystal(crystal("a"), signingKey);
+      const report = verifyCrystal(signed, trusted);
+      assert.deepEqual(report, { content: "verified", signature: "trusted", keyId: signingKey.keyId, signer: "local", ok: true });
+      assert.equal(formatIntegrityReport(report), `✓ content hash verified; ✓ signed by trusted key local (${signingKey.keyId})`);
+      assert.equal(verifyCrystal(signed, []).signature, "untrusted");
+      // The id is not signed, so import_bundle can reassign it
+      assert.equal(verifyCrystal({ ...signed, id: "renamed" }, trusted).ok, true);
+      assert.equal(verifyCrystal({ ...signed, created_at: "2026-02-01T00:00:00.000Z" }, trusted).signature, "invalid");
+    });
+
+    await check("a signature cannot be moved onto another key id", async () => {
+      const signed = sealCrystal(crystal("a"), signingKey);
+      const forged = { ...signed, integrity: { ...signed.integrity, signature: { ...signed.integrity.signature, key_id: trusted[1].keyId } } };
+      assert.deepEqual(verifyCrystal(forged, trusted), { content: "verified", signature: "invalid", keyId: trusted[1].keyId, ok: false });
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} integrity check(s) failed` : "\n✅ All integrity checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testIntegrity().catch(error => {
+  console.error("❌ Integrity test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { lineageOf, childLineage, lineageHistory, ancestorChain, latestInLineage } from "./src/crystal-lineage.js";
+
+/**
+ * Crystal lineage: versions, supersession and history (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function crystal(id, day, parent = null, supersede = false) {
+  return {
+    id,
+    title: `Crystal ${id}`,
+    spec_version: "2.0",
+    created_at: `2026-01-0${day}T00:00:00.000Z`,
+    auto_detected: false,
+    ...(parent ? childLineage(parent, supersede) : {}),
+  };
+}
+
+console.log("🌳 Testing crystal lineage\n");
+
+// root → v2 (supersedes root) → v3, plus a later branch off v2 that supersedes it
+const root = crystal("root", 1);
+const v2 = crystal("v2", 2, root, true);
+const v3 = crystal("v3", 3, v2);
+const branch = crystal("branch", 4, v2, true);
+const other = crystal("other", 5);
+const crystals = [v3, other, branch, root, v2];
+
+check("a crystal without lineage fields is its own root at version 1", () => {
+  assert.deepEqual(lineageOf(root), { root_id: "root", parent_id: undefined, supersedes: undefined, version: 1 });
+});
+
+check("children continue the parent's lineage", () => {
+  assert.deepEqual(lineageOf(v3), { root_id: "root", parent_id: "v2", supersedes: undefined, version: 3 });
+  assert.equal(branch.supersedes, "v2");
+});
+
+check("history lists the whole lineage oldest first with supersession", () => {
+  const history = lineageHistory(crystals, "v3");
+  assert.deepEqual(history.map(entry => [entry.id, entry.version, entry.superseded]), [
+    ["root", 1, true],
+    ["v2", 2, true],
+    ["v3", 3, false],
+    ["branch", 3, false],
+  ]);
+  assert.deepEqual(lineageHistory(crystals, "missing"), []);
+});
+
+check("the ancestor chain runs from the root to the crystal", () => {
+  assert.deepEqual(ancestorChain(crystals, "branch").map(c => c.id), ["root", "v2", "branch"]);
+  assert.deepEqual(ancestorChain(crystals, "other").map(c => c.id), ["other"]);
+});
+
+check("the latest crystal is the newest one not superseded", () => {
+  assert.equal(latestInLineage(crystals, "root").id, "branch");
+  assert.equal(latestInLineage(crystals.filter(c => c.id !== "branch"), "root").id, "v3");
+  assert.equal(latestInLineage(crystals, "missing"), null);
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} lineage check(s) failed` : "\n✅ All lineage checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -86,7 +86,7 @@ async function testCrystalMCP() {
       arguments: { 
         title: "Test Crystal",
         manual_content: "This is a test crystal created during MCP server testing.",
-        spec_version: "3.0"
+        spec_version: "2.0"
       }
     });
     
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { mergeCrystals, formatMergeReport } from "./src/crystal-merge.js";
+import { parseCrystal, PROTOCOL_LAYERS } from "./src/crystal-parser.js";
+
+/**
+ * Composite crystals for merge_crystals: renumbering, deduplication and conflicts (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function source(id, created_at, body) {
+  const content = `⟨⟨SESSION_CRYSTAL⟩⟩ = ${JSON.stringify(body)}`;
+  return { crystal: { id, title: id, content, spec_version: "2.0", created_at, auto_detected: false }, content };
+}
+
+function entries(content, name) {
+  return parseCrystal(content, PROTOCOL_LAYERS).layers.find(layer => layer.name === name).entries
+    .map(entry => entry.key ? `${entry.key}: ${entry.text}` : entry.text);
+}
+
+console.log("⊕ Testing crystal merges\n");
+
+// Passed newest first to check that sources are merged in time order
+const { content, report } = mergeCrystals([
+  source("second", "2026-02-01T00:00:00.000Z", {
+    "Ω": "sessions expire",
+    "L₁⟨PROBLEM_MANIFOLD⟩": { "P₁": "Stale  cache", "P₂": "session leak" },
+    "L₂⟨RESOLUTION_TRAJECTORY⟩": { "T₁": "already handled", "T₂": "close idle sessions" },
+    "L₃⟨MODIFIED_ARTIFACTS⟩": { "src/cache.ts": "rewritten" },
+    "L₆⟨BEHAVIORAL_TESTS⟩": { "I₁": "no entry outlives its TTL" },
+  }),
+  source("first", "2026-01-01T00:00:00.000Z", {
+    "Ω": "cache is fresh",
+    "L₁⟨PROBLEM_MANIFOLD⟩": { "P₁": "stale cache" },
+    "L₂⟨RESOLUTION_TRAJECTORY⟩": { "T₁": "invalidate on write" },
+    "L₃⟨MODIFIED_ARTIFACTS⟩": { "src/cache.ts": "invalidation hook" },
+    "L₆⟨BEHAVIORAL_TESTS⟩": { "I₁": "reads see the latest write" },
+  }),
+], PROTOCOL_LAYERS);
+
+check("sources merge oldest first under a shared header", () => {
+  assert.deepEqual(report.sources, ["first", "second"]);
+  const merged = parseCrystal(content, PROTOCOL_LAYERS);
+  assert.equal(merged.header, "SESSION_CRYSTAL");
+  assert.equal(merged.coreTransform.omega, "cache is fresh ⊕ sessions expire");
+});
+
+check("problems are unioned and renumbered, steps point at the new numbers", () => {
+  assert.deepEqual(entries(content, "PROBLEM_MANIFOLD"), ["P₁: stale cache", "P₂: session leak"]);
+  assert.deepEqual(entries(content, "RESOLUTION_TRAJECTORY"), [
+    "T₁: invalidate on write (P₁)",
+    "T₂: already handled (P₁)",
+    "T₃: close idle sessions (P₂)",
+  ]);
+  assert.equal(report.problems, 2);
+  assert.equal(report.steps, 3);
+  assert.equal(report.duplicates, 1);
+});
+
+check("a later artifact entry replaces an earlier one", () => {
+  assert.deepEqual(entries(content, "MODIFIED_ARTIFACTS"), ["src/cache.ts: rewritten"]);
+  assert.equal(report.artifacts, 1);
+});
+
+check("clashing invariants keep the latest and are reported", () => {
+  assert.deepEqual(entries(content, "BEHAVIORAL_TESTS"), ["I₁: no entry outlives its TTL"]);
+  assert.deepEqual(report.conflicts, [{
+    key: "I₁",
+    variants: [
+      { crystalId: "first", text: "reads see the latest write" },
+      { crystalId: "second", text: "no entry outlives its TTL" },
+    ],
+  }]);
+  assert.match(formatMergeReport(report), /^- I₁: "reads see the latest write" \(first\) vs "no entry outlives its TTL" \(second\)$/m);
+});
+
+check("layers no source has are warned about", () => {
+  assert.ok(report.warnings.includes("L₉ ⟨RECONSTRUCTION_PROTOCOL⟩ is missing from every source crystal"));
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} merge check(s) failed` : "\n✅ All merge checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
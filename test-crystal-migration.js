@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+import { mkdtemp, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { loadMigrationRules, findMigrationPath, migrateCrystalContent } from "./src/crystal-migration.js";
+import { renderCrystal, parseCrystal } from "./src/crystal-parser.js";
+
+/**
+ * Migration rule loading, path finding and layer steps (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+const rule = (from, to, steps = []) => ({ from, to, steps, file: `${from}-${to}.json` });
+
+async function testMigration() {
+  console.log("🔀 Testing crystal migration\n");
+
+  const dir = await mkdtemp(join(tmpdir(), "crystal-migration-"));
+  try {
+    await check("rule files are loaded and validated", async () => {
+      await writeFile(join(dir, "2.0-3.0.json"), JSON.stringify({ from: "2.0", to: "3.0", steps: [{ op: "remove_layer", layer: "⟨OLD⟩" }] }));
+      const rules = await loadMigrationRules(dir);
+      assert.equal(rules.length, 1);
+      assert.equal(rules[0].file, "2.0-3.0.json");
+      assert.equal(rules[0].steps[0].layer, "OLD");
+    });
+
+    await check("a malformed rule file is named in the error", async () => {
+      await writeFile(join(dir, "bad.json"), "{ \"from\": \"2.0\",");
+      await assert.rejects(loadMigrationRules(dir), /^Error: Invalid migration rule bad\.json: /);
+    });
+
+    await check("a missing rules directory has no rules", async () => {
+      assert.deepEqual(await loadMigrationRules(join(dir, "missing")), []);
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  await check("the shortest chain of rules is found", () => {
+    const rules = [rule("1.0", "2.0"), rule("2.0", "3.0"), rule("1.0", "3.0"), rule("3.0", "4.0")];
+    assert.deepEqual(findMigrationPath(rules, "v1", "4.0").map(r => r.file), ["1.0-3.0.json", "3.0-4.0.json"]);
+    assert.deepEqual(findMigrationPath(rules, "2.0", "2"), []);
+    assert.equal(findMigrationPath(rules, "4.0", "1.0"), null);
+  });
+
+  await check("steps rename and add layers in the target layer order", () => {
+    const from = [{ index: 1, name: "CONTEXT" }, { index: 2, name: "CHANGES" }];
+    const to = [{ index: 1, name: "SESSION_CONTEXT" }, { index: 2, name: "CHANGES" }, { index: 3, name: "RISKS" }];
+    const source = renderCrystal({
+      header: "",
+      omega: "fix the cache",
+      delta: null,
+      layers: [{ name: "CONTEXT", entries: [{ key: "repo", text: "tree" }] }, { name: "CHANGES", entries: [{ key: "file", text: "cache.ts" }] }]
+    }, from).content;
+    const steps = [
+      { op: "rename_layer", layer: "CONTEXT", to: "SESSION_CONTEXT" },
+      { op: "add_layer", name: "RISKS", default: "none recorded" }
+    ];
+    const models = { "1.0": from, "2.0": to };
+    const { content, report } = migrateCrystalContent(source, "1.0", "2.0", [rule("1.0", "2.0", steps)], version => models[version]);
+    const migrated = parseCrystal(content, to);
+    assert.deepEqual(migrated.layers.map(layer => layer.present), [true, true, true]);
+    assert.equal(migrated.layers[0].entries[0].text, "tree");
+    assert.equal(migrated.coreTransform.omega, "fix the cache");
+    assert.equal(report.warnings.length, 0);
+    assert.ok(report.changes.length >= 2);
+  });
+}
+
+await testMigration();
+console.log(failures > 0 ? `\n❌ ${failures} migration check(s) failed` : "\n✅ All migration checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
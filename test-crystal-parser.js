@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import {
+  parseCrystal,
+  validateCrystal,
+  renderCrystal,
+  resolveLayerIndex,
+  extractProtocolSection,
+  symbolLegend,
+  PROTOCOL_LAYERS,
+} from "./src/crystal-parser.js";
+
+/**
+ * Crystal parsing, validation and rendering against the protocol layer model (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+// Every layer present, one problem and the step that solves it
+function layers(overrides = {}) {
+  const body = { "Ω": "fixed", "∂": "broken → fixed" };
+  for (const layer of PROTOCOL_LAYERS) {
+    body[`L${layer.index}`] = layer.index === 1 ? { "P₁": "it breaks" } : layer.index === 2 ? { "T₁": "fix it" } : [`${layer.name} entry`];
+  }
+  return `⟨⟨PARSER_CRYSTAL⟩⟩ = ${JSON.stringify({ ...body, ...overrides })}`;
+}
+
+console.log("🧩 Testing crystal parsing\n");
+
+check("JSON crystals parse layers by symbol, number or name", () => {
+  const crystal = parseCrystal(`⟨⟨JSON_CRYSTAL⟩⟩ = ${JSON.stringify({
+    "CORE_TRANSFORM": { "Ω": "done", "∂": "arc" },
+    "LAYERS": { "L₁⟨PROBLEM_MANIFOLD⟩": { "P₁": "one" }, "L2": ["step"], "⟨MODIFIED_ARTIFACTS⟩": { "a.ts": { "lines": 3 } } },
+  })}`);
+  assert.equal(crystal.format, "json");
+  assert.equal(crystal.header, "JSON_CRYSTAL");
+  assert.deepEqual(crystal.coreTransform, { omega: "done", delta: "arc" });
+  assert.deepEqual(crystal.layers.filter(layer => layer.present).map(layer => layer.index), [1, 2, 3]);
+  assert.deepEqual(crystal.layers[0].entries, [{ key: "P₁", text: "one" }]);
+  assert.deepEqual(crystal.layers[2].entries, [{ key: "a.ts", text: "{\"lines\":3}" }]);
+});
+
+check("text and markdown crystals parse too", () => {
+  const crystal = parseCrystal([
+    "⟨⟨TEXT_CRYSTAL⟩⟩",
+    "Ω: converged",
+    "## L₁ ⟨PROBLEM_MANIFOLD⟩",
+    "- P₁: flaky test",
+    "- P2 = slow build",
+    "## L₇ ⟨ENHANCEMENT_VECTORS⟩: caching",
+    "1. retries",
+  ].join("\n"));
+  assert.equal(crystal.format, "text");
+  assert.equal(crystal.coreTransform.omega, "converged");
+  assert.deepEqual(crystal.layers[0].entries, [{ key: "P₁", text: "flaky test" }, { key: "P2", text: "slow build" }]);
+  assert.deepEqual(crystal.layers[6].entries.map(entry => entry.text), ["caching", "retries"]);
+  assert.equal(crystal.layers[1].present, false);
+});
+
+check("a complete crystal validates", () => {
+  const result = validateCrystal(layers());
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.issues, []);
+});
+
+check("missing layers, unsolved problems and empty vectors are errors", () => {
+  const result = validateCrystal(layers({ L1: { "P₁": "it breaks", "P₂": "also this" }, L7: [], L8: undefined }));
+  const errors = result.issues.filter(issue => issue.severity === "error").map(issue => `[${issue.criterion}] ${issue.message}`);
+  assert.equal(result.valid, false);
+  assert.deepEqual(errors, [
+    "[structure] Missing layer L₈ ⟨META_CONTEXT⟩",
+    "[completeness] Problem P₂ has no corresponding step in L₂ ⟨RESOLUTION_TRAJECTORY⟩",
+    "[extensibility] L₇ ⟨ENHANCEMENT_VECTORS⟩ must not be empty",
+  ]);
+  assert.equal(validateCrystal(layers({ L2: { "T₁": "fix P₁ and P2" }, L1: { "P₁": "a", "P₂": "b" } })).valid, true);
+});
+
+check("rendering writes canonical keys and round-trips the entries", () => {
+  const parsed = parseCrystal(layers());
+  const { content, missing, extra } = renderCrystal({
+    header: parsed.header,
+    omega: parsed.coreTransform.omega,
+    delta: parsed.coreTransform.delta,
+    layers: [...parsed.layers, { name: "NOTES", entries: [{ key: null, text: "extra" }] }],
+  }, PROTOCOL_LAYERS);
+  assert.match(content, /"L₉⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩"/);
+  assert.match(content, /"⟨NOTES⟩"/);
+  assert.deepEqual(missing, []);
+  assert.deepEqual(extra, ["NOTES"]);
+  assert.deepEqual(parseCrystal(content).layers, parsed.layers);
+});
+
+check("layer references resolve by symbol, number or name", () => {
+  assert.equal(resolveLayerIndex("L₃"), 3);
+  assert.equal(resolveLayerIndex(" l3 "), 3);
+  assert.equal(resolveLayerIndex("⟨⟨reconstruction_protocol⟩⟩"), 9);
+  assert.equal(resolveLayerIndex("L10"), null);
+  assert.equal(resolveLayerIndex("UNKNOWN"), null);
+});
+
+check("protocol sections and symbol legends are extracted", () => {
+  const protocol = `⟨⟨P_v1⟩⟩ = {\n  "Ω": "x",\n  "⟨SYMBOL_SEMANTICS⟩": { "Ω": "convergence", "∂": "arc", "nested": { "}": "brace" } },\n  "⟨NEXT⟩": {}\n}`;
+  const section = extractProtocolSection(protocol, "SYMBOL_SEMANTICS");
+  assert.ok(section.startsWith("\"⟨SYMBOL_SEMANTICS⟩\""));
+  assert.ok(section.endsWith("\"brace\" } }"));
+  assert.deepEqual(symbolLegend(protocol), { "Ω": "convergence", "∂": "arc", "}": "brace" });
+  assert.equal(extractProtocolSection(protocol, "MISSING"), null);
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} parser check(s) failed` : "\n✅ All parser checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { recordProvenance, matchesProvenance, checkProvenanceFilters, formatProvenance, SERVER_NAME, SERVER_VERSION } from "./src/crystal-provenance.js";
+
+/**
+ * Crystal provenance: recording, filtering and formatting (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function isInvalidArgument(pattern) {
+  return error => error.name === "ToolError" && error.code === "INVALID_ARGUMENT" && pattern.test(error.message);
+}
+
+console.log("🧭 Testing crystal provenance\n");
+
+const provenance = recordProvenance({
+  client: { name: "@acme/agent", version: "2.1.0" },
+  session_id: "session-1",
+  cwd: " /home/me/repo ",
+  git_head: "1A2B3C4D5E6F7A8B",
+});
+
+check("recorded provenance is trimmed and stamped with this server", () => {
+  assert.deepEqual(provenance, {
+    client: { name: "@acme/agent", version: "2.1.0" },
+    session_id: "session-1",
+    cwd: "/home/me/repo",
+    git_head: "1a2b3c4d5e6f7a8b",
+    server: { name: SERVER_NAME, version: SERVER_VERSION },
+  });
+  assert.deepEqual(recordProvenance({ cwd: "  ", git_head: "" }), { server: { name: SERVER_NAME, version: SERVER_VERSION } });
+  assert.throws(() => recordProvenance({ git_head: "main" }), isInvalidArgument(/^Invalid git_head: main/));
+});
+
+check("client filters match by name or name@version", () => {
+  assert.equal(matchesProvenance(provenance, { client: "@ACME/agent" }), true);
+  assert.equal(matchesProvenance(provenance, { client: "@acme/agent@2.1.0" }), true);
+  assert.equal(matchesProvenance(provenance, { client: "@acme/agent@2.0.0" }), false);
+  assert.equal(matchesProvenance(provenance, { client: "other" }), false);
+});
+
+check("cwd filters match the directory and anything below it", () => {
+  assert.equal(matchesProvenance(provenance, { cwd: "/home/me/repo/" }), true);
+  assert.equal(matchesProvenance(provenance, { cwd: "/home/me" }), true);
+  assert.equal(matchesProvenance(provenance, { cwd: "/home/me/re" }), false);
+});
+
+check("git_head filters match a prefix in any case", () => {
+  assert.equal(matchesProvenance(provenance, { git_head: "1A2B" }), true);
+  assert.equal(matchesProvenance(provenance, { git_head: "1a2c" }), false);
+  assert.throws(() => checkProvenanceFilters({ git_head: "abc" }), isInvalidArgument(/^Invalid git_head filter: abc/));
+});
+
+check("crystals without provenance match only an empty filter", () => {
+  assert.equal(matchesProvenance(undefined, {}), true);
+  assert.equal(matchesProvenance(undefined, { server_version: SERVER_VERSION }), false);
+  assert.equal(matchesProvenance(provenance, { session_id: "session-1", server_version: SERVER_VERSION }), true);
+});
+
+check("provenance formats on one line", () => {
+  assert.equal(formatProvenance(provenance), `@acme/agent 2.1.0, session session-1, /home/me/repo @ 1a2b3c4d5e6f, ${SERVER_NAME} ${SERVER_VERSION}`);
+  assert.equal(formatProvenance(recordProvenance({ git_head: "abcd" })), `unknown client, unknown directory @ abcd, ${SERVER_NAME} ${SERVER_VERSION}`);
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} provenance check(s) failed` : "\n✅ All provenance checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
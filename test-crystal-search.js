@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { CrystalSearchIndex, tokenize } from "./src/crystal-search.js";
+
+/**
+ * Full-text crystal search: stemming, field weights, filters and index updates (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function crystal(id, title, layers, extra = {}) {
+  const body = Object.entries(layers).map(([key, value]) => `"${key}": ${JSON.stringify(value)}`).join(", ");
+  return {
+    id,
+    title,
+    content: `⟨⟨CRYSTAL⟩⟩ = {${body}}`,
+    spec_version: "2.0",
+    created_at: "2026-01-01T00:00:00.000Z",
+    auto_detected: false,
+    ...extra,
+  };
+}
+
+console.log("🔎 Testing crystal search\n");
+
+const index = new CrystalSearchIndex();
+index.add(crystal("problem", "Session notes", { "L₁⟨PROBLEM_MANIFOLD⟩": { "P₁": "cache invalidation drops entries" } }, { tags: ["backend"] }));
+index.add(crystal("insight", "Session notes", { "L₇⟨ENHANCEMENT_VECTORS⟩": { "V₁": "look at the cache later" } }, { created_at: "2026-03-01T00:00:00.000Z" }));
+index.add(crystal("titled", "Cache refactor", { "L₉⟨RECONSTRUCTION_PROTOCOL⟩": { "R₁": "rerun the tests" } }, { spec_version: "3.0" }));
+
+check("tokens are lowercased, stemmed and stripped of stop words", () => {
+  assert.deepEqual(tokenize("The Caching of cached caches"), ["cach", "cach", "cach"]);
+});
+
+check("a title hit ranks above an L₁ hit, which ranks above other layers", () => {
+  const hits = index.search("caching");
+  assert.deepEqual(hits.map(hit => hit.id), ["titled", "problem", "insight"]);
+  assert.ok(hits[1].fieldScores["L₁"] > 0);
+  assert.ok(hits[0].snippet.length > 0);
+});
+
+check("filters narrow the hits", () => {
+  assert.deepEqual(index.search("cache", { tags: ["BACKEND"] }).map(hit => hit.id), ["problem"]);
+  assert.deepEqual(index.search("cache", { spec_version: "3.0" }).map(hit => hit.id), ["titled"]);
+  assert.deepEqual(index.search("cache", { created_after: "2026-02-01" }).map(hit => hit.id), ["insight"]);
+});
+
+check("a filter-only search lists crystals newest first", () => {
+  assert.deepEqual(index.search("", {}, 2).map(hit => hit.id), ["insight", "problem"]);
+});
+
+check("re-adding and removing a crystal updates the index", () => {
+  index.add(crystal("problem", "Session notes", { "L₁⟨PROBLEM_MANIFOLD⟩": { "P₁": "login timeout" } }));
+  assert.ok(!index.search("invalidation").some(hit => hit.id === "problem"));
+  assert.deepEqual(index.search("login").map(hit => hit.id), ["problem"]);
+  index.remove("problem");
+  assert.equal(index.size, 2);
+  assert.deepEqual(index.search("login"), []);
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} search check(s) failed` : "\n✅ All search checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { CrystalService, projectRoot } from "./src/crystal-service.js";
+import { loadCrystalConfig } from "./src/crystal-config.js";
+import { renderCrystal, PROTOCOL_LAYERS } from "./src/crystal-parser.js";
+
+/**
+ * CrystalService end to end on a temporary data root: export, import, trash, namespaces and merge (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function isToolError(code, pattern) {
+  return error => error.name === "ToolError" && error.code === code && pattern.test(error.message);
+}
+
+// A crystal that validates against the v2.0 layer model
+function validContent(header, problem) {
+  const layers = PROTOCOL_LAYERS.map(definition => ({
+    name: definition.name,
+    entries: [{ key: definition.index === 1 ? "P₁" : definition.index === 2 ? "T₁" : null, text: definition.index === 1 ? problem : `${definition.name} entry` }],
+  }));
+  return renderCrystal({ header, omega: "converged", delta: "arc", layers }, PROTOCOL_LAYERS).content;
+}
+
+async function testService() {
+  console.log("🧪 Testing crystal service\n");
+
+  const root = await mkdtemp(join(tmpdir(), "crystal-service-"));
+  const service = new CrystalService(undefined, loadCrystalConfig(projectRoot, { dataRoot: root }, {}));
+  const exported = async (options) => (await service.exportCrystal({ validation: "strict", ...options })).crystal;
+
+  try {
+    const first = await exported({ title: "Cache fix", manual_content: validContent("CACHE_CRYSTAL", "stale cache"), tags: ["Backend", "backend ", ""] });
+
+    await check("exported crystals are sealed, tagged and importable", async () => {
+      assert.equal(first.spec_version, "2.0");
+      assert.deepEqual(first.tags, ["Backend"]);
+      assert.equal(first.root_id, first.id);
+      const imported = await service.importCrystal({ crystal_id: first.id });
+      assert.equal(imported.content, first.content);
+      assert.equal(imported.integrity.content, "verified");
+      assert.equal(imported.namespace, "default");
+    });
+
+    await check("strict validation refuses malformed content without storing it", async () => {
+      const result = await service.exportCrystal({ manual_content: "⟨⟨DRAFT⟩⟩ = {}", validation: "strict" });
+      assert.equal(result.crystal, null);
+      assert.equal(result.validation.valid, false);
+      assert.equal((await service.listCrystals()).crystals.length, 1);
+    });
+
+    await check("new versions supersede their parent and search finds them", async () => {
+      const second = await exported({ title: "Cache fix v2", manual_content: validContent("CACHE_CRYSTAL", "stale cache entries"), supersedes: first.id });
+      assert.equal(second.version, 2);
+      assert.deepEqual((await service.listCrystals({ collapse_superseded: true })).crystals.map(c => c.id), [second.id]);
+      assert.equal((await service.importCrystal({ crystal_id: first.id, latest: true })).crystal.id, second.id);
+      assert.deepEqual((await service.searchCrystals({ query: "entries", limit: 10 })).hits.map(hit => hit.id), [second.id]);
+    });
+
+    await check("deleted crystals go to the trash and can be restored once", async () => {
+      const deleted = await service.deleteCrystal(first.id, false);
+      assert.equal(deleted.trashLocation, join(root, "public/crystals/.trash"));
+      assert.deepEqual((await service.listCrystals({ trashed: true })).crystals.map(c => c.id), [first.id]);
+      const restored = await service.restoreCrystal(first.id);
+      assert.equal(restored.crystal.content, first.content);
+      assert.ok(restored.deletedAt);
+      await assert.rejects(service.restoreCrystal(first.id), isToolError("NOT_FOUND", /^Crystal not in the trash: /));
+    });
+
+    await check("namespaces keep their crystals apart", async () => {
+      const other = await exported({ manual_content: validContent("REPO_CRYSTAL", "flaky build"), namespace: "repo" });
+      assert.ok(!(await service.listCrystals()).crystals.some(c => c.id === other.id));
+      assert.deepEqual((await service.listCrystals({ namespace: "repo" })).crystals.map(c => c.id), [other.id]);
+      await assert.rejects(service.loadCrystal(other.id), /Crystal not found/);
+      assert.equal((await service.verifyCrystals(undefined, "repo")).counts.verified, 1);
+      await assert.rejects(service.listCrystals({ namespace: "nowhere" }), isToolError("NOT_FOUND", /^No namespace named nowhere$/));
+    });
+
+    await check("merged crystals record their sources", async () => {
+      const latest = (await service.listCrystals({ collapse_superseded: true })).crystals[0];
+      const result = await service.mergeCrystals({ crystal_ids: [first.id, latest.id], validation: "strict" });
+      assert.deepEqual(result.crystal.merged_from, [first.id, latest.id]);
+      assert.equal(result.report.problems, 2);
+      assert.deepEqual(result.crystal.tags, ["Backend"]);
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} service check(s) failed` : "\n✅ All service checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testService().catch(error => {
+  console.error("❌ Service test failed:", error);
+  process.exitCode = 1;
+});
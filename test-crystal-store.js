@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+import { mkdtemp, writeFile, utimes, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { FileCrystalStore, CrystalNotFoundError, InvalidCrystalIdError } from "./src/crystal-store.js";
+import { SqliteCrystalStore } from "./src/sqlite-crystal-store.js";
+
+/**
+ * Crystal stores: the same behaviour from the file and SQLite backends (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function crystal(id, day = 1) {
+  return { id, title: `Crystal ${id}`, content: "⟨⟨CRYSTAL⟩⟩ stored", spec_version: "2.0", created_at: `2026-01-0${day}T00:00:00.000Z` };
+}
+
+async function testBackend(kind, store) {
+  await check(`${kind}: put, get, has and list round-trip crystals`, async () => {
+    await store.put(crystal("b", 2));
+    await store.put(crystal("a", 1));
+    await store.put({ ...crystal("a", 1), title: "Updated" });
+    assert.deepEqual(await store.get("a"), { ...crystal("a", 1), title: "Updated" });
+    assert.equal(await store.has("a"), true);
+    assert.equal(await store.has("missing"), false);
+    assert.deepEqual((await store.list()).map(entry => entry.id).sort(), ["a", "b"]);
+    assert.equal((await store.entry("b")).data.title, "Crystal b");
+    assert.equal(await store.entry("missing"), null);
+  });
+
+  await check(`${kind}: missing crystals and unsafe ids are errors`, async () => {
+    await assert.rejects(store.get("missing"), CrystalNotFoundError);
+    await assert.rejects(store.delete("missing"), CrystalNotFoundError);
+    await assert.rejects(store.get("../escape"), InvalidCrystalIdError);
+    await assert.rejects(store.put(crystal("a/b")), InvalidCrystalIdError);
+  });
+
+  await check(`${kind}: the trash is a separate store of the same kind`, async () => {
+    const trash = store.trash();
+    assert.equal(trash.kind, store.kind);
+    await trash.put(await store.get("b"));
+    await store.delete("b");
+    assert.equal(await store.has("b"), false);
+    assert.deepEqual((await trash.list()).map(entry => entry.id), ["b"]);
+    assert.deepEqual((await store.list()).map(entry => entry.id), ["a"]);
+  });
+
+  await check(`${kind}: concurrent writes are all kept`, async () => {
+    const ids = Array.from({ length: 8 }, (_, i) => `c${i}`);
+    await Promise.all(ids.map(id => store.put(crystal(id))));
+    const listed = new Set((await store.list()).map(entry => entry.id));
+    assert.ok(ids.every(id => listed.has(id)));
+  });
+}
+
+async function testStores() {
+  console.log("🗄️ Testing crystal stores\n");
+
+  const root = await mkdtemp(join(tmpdir(), "crystal-store-"));
+  try {
+    const files = new FileCrystalStore(join(root, "crystals"));
+    const database = join(root, "crystals.db");
+    await testBackend("file", files);
+    await testBackend("sqlite", new SqliteCrystalStore(database));
+
+    await check("file: unreadable files are listed with an error", async () => {
+      await writeFile(join(root, "crystals", "broken.crystal"), "{ not json");
+      await writeFile(join(root, "crystals", "empty.crystal"), "{}");
+      const entries = (await files.list()).filter(entry => entry.data === null);
+      assert.deepEqual(entries.map(entry => entry.id).sort(), ["broken", "empty"]);
+      assert.equal(entries.find(entry => entry.id === "empty").error, "Invalid crystal format: missing content field");
+    });
+
+    await check("sqlite: a stale lock left by a crashed process is taken over", async () => {
+      const lock = `${database}.lock`;
+      await writeFile(lock, "99999");
+      const old = new Date(Date.now() - 60_000);
+      await utimes(lock, old, old);
+      await new SqliteCrystalStore(database).put(crystal("after-crash"));
+      assert.equal(await new SqliteCrystalStore(database).has("after-crash"), true);
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} store check(s) failed` : "\n✅ All store checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testStores().catch(error => {
+  console.error("❌ Store test failed:", error);
+  process.exitCode = 1;
+});
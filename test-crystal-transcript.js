@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { parseTranscript, findLatestCrystal, describeCandidateLocation } from "./src/crystal-transcript.js";
+import { renderCrystal, PROTOCOL_LAYERS } from "./src/crystal-parser.js";
+
+/**
+ * Transcript parsing and latest-crystal detection for export_crystal (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+// A crystal with one entry per protocol layer, which validates cleanly
+function validCrystal(header) {
+  const layers = PROTOCOL_LAYERS.map(definition => ({
+    name: definition.name,
+    entries: [{ key: definition.index === 1 ? "P₁" : definition.index === 2 ? "T₁" : null, text: `${definition.name} entry` }],
+  }));
+  return renderCrystal({ header, omega: "converged", delta: "arc", layers }, PROTOCOL_LAYERS).content;
+}
+
+console.log("📜 Testing transcript detection\n");
+
+check("JSONL session logs keep roles and source lines", () => {
+  const raw = [
+    JSON.stringify({ type: "user", message: { role: "user", content: "crystallize this" } }),
+    "",
+    JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "done" }, { type: "tool_use", name: "x" }] } }),
+  ].join("\n");
+  assert.deepEqual(parseTranscript(raw), [
+    { index: 1, role: "user", text: "crystallize this", sourceLine: 1 },
+    { index: 2, role: "assistant", text: "done", sourceLine: 3 },
+  ]);
+});
+
+check("ChatGPT exports are ordered by create_time", () => {
+  const raw = JSON.stringify({
+    mapping: {
+      b: { message: { author: { role: "assistant" }, content: { parts: ["second"] }, create_time: 2 } },
+      root: { message: null },
+      a: { message: { author: { role: "user" }, content: { parts: ["first"] }, create_time: 1 } },
+    },
+  });
+  assert.deepEqual(parseTranscript(raw).map(m => `${m.role}:${m.text}`), ["user:first", "assistant:second"]);
+});
+
+check("anything else is one plain-text message", () => {
+  assert.deepEqual(parseTranscript("just notes\n{not json"), [{ index: 1, role: "text", text: "just notes\n{not json" }]);
+  assert.deepEqual(parseTranscript("  \n"), []);
+});
+
+check("the newest valid crystal wins over older ones and newer invalid ones", () => {
+  const messages = parseTranscript(JSON.stringify([
+    { role: "assistant", content: validCrystal("OLD_CRYSTAL") },
+    { role: "assistant", content: `Here it is:\n\n${validCrystal("NEW_CRYSTAL")}\n\nand a draft ⟨⟨DRAFT⟩⟩ = {"Ω": "wip"}` },
+    { role: "user", content: "thanks" },
+  ]));
+  const scan = findLatestCrystal(messages, PROTOCOL_LAYERS);
+  assert.equal(scan.messages, 3);
+  assert.ok(scan.found.content.startsWith("⟨⟨NEW_CRYSTAL⟩⟩"));
+  assert.equal(scan.found.kind, "header");
+  assert.equal(scan.found.line, 3);
+  assert.equal(scan.rejected.length, 1);
+  assert.ok(scan.rejected[0].candidate.content.startsWith("⟨⟨DRAFT⟩⟩"));
+  assert.match(scan.rejected[0].reason, /^\[structure\] Missing layer/);
+  assert.equal(describeCandidateLocation(scan.found, scan.messages), "message 2 of 3 (assistant), ⟨⟨…⟩⟩ block at line 3");
+});
+
+check("crystals inside fenced code blocks are found once", () => {
+  const messages = parseTranscript(`Intro\n\`\`\`json\n${validCrystal("FENCED")}\n\`\`\`\n`);
+  const scan = findLatestCrystal(messages, PROTOCOL_LAYERS);
+  assert.equal(scan.found.kind, "fenced");
+  assert.equal(scan.found.line, 3);
+  assert.deepEqual(scan.rejected, []);
+});
+
+check("no candidates means nothing found", () => {
+  const scan = findLatestCrystal(parseTranscript("no crystal here"), PROTOCOL_LAYERS);
+  assert.equal(scan.found, null);
+  assert.deepEqual(scan.rejected, []);
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} transcript check(s) failed` : "\n✅ All transcript checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
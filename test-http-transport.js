@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpTransport } from "./src/http-transport.js";
+
+/**
+ * HTTP transport sessions: opened by initialize, closed by DELETE or when idle (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test-http-transport", version: "1.0.0" } }
+};
+
+async function openSession(url) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+    body: JSON.stringify(initialize)
+  });
+  await response.text();
+  assert.equal(response.status, 200);
+  return response.headers.get("mcp-session-id");
+}
+
+async function testSessions() {
+  console.log("🌐 Testing HTTP transport sessions\n");
+
+  const http = await startHttpTransport(
+    { host: "127.0.0.1", port: 0, path: "/mcp", sessionIdleMs: 100 },
+    () => new McpServer({ name: "test", version: "1.0.0" })
+  );
+  try {
+    await check("DELETE closes a session", async () => {
+      const sessionId = await openSession(http.url);
+      assert.equal(http.sessionCount(), 1);
+      const response = await fetch(http.url, { method: "DELETE", headers: { "mcp-session-id": sessionId } });
+      await response.text();
+      assert.equal(http.sessionCount(), 0);
+    });
+
+    await check("a session without requests is closed once idle", async () => {
+      await openSession(http.url);
+      assert.equal(http.sessionCount(), 1);
+      await wait(400);
+      assert.equal(http.sessionCount(), 0);
+    });
+
+    await check("an open event stream keeps its session alive", async () => {
+      const sessionId = await openSession(http.url);
+      const controller = new AbortController();
+      const stream = await fetch(http.url, {
+        headers: { Accept: "text/event-stream", "mcp-session-id": sessionId },
+        signal: controller.signal
+      });
+      assert.equal(stream.status, 200);
+      await wait(400);
+      assert.equal(http.sessionCount(), 1);
+      controller.abort();
+      await wait(400);
+      assert.equal(http.sessionCount(), 0);
+    });
+  } finally {
+    await http.close();
+  }
+}
+
+await testSessions();
+console.log(failures > 0 ? `\n❌ ${failures} HTTP transport check(s) failed` : "\n✅ All HTTP transport checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { isLoopbackHostHeader, isLoopbackOrigin } from "./src/loopback.js";
+
+/**
+ * Host and Origin checks of the loopback listeners (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+console.log("🏠 Testing loopback host checks\n");
+
+check("loopback names with the bound port are accepted", () => {
+  for (const host of ["localhost:3334", "127.0.0.1:3334", "[::1]:3334", "LOCALHOST:3334"]) {
+    assert.ok(isLoopbackHostHeader(host, 3334), host);
+  }
+  assert.ok(isLoopbackHostHeader("localhost", 80));
+});
+
+check("other hosts, other ports and a missing Host are rejected", () => {
+  for (const host of ["evil.com:3334", "localhost:3335", "localhost", "127.0.0.2:3334", "[::1]", "localhost.evil.com:3334", undefined]) {
+    assert.ok(!isLoopbackHostHeader(host, 3334), String(host));
+  }
+});
+
+check("origins are accepted from loopback hosts on any port only", () => {
+  assert.ok(isLoopbackOrigin("http://localhost:6274"));
+  assert.ok(isLoopbackOrigin("http://[::1]:5173"));
+  assert.ok(!isLoopbackOrigin("http://evil.com"));
+  assert.ok(!isLoopbackOrigin("null"));
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} loopback check(s) failed` : "\n✅ All loopback checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
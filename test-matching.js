@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { FileMatcher, parseQuery, normalizeVersion } from "./src/matching.js";
+
+/**
+ * Protocol and codex file matching: versions, typos and domain terms (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+console.log("🔮 Testing file matching\n");
+
+const protocols = [
+  "CRYSTALLIZATION_PROTOCOL_2.0.cp",
+  "CRYSTALLIZATION_PROTOCOL_2.1.cp",
+  "CRYSTALLIZATION_TEMPORAL_3.0.cp"
+];
+
+check("queries split into words and version constraints", () => {
+  const { words, constraints } = parseQuery("Temporal crystallization >= 2.0 <3");
+  assert.deepEqual(words, ["temporal", "crystallization"]);
+  assert.deepEqual(constraints.map(c => c.text), [">=2.0", "<3"]);
+  assert.equal(normalizeVersion("v2.0"), "2");
+});
+
+check("version constraints pick the matching file", () => {
+  const matcher = new FileMatcher();
+  assert.equal(matcher.match("crystallization 2.x", protocols).match, "CRYSTALLIZATION_PROTOCOL_2.1.cp");
+  assert.equal(matcher.match("temporal 3.0", protocols).match, "CRYSTALLIZATION_TEMPORAL_3.0.cp");
+  assert.equal(matcher.match("protocol latest", protocols).match, "CRYSTALLIZATION_PROTOCOL_2.1.cp");
+  assert.equal(matcher.match("protocol 9.9", protocols).match, null);
+});
+
+check("a typo still matches", () => {
+  const result = new FileMatcher().match("temproal 3.0", protocols);
+  assert.equal(result.match, "CRYSTALLIZATION_TEMPORAL_3.0.cp");
+  assert.ok(result.candidates[0].reasons.some(reason => reason.includes("typo")));
+});
+
+check("plural query words take the boost of their singular term", () => {
+  const matcher = new FileMatcher({ termBoosts: { pattern: 0.5, probability: 0.5 } });
+  const files = ["PROBABILITY_PATTERN_1.0.cx"];
+  for (const query of ["probability pattern", "probability patterns", "probabilities patterns"]) {
+    const reasons = matcher.match(query, files).candidates[0].reasons;
+    assert.equal(reasons.filter(reason => reason.includes("domain term")).length, 2, query);
+  }
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} matching check(s) failed` : "\n✅ All matching checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { checkSpecContent, canonicalFilename, incrementVersion, bumpSpecContent } from "./src/protocol-authoring.js";
+import { parseProtocolHeader } from "./src/protocol-registry.js";
+
+/**
+ * Protocol and codex authoring: spec checks, file names and version bumps (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+function isInvalidFormat(pattern) {
+  return error => error.name === "ToolError" && error.code === "INVALID_FORMAT" && pattern.test(error.message);
+}
+
+console.log("✍️ Testing protocol authoring\n");
+
+const protocol = `⟨⟨TEST_PROTOCOL_v1.2⟩⟩ = ${JSON.stringify({
+  "Ω": "context → crystal",
+  "∂": "testing",
+  "⟨CRYSTAL_STRUCTURE⟩": { "LAYERS": { "L₁": "⟨PROBLEM_MANIFOLD⟩: problems", "L₂": "⟨⟨RECONSTRUCTION_PROTOCOL⟩⟩: steps" } },
+  "⟨SYMBOL_SEMANTICS⟩": {},
+  "⟨EXTRACTION_RULES⟩": { "rule": "old" },
+  "⟨COMPRESSION_STRATEGY⟩": {},
+  "⟨QUALITY_CRITERIA⟩": {},
+  "⟨RECONSTRUCTION_GUARANTEES⟩": {},
+  "⟨USAGE_PROTOCOL⟩": {},
+  "⟨META_PROTOCOL⟩": {},
+}, null, 2)}\n`;
+
+check("a complete protocol passes with no warnings", () => {
+  const result = checkSpecContent("protocol", protocol);
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.header.version, "1.2");
+  assert.deepEqual(result.header.layers.map(layer => layer.name), ["PROBLEM_MANIFOLD", "RECONSTRUCTION_PROTOCOL"]);
+});
+
+check("missing versions and sections are errors, missing extras are warnings", () => {
+  assert.deepEqual(checkSpecContent("codex", "no header").errors, ["No ⟨⟨NAME_vX.Y⟩⟩ header at the start of the codex"]);
+  const result = checkSpecContent("protocol", `⟨⟨DRAFT⟩⟩ = {"⟨SYMBOL_SEMANTICS⟩": {}}`);
+  assert.equal(result.errors[0], "Header ⟨⟨DRAFT⟩⟩ declares no version (expected e.g. ⟨⟨DRAFT_v1.0⟩⟩)");
+  assert.ok(result.errors.includes("Missing required section ⟨CRYSTAL_STRUCTURE⟩"));
+  assert.ok(!result.errors.includes("Missing required section ⟨SYMBOL_SEMANTICS⟩"));
+  assert.deepEqual(result.warnings, ["No ⟨USAGE_PROTOCOL⟩ section", "No ⟨META_PROTOCOL⟩ section", "No Ω (core transform) entry", "No ∂ (domain) entry"]);
+});
+
+check("file names come from the header", () => {
+  assert.equal(canonicalFilename("protocol", parseProtocolHeader(protocol)), "TEST_PROTOCOL_1.2.cp");
+  assert.equal(canonicalFilename("codex", parseProtocolHeader("⟨⟨My Codex: Symbols v2⟩⟩")), "My_Codex_Symbols_2.cx");
+  assert.throws(() => canonicalFilename("codex", parseProtocolHeader("⟨⟨UNVERSIONED⟩⟩")), isInvalidFormat(/^Cannot derive a file name/));
+});
+
+check("versions increment by major, minor or patch", () => {
+  assert.equal(incrementVersion("1.2", "major"), "2.0");
+  assert.equal(incrementVersion("v1.2", "minor"), "1.3");
+  assert.equal(incrementVersion("1.2", "patch"), "1.2.1");
+  assert.equal(incrementVersion("1.2.1", "patch"), "1.2.2");
+});
+
+check("a bump without section changes only rewrites the header", () => {
+  const bumped = bumpSpecContent(protocol, "1.3");
+  assert.equal(bumped, protocol.replace("⟨⟨TEST_PROTOCOL_v1.2⟩⟩", "⟨⟨TEST_PROTOCOL_v1.3⟩⟩"));
+  assert.equal(parseProtocolHeader(bumped).version, "1.3");
+});
+
+check("a bump replaces, adds and removes sections", () => {
+  const bumped = bumpSpecContent(protocol, "2.0", { EXTRACTION_RULES: { rule: "new" }, "⟨EXAMPLES⟩": [], "⟨META_PROTOCOL⟩": null, "∂": "bumped" });
+  const header = parseProtocolHeader(bumped);
+  assert.equal(header.identity, "TEST_PROTOCOL_v2.0");
+  assert.equal(header.delta, "bumped");
+  assert.ok(header.sections.includes("EXAMPLES"));
+  assert.ok(!header.sections.includes("META_PROTOCOL"));
+  assert.match(bumped, /"rule": "new"/);
+});
+
+check("section changes need a strict JSON body", () => {
+  assert.throws(() => bumpSpecContent("⟨⟨LOOSE_v1.0⟩⟩ = { ⟨SYMBOL_SEMANTICS⟩: loose }", "1.1", { "Ω": "x" }), isInvalidFormat(/^Section changes need a strict JSON body/));
+  assert.throws(() => bumpSpecContent("⟨⟨UNVERSIONED⟩⟩ = {}", "1.0"), isInvalidFormat(/^Source file declares no versioned/));
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} authoring check(s) failed` : "\n✅ All authoring checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import assert from "assert/strict";
+import { ProtocolRegistry, UnknownSpecVersionError, parseProtocolHeader } from "./src/protocol-registry.js";
+import { PROTOCOL_LAYERS } from "./src/crystal-parser.js";
+
+/**
+ * Protocol registry: header parsing, spec_version resolution and layer models (part of `npm test`)
+ */
+
+let failures = 0;
+
+async function check(name, fn) {
+  try {
+    await fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+async function testRegistry() {
+  console.log("📚 Testing protocol registry\n");
+
+  const root = await mkdtemp(join(tmpdir(), "protocol-registry-"));
+  const protocols = join(root, "protocols");
+
+  try {
+    await mkdir(protocols);
+    await writeFile(join(protocols, "renamed.cp"), `⟨⟨CONTEXT_CRYSTALLIZATION_PROTOCOL_v3.0⟩⟩ = ${JSON.stringify({
+      "Ω": "context → crystal",
+      "⟨CRYSTAL_STRUCTURE⟩": { "LAYERS": { "L₂": "⟨SOLUTION⟩: steps", "L₁": "⟨PROBLEM⟩: problems", "L₃": "⟨⟨RESTORE⟩⟩: how" } },
+      "⟨SYMBOL_SEMANTICS⟩": {},
+    })}`);
+    await writeFile(join(protocols, "CONTEXT_CRYSTALLIZATION_PROTOCOL_2.0.cp"), "no header, identity from the file name");
+    await writeFile(join(protocols, "notes.txt"), "ignored");
+    // No codex directory at all
+    const registry = await ProtocolRegistry.load({ protocol: protocols, codex: join(root, "codex") });
+
+    await check("identities come from headers, or from file names when there is none", async () => {
+      assert.deepEqual(registry.list().map(entry => [entry.filename, entry.name, entry.version, entry.declared]), [
+        ["CONTEXT_CRYSTALLIZATION_PROTOCOL_2.0.cp", "CONTEXT_CRYSTALLIZATION_PROTOCOL", "2.0", false],
+        ["renamed.cp", "CONTEXT_CRYSTALLIZATION_PROTOCOL", "3.0", true],
+      ]);
+      assert.deepEqual(registry.list("codex"), []);
+      assert.deepEqual(registry.get("protocol", "renamed.cp").sections, ["CRYSTAL_STRUCTURE", "SYMBOL_SEMANTICS"]);
+    });
+
+    await check("spec versions resolve by number or identity", async () => {
+      assert.deepEqual(registry.versions(), ["2.0", "3.0"]);
+      assert.equal(registry.latestVersion(), "3.0");
+      assert.equal(registry.resolveSpecVersion("3"), "3.0");
+      assert.equal(registry.resolveSpecVersion(" v2.0 "), "2.0");
+      assert.equal(registry.resolveSpecVersion("CONTEXT_CRYSTALLIZATION_PROTOCOL_v3.0"), "3.0");
+      assert.throws(() => registry.resolveSpecVersion("4.0"), error =>
+        error instanceof UnknownSpecVersionError && error.message === `Unknown spec_version "4.0". Registered protocol versions: 2.0, 3.0`);
+    });
+
+    await check("layer models come from the declaring protocol, else the v2.0 model", async () => {
+      assert.deepEqual(registry.layerModel("3"), [
+        { index: 1, name: "PROBLEM" },
+        { index: 2, name: "SOLUTION" },
+        { index: 3, name: "RESTORE", brackets: 2 },
+      ]);
+      assert.equal(registry.layerModel("2.0"), PROTOCOL_LAYERS);
+    });
+
+    await check("headers of loose, non-JSON bodies are read line by line", async () => {
+      const header = parseProtocolHeader(`⟨⟨SYMBOL_CODEX v1.2⟩⟩ = {\n  ⟨SYMBOL_SEMANTICS⟩: {\n    ⟨NESTED⟩: x\n  },\n  "∂": "symbols",\n}`);
+      assert.equal(header.name, "SYMBOL_CODEX");
+      assert.equal(header.version, "1.2");
+      assert.deepEqual(header.sections, ["SYMBOL_SEMANTICS"]);
+      assert.equal(header.delta, "symbols");
+      assert.equal(parseProtocolHeader("plain text"), null);
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  console.log(failures > 0 ? `\n❌ ${failures} registry check(s) failed` : "\n✅ All registry checks passed");
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+testRegistry().catch(error => {
+  console.error("❌ Registry test failed:", error);
+  process.exitCode = 1;
+});
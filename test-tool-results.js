@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+import assert from "assert/strict";
+import { z } from "zod";
+import {
+  ToolError,
+  toolResult,
+  errorResult,
+  errorCodeOf,
+  outputShape,
+  crystalSummary,
+  crystalSummarySchema,
+  mergeReportData,
+  mergeReportSchema,
+  integrityData,
+} from "./src/tool-results.js";
+import { CrystalNotFoundError, InvalidCrystalIdError } from "./src/crystal-store.js";
+import { UnknownSpecVersionError } from "./src/protocol-registry.js";
+import { CrystalLockedError } from "./src/crystal-encryption.js";
+import { InvalidBundleError } from "./src/crystal-bundle.js";
+
+/**
+ * Structured tool results and typed tool errors (part of `npm test`)
+ */
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`  ✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.log(`  ❌ ${name}: ${error.message}`);
+  }
+}
+
+console.log("📋 Testing tool results\n");
+
+check("domain errors map to their error codes", () => {
+  const enoent = Object.assign(new Error("no such file"), { code: "ENOENT" });
+  assert.deepEqual([
+    new ToolError("CONFLICT", "taken"),
+    new CrystalNotFoundError("a"),
+    new InvalidCrystalIdError("../a"),
+    new UnknownSpecVersionError("9.0", ["2.0"]),
+    new CrystalLockedError("a", "k1"),
+    new InvalidBundleError("bad"),
+    new SyntaxError("Unexpected token"),
+    enoent,
+    new Error("boom"),
+    "not an error",
+  ].map(errorCodeOf), [
+    "CONFLICT", "NOT_FOUND", "INVALID_ARGUMENT", "UNKNOWN_SPEC_VERSION", "LOCKED",
+    "INVALID_FORMAT", "INVALID_FORMAT", "NOT_FOUND", "INTERNAL", "INTERNAL",
+  ]);
+});
+
+check("error results carry the code, message and details", () => {
+  assert.deepEqual(errorResult(new CrystalLockedError("a", "k1"), "importing crystal"), {
+    content: [{ type: "text", text: `Error importing crystal: ${new CrystalLockedError("a", "k1").message}` }],
+    structuredContent: { ok: false, error: { code: "LOCKED", message: new CrystalLockedError("a", "k1").message, details: { crystal_id: "a", key_id: "k1" } } },
+    isError: true,
+  });
+  // A missing crystal reads the same as its message
+  assert.equal(errorResult(new CrystalNotFoundError("a"), "importing crystal").content[0].text, "Crystal not found: a");
+  assert.deepEqual(errorResult(new ToolError("INVALID_ARGUMENT", "bad", { field: "x" }), "x").structuredContent.error.details, { field: "x" });
+  assert.equal(errorResult("thrown string", "x").structuredContent.error.message, "Unknown error");
+});
+
+check("success and failure results both satisfy the output schema", () => {
+  const schema = z.object(outputShape({ count: z.number() })).strict();
+  assert.deepEqual(schema.parse(toolResult("2 crystals", { count: 2 }).structuredContent), { ok: true, count: 2 });
+  assert.equal(schema.parse(errorResult(new Error("boom"), "counting").structuredContent).ok, false);
+  assert.throws(() => schema.parse(toolResult("?", { count: "two" }).structuredContent));
+});
+
+check("crystal summaries fill defaults and lineage", () => {
+  const summary = crystalSummary({ id: "a", content: "x", created_at: "2026-01-01T00:00:00.000Z" });
+  assert.deepEqual(summary, {
+    id: "a",
+    title: "Untitled",
+    spec_version: "Unknown",
+    created_at: "2026-01-01T00:00:00.000Z",
+    tags: [],
+    root_id: "a",
+    parent_id: undefined,
+    supersedes: undefined,
+    version: 1,
+  });
+  crystalSummarySchema.parse(summary);
+});
+
+check("reports are converted to their snake_case schemas", () => {
+  const report = mergeReportData({
+    sources: ["a", "b"], problems: 1, steps: 1, artifacts: 0, duplicates: 0, warnings: [],
+    conflicts: [{ key: "I₁", variants: [{ crystalId: "a", text: "x" }, { crystalId: "b", text: "y" }] }],
+  });
+  assert.deepEqual(mergeReportSchema.parse(report).conflicts[0].variants, [{ crystal_id: "a", text: "x" }, { crystal_id: "b", text: "y" }]);
+  assert.deepEqual(integrityData({ content: "verified", signature: "trusted", keyId: "k1", signer: "me", ok: true }),
+    { ok: true, content: "verified", signature: "trusted", key_id: "k1", signer: "me" });
+  assert.deepEqual(integrityData({ content: "missing", signature: "unsigned", ok: true }), { ok: true, content: "missing", signature: "unsigned" });
+});
+
+console.log(failures > 0 ? `\n❌ ${failures} tool result check(s) failed` : "\n✅ All tool result checks passed");
+if (failures > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from "vite";
+
+// The crystal browser talks to the local crystal API of the MCP server (--ui)
+const apiTarget = process.env.CRYSTAL_UI_API ?? `http://127.0.0.1:${process.env.CRYSTAL_UI_PORT ?? 3334}`;
+
+export default defineConfig({
+  server: {
+    proxy: {
+      // The API only answers requests whose Host names it, not the dev server
+      "/api": { target: apiTarget, changeOrigin: true }
+    }
+  }
+});